@@ -0,0 +1,137 @@
+/**
+ * Alert Manager
+ * Turns health checks and calibration drift into alerts and fans them out to sinks
+ */
+
+import { Alert, AlertSink, CalibrationDrift, HealthStatus } from '../types';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'alerts' });
+
+export class AlertManager {
+  private active = new Map<string, Alert>();
+  /** `${sink}\u0000${key}` → when the sink may next be told about a firing alert again */
+  private delivered = new Map<string, { key: string; until: number }>();
+
+  /**
+   * @param sinks Destinations for alerts; an empty list only tracks state
+   * @param cooldownMinutes Repeat interval for sinks without their own cooldown
+   */
+  constructor(private sinks: AlertSink[] = [], private cooldownMinutes: number = 60) {}
+
+  /**
+   * Fire alerts for failed connectors and resolve those that recovered
+   */
+  async evaluateHealth(health: HealthStatus): Promise<Alert[]> {
+    const alerts: Alert[] = [];
+
+    for (const [connector, status] of Object.entries(health.connectors)) {
+      const key = `${connector}:health`;
+      const existing = this.active.get(key);
+
+      if (status.status === 'failed') {
+        const alert: Alert = {
+          key,
+          connector,
+          source: 'health',
+          status: 'firing',
+          severity: 'critical',
+          title: `${connector} connector failing`,
+          message: status.error || `${connector} health check failed`,
+          error_type: status.error_type,
+          started_at: existing?.started_at || status.last_check,
+          timestamp: health.timestamp
+        };
+        this.active.set(key, alert);
+        alerts.push(alert);
+      } else if (existing && status.status === 'healthy') {
+        this.active.delete(key);
+        alerts.push({
+          ...existing,
+          status: 'resolved',
+          message: `${connector} recovered (${status.latency_ms}ms)`,
+          timestamp: health.timestamp
+        });
+      }
+    }
+
+    await Promise.all(alerts.map(alert => this.deliver(alert)));
+    return alerts;
+  }
+
+  /**
+   * Alert on warning or critical drift, one alert per affected connector
+   */
+  async notifyDrift(drift: CalibrationDrift): Promise<Alert[]> {
+    const byConnector = new Map<string, CalibrationDrift['changes']>();
+    for (const change of drift.changes) {
+      if (change.severity === 'info') continue;
+      byConnector.set(change.connector, [...(byConnector.get(change.connector) || []), change]);
+    }
+
+    const alerts: Alert[] = [...byConnector].map(([connector, changes]) => ({
+      // Each calibration's drift is a separate event, so it is never held back by a cooldown
+      key: `${connector}:drift:${drift.to}`,
+      connector,
+      source: 'drift',
+      status: 'firing',
+      severity: changes.some(change => change.severity === 'critical') ? 'critical' : 'warning',
+      title: `${connector} calibration drift`,
+      message: changes.map(change => change.message).join('\n'),
+      started_at: drift.to,
+      timestamp: drift.to
+    }));
+
+    await Promise.all(alerts.map(alert => this.deliver(alert)));
+    return alerts;
+  }
+
+  /**
+   * Alerts currently firing
+   */
+  firing(): Alert[] {
+    return [...this.active.values()];
+  }
+
+  /**
+   * Send to every sink that is not cooling down; sink failures are logged and retried next time
+   */
+  private async deliver(alert: Alert): Promise<void> {
+    const now = Date.now();
+
+    await Promise.all(this.sinks.map(async sink => {
+      const id = `${sink.name}\u0000${alert.key}`;
+      const last = this.delivered.get(id);
+      const cooldownMs = (sink.cooldownMinutes ?? this.cooldownMinutes) * 60 * 1000;
+
+      if (alert.status === 'firing') {
+        if (last !== undefined && now < last.until) return;
+      } else if (last === undefined) {
+        // Never told this sink about the failure, so there is nothing to resolve
+        return;
+      }
+
+      try {
+        await sink.send(alert);
+        if (alert.status === 'firing') {
+          this.delivered.set(id, { key: alert.key, until: now + cooldownMs });
+        } else {
+          this.delivered.delete(id);
+        }
+      } catch (error) {
+        log.error('Alert sink failed', { sink: sink.name, alert: alert.title, error });
+      }
+    }));
+
+    this.forgetExpired(now);
+  }
+
+  /**
+   * Drop deliveries whose cooldown has passed, keeping those of alerts still firing so their resolution is sent
+   */
+  private forgetExpired(now: number): void {
+    for (const [id, delivery] of this.delivered) {
+      if (now >= delivery.until && !this.active.has(delivery.key)) this.delivered.delete(id);
+    }
+  }
+}
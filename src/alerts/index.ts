@@ -0,0 +1,41 @@
+/**
+ * Alert Sinks
+ * Builds the configured alert destinations
+ */
+
+import { AlertSink, HealthConfig } from '../types';
+import { logger } from '../logging';
+import { AlertManager } from './alert-manager';
+import { ConsoleAlertSink, FileAlertSink } from './log-sink';
+import { LinearAlertSink } from './linear-sink';
+import { SlackAlertSink, WebhookAlertSink } from './webhook-sink';
+
+export { AlertManager, ConsoleAlertSink, FileAlertSink, LinearAlertSink, SlackAlertSink, WebhookAlertSink };
+
+/**
+ * Sinks enabled by the health config
+ */
+export function createAlertSinks(config: HealthConfig): AlertSink[] {
+  if (!config.alert_on_failure) return [];
+
+  const sinks: AlertSink[] = [new ConsoleAlertSink()];
+
+  if (config.alert_log_path) {
+    sinks.push(new FileAlertSink(config.alert_log_path));
+  }
+  if (config.alert_webhook_url) {
+    sinks.push(new WebhookAlertSink(config.alert_webhook_url));
+  }
+  if (config.alert_slack_webhook_url) {
+    sinks.push(new SlackAlertSink(config.alert_slack_webhook_url));
+  }
+  if (config.create_linear_issues) {
+    if (config.linear_alert_team_id) {
+      sinks.push(new LinearAlertSink(config.linear_alert_team_id));
+    } else {
+      logger.warn('CREATE_LINEAR_ISSUES_ON_FAILURE is set but LINEAR_ALERT_TEAM_ID is not; skipping Linear alerts');
+    }
+  }
+
+  return sinks;
+}
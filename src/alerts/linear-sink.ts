@@ -0,0 +1,68 @@
+/**
+ * Linear Alert Sink
+ * Tracks each alert in one Linear issue: created on first failure,
+ * commented on while it persists, and completed on recovery
+ */
+
+import { LinearClient, LinearIssueRef } from '../connectors/linear';
+import { Alert, AlertSink } from '../types';
+import { logger } from '../logging';
+
+const TITLE_PREFIX = '[MCP Awareness]';
+
+export class LinearAlertSink implements AlertSink {
+  name = 'linear';
+  private issues = new Map<string, LinearIssueRef>();
+
+  /**
+   * @param teamId Team that receives alert issues
+   * @param cooldownMinutes Defaults to six hours so a long outage adds a few comments, not one per check
+   */
+  constructor(
+    private teamId: string,
+    public cooldownMinutes: number = 360,
+    private client: LinearClient = new LinearClient()
+  ) {}
+
+  async send(alert: Alert): Promise<void> {
+    const title = `${TITLE_PREFIX} ${alert.title}`;
+    // The title is the dedup key, so an issue left open across restarts is reused
+    const issue = this.issues.get(title) || await this.client.findOpenIssue(this.teamId, title);
+
+    if (alert.status === 'resolved') {
+      if (!issue) return;
+      await this.client.createComment(issue.id, `✅ Resolved at ${alert.timestamp}: ${alert.message}`);
+      await this.client.completeIssue(this.teamId, issue.id);
+      this.issues.delete(title);
+      return;
+    }
+
+    if (issue) {
+      await this.client.createComment(issue.id, `Still failing at ${alert.timestamp}:\n\n${alert.message}`);
+      this.issues.set(title, issue);
+      return;
+    }
+
+    const created = await this.client.createIssue({
+      teamId: this.teamId,
+      title,
+      description: describe(alert),
+      priority: alert.severity === 'critical' ? 1 : 2
+    });
+    this.issues.set(title, created);
+    logger.info('Filed Linear issue', { component: 'alerts', issue: created.identifier, alert: alert.title });
+  }
+}
+
+function describe(alert: Alert): string {
+  return [
+    alert.message,
+    '',
+    `- Connector: ${alert.connector}`,
+    `- Source: ${alert.source}`,
+    ...(alert.error_type ? [`- Error class: ${alert.error_type}`] : []),
+    `- First seen: ${alert.started_at}`,
+    '',
+    '_Filed automatically by the MCP Connector Awareness Engine; it will be completed when the connector recovers._'
+  ].join('\n');
+}
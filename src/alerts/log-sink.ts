@@ -0,0 +1,40 @@
+/**
+ * Log Alert Sinks
+ * Write alerts to the log or append them to a JSON Lines file
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Alert, AlertSink } from '../types';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'alerts' });
+
+export class ConsoleAlertSink implements AlertSink {
+  name = 'console';
+  cooldownMinutes = 0;
+
+  async send(alert: Alert): Promise<void> {
+    if (alert.status === 'resolved') {
+      log.info('Alert resolved', { alert: alert.title, detail: alert.message, connector: alert.connector });
+    } else {
+      log[alert.severity === 'critical' ? 'error' : 'warn']('Alert firing', {
+        alert: alert.title,
+        severity: alert.severity,
+        detail: alert.message,
+        connector: alert.connector
+      });
+    }
+  }
+}
+
+export class FileAlertSink implements AlertSink {
+  name = 'file';
+
+  constructor(private filePath: string, public cooldownMinutes?: number) {}
+
+  async send(alert: Alert): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(alert) + '\n', 'utf-8');
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Webhook Alert Sinks
+ * POST alerts as JSON, either raw or in Slack's incoming-webhook format
+ */
+
+import { Alert, AlertSink } from '../types';
+
+export class WebhookAlertSink implements AlertSink {
+  name = 'webhook';
+
+  constructor(private url: string, public cooldownMinutes?: number) {}
+
+  async send(alert: Alert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.payload(alert))
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} returned ${response.status} ${response.statusText}`);
+    }
+  }
+
+  protected payload(alert: Alert): any {
+    return { alert };
+  }
+}
+
+export class SlackAlertSink extends WebhookAlertSink {
+  name = 'slack';
+
+  protected payload(alert: Alert): any {
+    const resolved = alert.status === 'resolved';
+    const icon = resolved ? ':white_check_mark:' : alert.severity === 'critical' ? ':rotating_light:' : ':warning:';
+    const heading = `${icon} *${resolved ? 'Resolved' : 'Alert'}: ${alert.title}*`;
+
+    return {
+      text: `${heading}\n${alert.message}`,
+      blocks: [
+        { type: 'section', text: { type: 'mrkdwn', text: `${heading}\n${alert.message}` } },
+        {
+          type: 'context',
+          elements: [{
+            type: 'mrkdwn',
+            text: `${alert.connector} · ${alert.source} · since ${alert.started_at}`
+          }]
+        }
+      ]
+    };
+  }
+}
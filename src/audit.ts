@@ -0,0 +1,95 @@
+/**
+ * Enforcement Audit
+ * Compares a recorded enforcement result with the same call enforced again, to see what rule changes did
+ */
+
+import { ChainStep, EnforcementChange, EnforcementResult } from './types';
+
+/**
+ * Diff a recorded result against a fresh one: outcome, enhanced parameters, pagination, chain and modifications
+ */
+export function diffEnforcement(recorded: EnforcementResult, current: EnforcementResult): EnforcementChange[] {
+  const changes: EnforcementChange[] = [];
+
+  if (recorded.outcome !== current.outcome) {
+    changes.push(changed('outcome', recorded.outcome, current.outcome, `Outcome changed from ${recorded.outcome} to ${current.outcome}`));
+  }
+  if (recorded.denied && current.denied && recorded.denied.code !== current.denied.code) {
+    changes.push(changed('denied.code', recorded.denied.code, current.denied.code,
+      `Denial changed from ${recorded.denied.code} to ${current.denied.code}: ${current.denied.message}`));
+  }
+  if (recorded.confirmation?.policy !== current.confirmation?.policy) {
+    changes.push(changeOf('confirmation.policy', recorded.confirmation?.policy, current.confirmation?.policy, 'Confirmation policy'));
+  }
+
+  if (recorded.enhanced.tool !== current.enhanced.tool) {
+    changes.push(changed('enhanced.tool', recorded.enhanced.tool, current.enhanced.tool,
+      `Tool changed from ${recorded.enhanced.tool} to ${current.enhanced.tool}`));
+  }
+  changes.push(...diffParams(recorded.enhanced.params || {}, current.enhanced.params || {}));
+
+  if (Boolean(recorded.enforce_pagination) !== Boolean(current.enforce_pagination)) {
+    changes.push(changed('enforce_pagination', Boolean(recorded.enforce_pagination), Boolean(current.enforce_pagination),
+      `Pagination enforcement ${current.enforce_pagination ? 'now enabled' : 'no longer enabled'}`));
+  }
+
+  const chainBefore = chainLabel(recorded.chain_operations);
+  const chainAfter = chainLabel(current.chain_operations);
+  if (chainBefore !== chainAfter) {
+    changes.push(changeOf('chain_operations', chainBefore, chainAfter, 'Chain'));
+  }
+
+  const before = new Set(recorded.modifications);
+  const after = new Set(current.modifications);
+  for (const modification of recorded.modifications) {
+    if (!after.has(modification)) {
+      changes.push({ path: 'modifications', kind: 'removed', before: modification, message: `No longer: ${modification}` });
+    }
+  }
+  for (const modification of current.modifications) {
+    if (!before.has(modification)) {
+      changes.push({ path: 'modifications', kind: 'added', after: modification, message: `Now: ${modification}` });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the enhanced call's parameters key by key
+ */
+function diffParams(before: Record<string, any>, after: Record<string, any>): EnforcementChange[] {
+  const changes: EnforcementChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (JSON.stringify(before[key]) === JSON.stringify(after[key])) continue;
+    changes.push(changeOf(`enhanced.params.${key}`, before[key], after[key], `Parameter ${key}`));
+  }
+  return changes;
+}
+
+/**
+ * A change to a value that may be missing on either side
+ */
+function changeOf(path: string, before: any, after: any, subject: string): EnforcementChange {
+  if (before === undefined) {
+    return { path, kind: 'added', after, message: `${subject} now set to ${format(after)}` };
+  }
+  if (after === undefined) {
+    return { path, kind: 'removed', before, message: `${subject} no longer set (was ${format(before)})` };
+  }
+  return changed(path, before, after, `${subject} changed from ${format(before)} to ${format(after)}`);
+}
+
+function changed(path: string, before: any, after: any, message: string): EnforcementChange {
+  return { path, kind: 'changed', before, after, message };
+}
+
+function chainLabel(chain?: ChainStep[]): string | undefined {
+  return chain && chain.length > 0 ? chain.map(step => step.tool).join(' → ') : undefined;
+}
+
+function format(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -0,0 +1,362 @@
+/**
+ * Awareness Brief
+ * Turns calibration, health and enforcement rules into a compact system-prompt brief for agents
+ */
+
+import { EventEmitter } from 'events';
+import { StateManager } from './state-manager';
+import { ConnectorRegistry, createDefaultRegistry } from './connectors/registry';
+import { RuleEngine } from './rule-engine';
+import { DEFAULT_DESTRUCTIVE_TOOLS } from './policy-engine';
+import { DEFAULT_CONFIG } from './config';
+import { logger } from './logging';
+import {
+  AwarenessBrief,
+  BriefConfig,
+  BriefConnector,
+  ChainTemplate,
+  Connector,
+  ConnectorHealth,
+  ConnectorStatus,
+  EnforcementConfig,
+  EnforcementRule,
+  GuardrailPolicy
+} from './types';
+
+const log = logger.child({ component: 'brief' });
+
+export type BriefFormat = 'markdown' | 'json';
+
+/** Scopes listed per connector before the budget forces them out entirely */
+const SCOPES_WHEN_TIGHT = 5;
+
+/**
+ * Emits 'brief' with a freshly generated brief whenever calibration or health state is saved (after start())
+ */
+export class AwarenessBriefGenerator extends EventEmitter {
+  private config: BriefConfig;
+  private enforcement: EnforcementConfig;
+  private stateManager: StateManager;
+  private registry: ConnectorRegistry;
+  private ruleEngine: RuleEngine;
+  private readonly onStateChange = () => {
+    this.generate()
+      .then(brief => this.emit('brief', brief))
+      .catch(error => log.error('Failed to regenerate awareness brief', { error }));
+  };
+
+  constructor(
+    config: BriefConfig = DEFAULT_CONFIG.brief,
+    enforcement: EnforcementConfig = DEFAULT_CONFIG.enforcement,
+    stateManager: StateManager = new StateManager(),
+    registry: ConnectorRegistry = createDefaultRegistry(),
+    ruleEngine: RuleEngine = new RuleEngine()
+  ) {
+    super();
+    this.config = config;
+    this.enforcement = enforcement;
+    this.stateManager = stateManager;
+    this.registry = registry;
+    this.ruleEngine = ruleEngine;
+  }
+
+  /**
+   * Regenerate the brief on every calibration and health update
+   */
+  start(): void {
+    this.stop();
+    this.stateManager.on('calibration', this.onStateChange);
+    this.stateManager.on('health', this.onStateChange);
+  }
+
+  stop(): void {
+    this.stateManager.off('calibration', this.onStateChange);
+    this.stateManager.off('health', this.onStateChange);
+  }
+
+  /**
+   * Build the brief from stored state and the current rules, at full detail
+   */
+  async generate(): Promise<AwarenessBrief> {
+    const [state, health, rules, templates, policy] = await Promise.all([
+      this.stateManager.load(),
+      this.stateManager.loadHealth(),
+      this.ruleEngine.all(),
+      this.ruleEngine.templates(),
+      this.ruleEngine.policy()
+    ]);
+
+    const connectors = this.registry.active().map(connector =>
+      describeConnector(connector, state?.connectors[connector.name], health?.connectors[connector.name])
+    );
+
+    return {
+      generated_at: new Date().toISOString(),
+      calibrated_at: state?.timestamp ?? null,
+      health_checked_at: health?.timestamp ?? null,
+      connectors,
+      rules: this.agentRules(connectors, rules, templates, policy)
+    };
+  }
+
+  /**
+   * Generate and render the brief within a token budget (config brief.max_tokens by default)
+   */
+  async render(format: BriefFormat = 'markdown', maxTokens: number = this.config.max_tokens): Promise<string> {
+    return renderBrief(await this.generate(), format, maxTokens);
+  }
+
+  /**
+   * Instructions derived from connector status, enforcement settings, rules, templates and guardrails, most important first
+   */
+  private agentRules(
+    connectors: BriefConnector[],
+    rules: EnforcementRule[],
+    templates: ChainTemplate[],
+    policy: GuardrailPolicy
+  ): string[] {
+    const agentRules = [
+      'Call enforce_tool_usage before every connector tool call and make the call with the `enhanced` arguments it returns. ' +
+        'Do not make denied calls, ask the user when `confirmation` is set, and wait `delay_ms` when given.'
+    ];
+
+    const down = connectors.filter(c => c.status === 'down').map(c => c.display_name);
+    if (down.length > 0) {
+      agentRules.push(`${list(down)} ${down.length === 1 ? 'is' : 'are'} unavailable: do not call ${down.length === 1 ? 'its' : 'their'} tools; tell the user instead.`);
+    }
+    const uncalibrated = connectors.filter(c => c.status === 'not_calibrated').map(c => c.display_name);
+    if (uncalibrated.length > 0) {
+      agentRules.push(`Run calibrate_connectors before using ${list(uncalibrated)}.`);
+    }
+
+    for (const rule of rules) {
+      if (rule.actions.block !== undefined) {
+        agentRules.push(`Never call ${globs(rule.match.tool)}: ${rule.actions.block}`);
+      }
+    }
+    if (policy.deny_tools?.length) {
+      agentRules.push(`Never call ${policy.deny_tools.join(', ')}.`);
+    }
+    if (policy.read_only?.length) {
+      agentRules.push(`${list(policy.read_only)} ${policy.read_only.length === 1 ? 'is' : 'are'} read-only: only get, list and search.`);
+    }
+    for (const [connector, scopes] of Object.entries(policy.write_scopes || {})) {
+      agentRules.push(`Only write to ${connector} in ${scopes.join(', ')}.`);
+    }
+    const destructive = (policy.destructive?.tools || DEFAULT_DESTRUCTIVE_TOOLS).join(', ');
+    agentRules.push(policy.destructive?.action === 'deny'
+      ? `Destructive operations (${destructive}) are refused.`
+      : `Destructive operations (${destructive}) need the user's explicit confirmation.`);
+    if (policy.confirm_tools?.length) {
+      agentRules.push(`Ask the user before calling ${policy.confirm_tools.join(', ')}.`);
+    }
+
+    if (this.enforcement.require_pagination_completion) {
+      const paginated = enabledBy(rules, actions => actions.paginate);
+      if (paginated.length > 0) {
+        agentRules.push(`Read every page of ${paginated.join(', ')}: when \`enforce_pagination\` is set, keep fetching until there is no next cursor; never answer from the first page.`);
+      }
+    }
+    const chained = enabledBy(rules, actions => actions.build_chain);
+    if (chained.length > 0) {
+      agentRules.push(`After ${chained.join(', ')}, run the returned \`chain_operations\` in order.`);
+    }
+    // Only templates whose every step has an active connector
+    const linking = templates
+      .filter(template => template.description && template.steps.every(step => this.registry.forTool(step.tool)))
+      .map(template => template.description);
+    if (linking.length > 0) {
+      agentRules.push(`${linking.join('. ')}. The \`chain_operations\` returned then span connectors; run all of them.`);
+    }
+
+    if (connectors.some(c => Object.keys(c.defaults).length > 0)) {
+      agentRules.push('Omit workspace, team and owner arguments to use the defaults above; name another scope to switch.');
+    }
+    if (this.enforcement.auto_resolve_ids) {
+      const params = [...new Set(this.registry.active().flatMap(c => (c.resolutionRules || []).map(r => r.param)))];
+      if (params.length > 0) {
+        agentRules.push(`Pass names (${params.join(', ')}) rather than looking up IDs; they are resolved automatically.`);
+      }
+    }
+
+    return agentRules;
+  }
+}
+
+/**
+ * Render a brief, dropping scope lists and then the least important rules until it fits maxTokens
+ */
+export function renderBrief(brief: AwarenessBrief, format: BriefFormat, maxTokens: number): string {
+  const render = (b: AwarenessBrief) => format === 'json' ? JSON.stringify(b) : toMarkdown(b);
+  const fits = (b: AwarenessBrief) => estimateTokens(render(b)) <= maxTokens;
+
+  let fitted = brief;
+  for (const limit of [SCOPES_WHEN_TIGHT, 0]) {
+    if (fits(fitted)) break;
+    fitted = limitScopes(fitted, limit);
+  }
+  while (!fits(fitted) && fitted.rules.length > 1) {
+    fitted = { ...fitted, rules: fitted.rules.slice(0, -1), truncated: true };
+  }
+
+  return render(fitted);
+}
+
+/**
+ * Rough token count for English text and JSON
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function describeConnector(connector: Connector, status?: ConnectorStatus, health?: ConnectorHealth): BriefConnector {
+  // A calibration newer than the last health check supersedes it
+  const checked = health && (!status?.last_verified || health.last_check >= status.last_verified) ? health : undefined;
+  const brief: BriefConnector = {
+    name: connector.name,
+    display_name: connector.displayName,
+    status: connectorStatus(status, checked),
+    defaults: {}
+  };
+
+  if (status?.status === 'authenticated') {
+    brief.identity = identity(status);
+    for (const rule of connector.identifierRules) {
+      const scoped = rule.resolve(status, {});
+      if (scoped?.value !== undefined && scoped.value !== null) {
+        brief.defaults[rule.param] = scopeLabel(status, scoped.value);
+      }
+    }
+    const scopes = otherScopes(status);
+    if (scopes.length > 0) brief.scopes = scopes;
+  }
+
+  const issue = status?.status === 'failed'
+    ? status.error
+    : checked?.status === 'failed' ? checked.error : warnings(checked);
+  if (issue) brief.issue = issue;
+  return brief;
+}
+
+function connectorStatus(status?: ConnectorStatus, health?: ConnectorHealth): BriefConnector['status'] {
+  if (!status || status.status === 'pending') return 'not_calibrated';
+  if (status.status === 'failed' || health?.status === 'failed' || health?.circuit === 'open') return 'down';
+  if (health?.status === 'warning') return 'degraded';
+  return 'ready';
+}
+
+function identity(status: ConnectorStatus): string | undefined {
+  const user = status.user;
+  if (user) {
+    const name = user.name || user.login;
+    const login = user.name && user.login ? ` (@${user.login})` : '';
+    const email = user.email ? ` <${user.email}>` : '';
+    return name || email ? `${name || ''}${login}${email}`.trim() : undefined;
+  }
+  return status.bot?.name ? `integration "${status.bot.name}"` : undefined;
+}
+
+/**
+ * An injected ID with the name of the scope it belongs to, e.g. "8f3c… (ENG)"
+ */
+function scopeLabel(status: ConnectorStatus, value: any): string {
+  const scope = [status.team, status.workspace, ...(status.teams || []), ...(status.workspaces || [])]
+    .find(s => s && (s.id === value || s.gid === value));
+  const name = scope && (scope.key || scope.name);
+  return name && name !== value ? `${value} (${name})` : String(value);
+}
+
+/**
+ * Reachable scopes other than the default one
+ */
+function otherScopes(status: ConnectorStatus): string[] {
+  const isDefault = (s: any) => s.default
+    || (status.team && s.id === status.team.id)
+    || (status.workspace && (s.gid ?? s.id) === (status.workspace.gid ?? status.workspace.id));
+  return [...(status.teams || []), ...(status.workspaces || []), ...(status.orgs || [])]
+    .filter(s => s && !isDefault(s))
+    .map(s => s.key && s.name ? `${s.name} (${s.key})` : String(s.name ?? s.login ?? s.key ?? s.id ?? s.gid));
+}
+
+function warnings(health?: ConnectorHealth): string | undefined {
+  const details = (health?.checks || [])
+    .filter(check => check.status !== 'pass')
+    .map(check => check.detail || check.name);
+  return details.length > 0 ? details.join('; ') : undefined;
+}
+
+/**
+ * Tool globs of rules that switch a behaviour on; a later rule switching it off removes earlier globs it repeats
+ */
+function enabledBy(rules: EnforcementRule[], flag: (actions: EnforcementRule['actions']) => boolean | undefined): string[] {
+  const enabled = new Set<string>();
+  for (const rule of rules) {
+    const value = flag(rule.actions);
+    if (value === undefined) continue;
+    for (const glob of [rule.match.tool].flat()) {
+      if (value) enabled.add(glob);
+      else enabled.delete(glob);
+    }
+  }
+  return [...enabled];
+}
+
+function limitScopes(brief: AwarenessBrief, limit: number): AwarenessBrief {
+  let truncated = brief.truncated;
+  const connectors = brief.connectors.map(connector => {
+    if (!connector.scopes || connector.scopes.length <= limit) return connector;
+    truncated = true;
+    const { scopes, ...rest } = connector;
+    return {
+      ...rest,
+      ...(limit > 0 ? { scopes: scopes.slice(0, limit) } : {}),
+      more_scopes: (connector.more_scopes ?? 0) + scopes.length - limit
+    };
+  });
+  return { ...brief, connectors, truncated };
+}
+
+function toMarkdown(brief: AwarenessBrief): string {
+  const lines = ['# Connector Awareness Brief', ''];
+
+  lines.push(brief.calibrated_at
+    ? `Calibrated ${brief.calibrated_at}` + (brief.health_checked_at ? ` · health checked ${brief.health_checked_at}` : '')
+    : 'Not calibrated yet.');
+  lines.push('', '## Connectors', '');
+
+  for (const connector of brief.connectors) {
+    const detail = connector.identity ? ` — ${connector.identity}` : '';
+    lines.push(`- **${connector.display_name}** (${connector.status.replace('_', ' ')})${detail}`);
+    if (connector.issue) {
+      lines.push(`  - Issue: ${connector.issue}`);
+    }
+    const defaults = Object.entries(connector.defaults).map(([param, value]) => `${param} = ${value}`);
+    if (defaults.length > 0) {
+      lines.push(`  - Defaults: ${defaults.join(', ')}`);
+    }
+    const more = connector.more_scopes ? `+${connector.more_scopes} more` : '';
+    const scopes = [...(connector.scopes || []), ...(more ? [more] : [])];
+    if (scopes.length > 0) {
+      lines.push(`  - Also available: ${scopes.join(', ')}`);
+    }
+  }
+  if (brief.connectors.length === 0) {
+    lines.push('No connectors are enabled.');
+  }
+
+  lines.push('', '## Rules', '');
+  brief.rules.forEach((rule, index) => lines.push(`${index + 1}. ${rule}`));
+
+  if (brief.truncated) {
+    lines.push('', '_Some scopes and rules were left out to keep this brief short._');
+  }
+  return lines.join('\n') + '\n';
+}
+
+function globs(tool: string | string[]): string {
+  return [tool].flat().join(', ');
+}
+
+function list(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+}
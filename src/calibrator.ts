@@ -3,255 +3,122 @@
  * Auto-discovers and maps user identity across all MCP platforms
  */
 
-import { AsanaClient } from './connectors/asana';
-import { LinearClient } from './connectors/linear';
-import { GitHubClient } from './connectors/github';
-import { NotionClient } from './connectors/notion';
-import { CalibrationState, ConnectorStatus } from './types';
+import { CalibrationConfig, CalibrationState, Connector } from './types';
 import { StateManager } from './state-manager';
+import { ConnectorRegistry, createDefaultRegistry } from './connectors/registry';
+import { diffCalibration } from './drift';
+import { DEFAULT_CONFIG } from './config';
+import { logger, withSpan } from './logging';
+
+const log = logger.child({ component: 'calibrator' });
 
 export class MCPCalibrator {
-  private asana: AsanaClient;
-  private linear: LinearClient;
-  private github: GitHubClient;
-  private notion: NotionClient;
+  private registry: ConnectorRegistry;
   private stateManager: StateManager;
+  private config: CalibrationConfig;
+
+  constructor(
+    config: CalibrationConfig = DEFAULT_CONFIG.calibration,
+    stateManager: StateManager = new StateManager(),
+    registry: ConnectorRegistry = createDefaultRegistry(undefined, config.default_scopes)
+  ) {
+    this.config = config;
+    this.registry = registry;
+    this.stateManager = stateManager;
+  }
 
-  constructor() {
-    this.asana = new AsanaClient();
-    this.linear = new LinearClient();
-    this.github = new GitHubClient();
-    this.notion = new NotionClient();
-    this.stateManager = new StateManager();
+  /**
+   * Calibrate if the stored state is missing or older than verify_interval_hours
+   */
+  async calibrateIfStale(): Promise<CalibrationState | null> {
+    if (!(await this.stateManager.needsRecalibration(this.config.verify_interval_hours))) {
+      return null;
+    }
+    return this.calibrate();
   }
 
   /**
-   * Run full calibration across all connectors
+   * Run calibration across all active connectors, or only the named ones
+   * (keeping the stored state of the rest)
    */
-  async calibrate(): Promise<CalibrationState> {
-    console.log('🔍 Starting MCP Connector Calibration...');
+  async calibrate(only?: string[]): Promise<CalibrationState> {
+    return withSpan('calibrate', { connectors: only?.join(',') }, () => this.runCalibration(only));
+  }
 
+  private async runCalibration(only?: string[]): Promise<CalibrationState> {
+    log.info('Starting calibration', { connectors: only });
+
+    const previous = await this.stateManager.load();
     const state: CalibrationState = {
       timestamp: new Date().toISOString(),
-      connectors: {}
+      connectors: only && previous ? { ...previous.connectors } : {}
     };
 
     // Calibrate each connector in parallel
-    const [asanaState, linearState, githubState, notionState] = await Promise.all([
-      this.calibrateAsana(),
-      this.calibrateLinear(),
-      this.calibrateGitHub(),
-      this.calibrateNotion()
-    ]);
+    const connectors = this.select(only);
+    const statuses = await Promise.all(connectors.map(c => c.calibrate()));
+
+    connectors.forEach((connector, i) => {
+      state.connectors[connector.name] = statuses[i];
+    });
 
-    state.connectors.asana = asanaState;
-    state.connectors.linear = linearState;
-    state.connectors.github = githubState;
-    state.connectors.notion = notionState;
+    // Record what changed since the last run alongside the new state
+    if (previous) {
+      state.drift = diffCalibration(previous, state);
+      this.logDrift(state);
+    }
 
     // Persist calibration state
     await this.stateManager.save(state);
 
-    console.log('✅ Calibration Complete');
+    const failed = Object.entries(state.connectors).filter(([, s]) => s.status === 'failed').map(([name]) => name);
+    log.info('Calibration complete', { connectors: connectors.map(c => c.name), failed });
     return state;
   }
 
-  /**
-   * Calibrate Asana connector
-   */
-  private async calibrateAsana(): Promise<ConnectorStatus> {
-    try {
-      console.log('  📋 Calibrating Asana...');
-      
-      const user = await this.asana.getCurrentUser();
-      const workspaces = await this.asana.listWorkspaces();
-
-      return {
-        status: 'authenticated',
-        user: {
-          name: user.name,
-          email: user.email,
-          gid: user.gid
-        },
-        workspace: workspaces[0] ? {
-          name: workspaces[0].name,
-          gid: workspaces[0].gid,
-          is_organization: workspaces[0].is_organization
-        } : null,
-        last_verified: new Date().toISOString()
-      };
-    } catch (error) {
-      console.error('  ❌ Asana calibration failed:', error);
-      return {
-        status: 'failed',
-        error: error.message,
-        last_verified: new Date().toISOString()
-      };
-    }
-  }
-
-  /**
-   * Calibrate Linear connector
-   */
-  private async calibrateLinear(): Promise<ConnectorStatus> {
-    try {
-      console.log('  📐 Calibrating Linear...');
-      
-      const user = await this.linear.getCurrentUser();
-      const teams = await this.linear.getTeams();
-
-      return {
-        status: 'authenticated',
-        user: {
-          name: user.name,
-          email: user.email,
-          id: user.id,
-          admin: user.admin
-        },
-        team: teams[0] ? {
-          name: teams[0].name,
-          key: teams[0].key,
-          id: teams[0].id
-        } : null,
-        last_verified: new Date().toISOString()
-      };
-    } catch (error) {
-      console.error('  ❌ Linear calibration failed:', error);
-      return {
-        status: 'failed',
-        error: error.message,
-        last_verified: new Date().toISOString()
-      };
-    }
-  }
-
-  /**
-   * Calibrate GitHub connector
-   */
-  private async calibrateGitHub(): Promise<ConnectorStatus> {
-    try {
-      console.log('  🐙 Calibrating GitHub...');
-      
-      const user = await this.github.getAuthenticatedUser();
-      const repos = await this.github.listRepositories();
-
-      return {
-        status: 'authenticated',
-        user: {
-          login: user.login,
-          email: user.email,
-          id: user.id,
-          repos: user.public_repos + user.total_private_repos
-        },
-        stats: {
-          public_repos: user.public_repos,
-          private_repos: user.total_private_repos
-        },
-        last_verified: new Date().toISOString()
-      };
-    } catch (error) {
-      console.error('  ❌ GitHub calibration failed:', error);
-      return {
-        status: 'failed',
-        error: error.message,
-        last_verified: new Date().toISOString()
-      };
-    }
-  }
-
-  /**
-   * Calibrate Notion connector
-   */
-  private async calibrateNotion(): Promise<ConnectorStatus> {
-    try {
-      console.log('  📓 Calibrating Notion...');
-      
-      const bot = await this.notion.getBotUser();
-      const workspace = bot.bot.workspace_name;
-      const workspaceId = bot.bot.workspace_id;
-
-      return {
-        status: 'authenticated',
-        workspace: {
-          name: workspace,
-          id: workspaceId,
-          owner: bot.bot.owner.user.person.email,
-          plan: bot.bot.workspace_limits ? 'Plus+AI' : 'Basic'
-        },
-        bot: {
-          id: bot.id,
-          name: bot.name
-        },
-        last_verified: new Date().toISOString()
-      };
-    } catch (error) {
-      console.error('  ❌ Notion calibration failed:', error);
-      return {
-        status: 'failed',
-        error: error.message,
-        last_verified: new Date().toISOString()
-      };
-    }
-  }
-
   /**
    * Verify existing calibration is still valid
    */
-  async verify(): Promise<boolean> {
-    console.log('🔍 Verifying calibration state...');
-    
+  async verify(only?: string[]): Promise<boolean> {
+    log.info('Verifying calibration state', { connectors: only });
+
     const state = await this.stateManager.load();
     if (!state) {
-      console.log('⚠️  No calibration state found');
+      log.warn('No calibration state found');
       return false;
     }
 
-    const verifications = await Promise.all([
-      this.verifyAsana(),
-      this.verifyLinear(),
-      this.verifyGitHub(),
-      this.verifyNotion()
-    ]);
+    const connectors = this.select(only);
+    const verifications = await Promise.all(connectors.map(c => c.verify()));
 
     const allValid = verifications.every(v => v);
-    console.log(allValid ? '✅ All connectors verified' : '❌ Some connectors failed verification');
-    
-    return allValid;
-  }
-
-  private async verifyAsana(): Promise<boolean> {
-    try {
-      await this.asana.getCurrentUser();
-      return true;
-    } catch {
-      return false;
+    if (allValid) {
+      log.info('All connectors verified');
+    } else {
+      log.warn('Some connectors failed verification', { failed: connectors.filter((_, i) => !verifications[i]).map(c => c.name) });
     }
-  }
 
-  private async verifyLinear(): Promise<boolean> {
-    try {
-      await this.linear.getCurrentUser();
-      return true;
-    } catch {
-      return false;
-    }
+    return allValid;
   }
 
-  private async verifyGitHub(): Promise<boolean> {
-    try {
-      await this.github.getAuthenticatedUser();
-      return true;
-    } catch {
-      return false;
-    }
+  private select(only?: string[]): Connector[] {
+    const active = this.registry.active();
+    return only ? active.filter(c => only.includes(c.name)) : active;
   }
 
-  private async verifyNotion(): Promise<boolean> {
-    try {
-      await this.notion.getBotUser();
-      return true;
-    } catch {
-      return false;
+  private logDrift(state: CalibrationState): void {
+    const changes = state.drift?.changes || [];
+    if (changes.length === 0) return;
+
+    for (const change of changes) {
+      const level = change.severity === 'critical' ? 'error' : change.severity === 'warning' ? 'warn' : 'info';
+      log[level]('Calibration drift', {
+        connector: change.connector,
+        path: change.path,
+        severity: change.severity,
+        change: change.message,
+        since: state.drift!.from
+      });
     }
   }
 }
@@ -0,0 +1,125 @@
+/**
+ * Chain Executor
+ * Runs operation chains in order and rolls back on failure
+ */
+
+import { ChainExecutionResult, ChainStep, ChainStepResult, ToolExecutor } from './types';
+import { logger, withSpan } from './logging';
+
+const log = logger.child({ component: 'chain' });
+
+export class ChainExecutor {
+  constructor(private execute: ToolExecutor, private maxDepth: number = 5) {}
+
+  /**
+   * Run each step, threading outputs into later steps; on failure, run
+   * compensations for completed steps in reverse order
+   */
+  async run(chain: ChainStep[]): Promise<ChainExecutionResult> {
+    const steps: ChainStepResult[] = chain.map((step, index) => ({
+      index,
+      tool: step.tool,
+      status: 'skipped'
+    }));
+
+    if (chain.length > this.maxDepth) {
+      return {
+        success: false,
+        steps,
+        error: `Chain has ${chain.length} steps, exceeding max depth ${this.maxDepth}`
+      };
+    }
+
+    const outputs: any[] = [];
+
+    for (let i = 0; i < chain.length; i++) {
+      log.info('Running chain step', { step: i + 1, of: chain.length, tool: chain[i].tool });
+      try {
+        const params = resolveReferences(chain[i].params, outputs);
+        outputs[i] = await withSpan('chain.step', { step: i + 1, tool: chain[i].tool }, () => this.execute({ tool: chain[i].tool, params }));
+        steps[i].status = 'succeeded';
+        steps[i].output = outputs[i];
+      } catch (error) {
+        steps[i].status = 'failed';
+        steps[i].error = (error as Error).message;
+        log.error('Chain step failed', { step: i + 1, tool: chain[i].tool, error });
+
+        await this.rollback(chain, steps, outputs, i);
+        return { success: false, steps, failed_step: i, error: steps[i].error };
+      }
+    }
+
+    return { success: true, steps };
+  }
+
+  /**
+   * Undo completed steps before the failed one, newest first
+   */
+  private async rollback(
+    chain: ChainStep[],
+    steps: ChainStepResult[],
+    outputs: any[],
+    failedIndex: number
+  ): Promise<void> {
+    for (let i = failedIndex - 1; i >= 0; i--) {
+      const compensate = chain[i].compensate;
+      if (!compensate) continue;
+
+      log.info('Compensating chain step', { step: i + 1, tool: compensate.tool });
+      try {
+        const params = resolveReferences(compensate.params, outputs, outputs[i]);
+        await withSpan('chain.compensate', { step: i + 1, tool: compensate.tool }, () => this.execute({ tool: compensate.tool, params }));
+        steps[i].status = 'compensated';
+      } catch (error) {
+        steps[i].status = 'compensation_failed';
+        steps[i].error = (error as Error).message;
+        log.error('Compensation failed', { step: i + 1, tool: compensate.tool, error });
+      }
+    }
+  }
+}
+
+/**
+ * Replace '$steps.N.path' and '$self.path' strings with values from step outputs,
+ * and '{{steps.N.path}}' / '{{self.path}}' inside text with their string form
+ */
+export function resolveReferences(value: any, outputs: any[], self?: any): any {
+  if (typeof value === 'string') {
+    const resolve = (reference: string, stepIndex: string | undefined, path: string) => {
+      const source = stepIndex === undefined ? self : outputs[Number(stepIndex)];
+      const resolved = lookup(source, path);
+      if (resolved === undefined) {
+        throw new Error(`Unresolved reference ${reference}`);
+      }
+      return resolved;
+    };
+
+    const match = value.match(/^\$(?:steps\.(\d+)|self)\.(.+)$/);
+    if (match) return resolve(value, match[1], match[2]);
+
+    return value.replace(/\{\{\s*(?:steps\.(\d+)|self)\.([^\s}]+)\s*\}\}/g,
+      (reference, stepIndex, path) => String(resolve(reference, stepIndex, path)));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => resolveReferences(item, outputs, self));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveReferences(item, outputs, self)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Read a dotted path, unwrapping a { data } envelope when the path is missing
+ */
+function lookup(source: any, path: string): any {
+  const read = (root: any) => path.split('.').reduce((node, key) => node?.[key], root);
+  const direct = read(source);
+  return direct !== undefined ? direct : read(source?.data);
+}
+
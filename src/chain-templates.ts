@@ -0,0 +1,110 @@
+/**
+ * Chain Templates
+ * Turns declared cross-connector templates into chain steps for a matched call
+ */
+
+import { CalibrationState, ChainStep, ChainTemplate, ToolCall } from './types';
+import { readPath } from './rule-engine';
+
+/** Whole-value reference: $params.title, $match.github_pr.number|number */
+const VALUE_REFERENCE = /^\$(params|match|state)\.([\w.-]+?)(\|number)?$/;
+/** Reference inside text: {{params.title}} */
+const TEXT_REFERENCE = /\{\{\s*(params|match|state)\.([\w.-]+?)\s*\}\}/g;
+/** Step references, in either form, as written inside a template */
+const STEP_REFERENCE = /(\$steps\.|\{\{\s*steps\.)(\d+)/g;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * Named groups captured by the template's `matches` param predicates, keyed by param
+ */
+export function templateCaptures(template: ChainTemplate, toolCall: ToolCall): Record<string, Record<string, string>> {
+  const captures: Record<string, Record<string, string>> = {};
+
+  for (const [param, predicate] of Object.entries(template.match.params || {})) {
+    if (!predicate || typeof predicate !== 'object' || !predicate.matches) continue;
+    const value = toolCall.params?.[param];
+    const groups = typeof value === 'string' ? new RegExp(predicate.matches).exec(value)?.groups : undefined;
+    if (groups) captures[param] = { ...groups };
+  }
+  return captures;
+}
+
+/**
+ * Fill a template's $params, $match and $state references from the call; $steps references are
+ * left for the chain executor. Throws a TemplateError when a whole-value reference is missing.
+ */
+export function instantiateTemplate(
+  template: ChainTemplate,
+  toolCall: ToolCall,
+  state: CalibrationState | null
+): ChainStep[] {
+  const sources: Record<string, any> = {
+    params: toolCall.params,
+    match: templateCaptures(template, toolCall),
+    state
+  };
+
+  const fill = (value: any): any => {
+    if (typeof value === 'string') {
+      const whole = value.match(VALUE_REFERENCE);
+      if (whole) {
+        const resolved = readPath(sources[whole[1]], whole[2]);
+        if (resolved === undefined || resolved === null) {
+          throw new TemplateError(`${value.replace(/\|number$/, '')} is not available`);
+        }
+        if (!whole[3]) return resolved;
+        const number = Number(resolved);
+        if (Number.isNaN(number)) throw new TemplateError(`${whole[1]}.${whole[2]} is not a number`);
+        return number;
+      }
+      return value.replace(TEXT_REFERENCE, (_text, source, path) => {
+        const resolved = readPath(sources[source], path);
+        return resolved === undefined || resolved === null ? '' : String(resolved);
+      });
+    }
+    if (Array.isArray(value)) return value.map(fill);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item)]));
+    }
+    return value;
+  };
+
+  return template.steps.map(step => ({
+    tool: step.tool,
+    params: fill(step.params || {}),
+    ...(step.compensate ? { compensate: { tool: step.compensate.tool, params: fill(step.compensate.params || {}) } } : {})
+  }));
+}
+
+/**
+ * Renumber step references for steps appended at offset: in a template, step 0 is the
+ * matched call (always first in the chain) and step N is the template's own N-th step
+ */
+export function rebaseSteps(steps: ChainStep[], offset: number): ChainStep[] {
+  const rebase = (value: any): any => {
+    if (typeof value === 'string') {
+      return value.replace(STEP_REFERENCE, (_text, prefix, index) =>
+        `${prefix}${Number(index) === 0 ? 0 : Number(index) - 1 + offset}`);
+    }
+    if (Array.isArray(value)) return value.map(rebase);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, rebase(item)]));
+    }
+    return value;
+  };
+
+  return steps.map(step => rebase(step));
+}
+
+/**
+ * Tools a template calls, for messages: "linear_create_attachment → github_add_issue_comment"
+ */
+export function templateLabel(template: ChainTemplate): string {
+  return template.steps.map(step => step.tool).join(' → ');
+}
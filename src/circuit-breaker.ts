@@ -0,0 +1,103 @@
+/**
+ * Circuit Breaker
+ * Tracks consecutive failures per connector so calls to a down connector fail fast
+ */
+
+import { CircuitState } from './types';
+import { logger } from './logging';
+
+export interface CircuitSnapshot {
+  connector: string;
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at?: string;
+  /** When an open circuit lets a trial call through */
+  retry_at?: string;
+  last_error?: string;
+}
+
+export class CircuitBreaker {
+  private circuits = new Map<string, CircuitSnapshot>();
+
+  /**
+   * @param failureThreshold Consecutive failures that open the circuit
+   * @param cooldownMs How long an open circuit rejects calls before going half-open
+   */
+  constructor(private failureThreshold: number = 3, private cooldownMs: number = 5 * 60 * 1000) {}
+
+  /**
+   * A successful call or probe closes the circuit
+   */
+  recordSuccess(connector: string): CircuitSnapshot {
+    const circuit = this.snapshot(connector);
+    circuit.state = 'closed';
+    circuit.consecutive_failures = 0;
+    delete circuit.opened_at;
+    delete circuit.retry_at;
+    delete circuit.last_error;
+    return circuit;
+  }
+
+  /**
+   * Count a failure, opening the circuit at the threshold or re-opening a half-open one
+   */
+  recordFailure(connector: string, error?: string): CircuitSnapshot {
+    const circuit = this.snapshot(connector);
+    circuit.consecutive_failures++;
+    circuit.last_error = error;
+
+    const state = this.state(connector);
+    if (state === 'half_open' || circuit.consecutive_failures >= this.failureThreshold) {
+      if (state !== 'open') {
+        logger.warn('Circuit opened', { connector, consecutive_failures: circuit.consecutive_failures, last_error: error });
+      }
+      const now = Date.now();
+      circuit.state = 'open';
+      circuit.opened_at = new Date(now).toISOString();
+      circuit.retry_at = new Date(now + this.cooldownMs).toISOString();
+    }
+    return circuit;
+  }
+
+  /**
+   * Current state; an open circuit becomes half-open once its cooldown has passed
+   */
+  state(connector: string): CircuitState {
+    const circuit = this.circuits.get(connector);
+    if (!circuit) return 'closed';
+    if (circuit.state === 'open' && circuit.retry_at && Date.parse(circuit.retry_at) <= Date.now()) {
+      circuit.state = 'half_open';
+    }
+    return circuit.state;
+  }
+
+  /**
+   * Whether calls to the connector should go ahead
+   */
+  allow(connector: string): boolean {
+    return this.state(connector) !== 'open';
+  }
+
+  get(connector: string): CircuitSnapshot | undefined {
+    if (this.circuits.has(connector)) this.state(connector);
+    return this.circuits.get(connector);
+  }
+
+  all(): CircuitSnapshot[] {
+    return [...this.circuits.keys()].map(connector => this.get(connector)!);
+  }
+
+  private snapshot(connector: string): CircuitSnapshot {
+    let circuit = this.circuits.get(connector);
+    if (!circuit) {
+      circuit = { connector, state: 'closed', consecutive_failures: 0 };
+      this.circuits.set(connector, circuit);
+    }
+    return circuit;
+  }
+}
+
+/**
+ * Default breaker shared by the health monitor and the enforcer when none is injected
+ */
+export const circuitBreaker = new CircuitBreaker();
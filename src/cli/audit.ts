@@ -0,0 +1,58 @@
+/**
+ * audit: list recorded enforcement results
+ */
+
+import { StateManager } from '../state-manager';
+import { AuditEntry } from '../types';
+import { CliOptions, Command, EXIT_OK, printJSON, runCli } from './common';
+
+export const usage = `Usage: audit [--tool <name>] [--connector <name>[,<name>]] [--outcome <outcome>] [--since <time>] [--until <time>] [--limit <n>] [--json]
+
+Show recorded enforce_tool_usage results, newest first (default 20).
+Times are ISO 8601 dates or durations before now, e.g. --since 24h.`;
+
+const icons = { allowed: '✅', denied: '❌', confirmation_required: '⚠️ ' };
+
+export const auditCommand: Command = async ({ stateManager }, options) => {
+  const entries = await findAuditEntries(stateManager, options, 20);
+
+  if (options.json) {
+    printJSON(entries);
+    return EXIT_OK;
+  }
+
+  if (entries.length === 0) {
+    console.log('No enforcement audit entries recorded');
+  }
+  for (const entry of entries) {
+    console.log(`${entry.timestamp}  ${entry.id}  ${icons[entry.outcome]} ${entry.tool}  ${entry.duration_ms}ms`);
+    for (const modification of entry.result.modifications) {
+      console.log(`    ${modification}`);
+    }
+  }
+  return EXIT_OK;
+};
+
+/**
+ * Audit entries selected by --tool, --connector, --outcome, --since, --until and --limit
+ */
+export async function findAuditEntries(
+  stateManager: StateManager,
+  options: CliOptions,
+  defaultLimit: number
+): Promise<AuditEntry[]> {
+  const limit = options.limit ?? defaultLimit;
+  const connectors = options.connectors;
+  const query = { tool: options.tool, outcome: options.outcome, since: options.since, until: options.until };
+
+  // The storage query takes one connector; with several, filter the full range here
+  if (!connectors || connectors.length === 1) {
+    return stateManager.auditLog({ ...query, connector: connectors?.[0], limit });
+  }
+  const entries = await stateManager.auditLog(query);
+  return entries.filter(entry => entry.connector && connectors.includes(entry.connector)).slice(0, limit);
+}
+
+if (require.main === module) {
+  runCli(auditCommand, process.argv.slice(2), usage);
+}
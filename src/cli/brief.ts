@@ -0,0 +1,20 @@
+/**
+ * brief: print the agent awareness brief for a system prompt
+ */
+
+import { Command, EXIT_OK, runCli } from './common';
+
+export const usage = `Usage: brief [--json]
+
+Print the awareness brief built from stored calibration, health and enforcement rules,
+as Markdown (or compact JSON), within BRIEF_MAX_TOKENS.`;
+
+export const briefCommand: Command = async ({ brief }, options) => {
+  const text = await brief.render(options.json ? 'json' : 'markdown');
+  process.stdout.write(options.json ? text + '\n' : text);
+  return EXIT_OK;
+};
+
+if (require.main === module) {
+  runCli(briefCommand, process.argv.slice(2), usage);
+}
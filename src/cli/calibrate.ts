@@ -0,0 +1,34 @@
+/**
+ * calibrate: discover identities and scopes and save the calibration state
+ */
+
+import { Command, EXIT_FAILED, EXIT_OK, pick, printJSON, runCli, statusIcon } from './common';
+
+export const usage = `Usage: calibrate [--connector <name>[,<name>]] [--json]
+
+Calibrate active connectors (or only those given), save the state and rebuild the identity graph.
+Exits 1 if any calibrated connector failed.`;
+
+export const calibrateCommand: Command = async ({ calibrator, identities }, options) => {
+  const state = await calibrator.calibrate(options.connectors);
+  // The server rebuilds the identity graph on every calibration; a one-off run does it here
+  await identities?.rebuild(state).catch(error => console.error(`⚠️  Identity graph not rebuilt: ${error.message}`));
+  const connectors = pick(state.connectors, options.connectors);
+
+  if (options.json) {
+    printJSON({ ...state, connectors });
+  } else {
+    for (const [name, status] of Object.entries(connectors)) {
+      console.log(`${statusIcon(status.status)} ${name}: ${status.status}${status.error ? ` — ${status.error}` : ''}`);
+    }
+    for (const change of state.drift?.changes || []) {
+      console.log(`  ${change.severity}: ${change.message}`);
+    }
+  }
+
+  return Object.values(connectors).some(status => status.status === 'failed') ? EXIT_FAILED : EXIT_OK;
+};
+
+if (require.main === module) {
+  runCli(calibrateCommand, process.argv.slice(2), usage);
+}
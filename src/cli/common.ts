@@ -0,0 +1,217 @@
+/**
+ * CLI Support
+ * Argument parsing, engine wiring and output helpers shared by the commands
+ */
+
+import 'dotenv/config';
+import { Engine, createEngine } from '../engine';
+import { ConfigError, loadConfig } from '../config';
+import { VaultError, installLogRedaction } from '../credentials';
+import { configureLogging, shutdownTracing } from '../logging';
+import { EnforcementResult } from '../types';
+
+const OUTCOMES: EnforcementResult['outcome'][] = ['allowed', 'denied', 'confirmation_required'];
+
+export interface CliOptions {
+  /** Only act on these connectors */
+  connectors?: string[];
+  json: boolean;
+  /** Seconds between checks in watch mode */
+  interval: number;
+  /** Number of drift reports or audit entries to show; each command has its own default */
+  limit?: number;
+  /** Only audit entries for this tool or with this outcome */
+  tool?: string;
+  outcome?: EnforcementResult['outcome'];
+  /** Audit time range */
+  since?: Date;
+  until?: Date;
+  help: boolean;
+  /** Positional arguments, for commands that take them */
+  args: string[];
+}
+
+export type Command = (engine: Engine, options: CliOptions) => Promise<number>;
+
+/** Exit codes: success, a connector failed, bad invocation */
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+export class UsageError extends Error {}
+
+export function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { json: false, interval: 60, help: false, args: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inline] = arg.startsWith('--') ? arg.split(/=(.*)/s, 2) : [arg, undefined];
+    const value = (): string => {
+      const next = inline ?? argv[++i];
+      if (next === undefined || next.startsWith('--')) throw new UsageError(`${flag} needs a value`);
+      return next;
+    };
+
+    switch (flag) {
+      case '--connector':
+      case '-c':
+        options.connectors = [
+          ...(options.connectors || []),
+          ...value().split(',').map(name => name.trim()).filter(Boolean)
+        ];
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--interval':
+        options.interval = positiveNumber(flag, value());
+        break;
+      case '--limit':
+        options.limit = positiveNumber(flag, value());
+        break;
+      case '--tool':
+        options.tool = value();
+        break;
+      case '--outcome': {
+        const outcome = value() as EnforcementResult['outcome'];
+        if (!OUTCOMES.includes(outcome)) throw new UsageError(`--outcome must be one of: ${OUTCOMES.join(', ')}`);
+        options.outcome = outcome;
+        break;
+      }
+      case '--since':
+        options.since = time(flag, value());
+        break;
+      case '--until':
+        options.until = time(flag, value());
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option: ${arg}`);
+        options.args.push(arg);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Build the engine the way the server does, checking --connector names against the registry
+ */
+export function createCliEngine(options: CliOptions): Engine {
+  const config = loadConfig();
+  configureLogging(config.logging);
+  // One-off commands would re-fire alerts on every run; the long-running server owns alerting
+  const engine = createEngine({ ...config, health: { ...config.health, alert_on_failure: false } });
+
+  for (const name of options.connectors || []) {
+    if (!engine.registry.get(name)) {
+      throw new UsageError(`Unknown connector: ${name}`);
+    }
+    if (!engine.registry.isActive(name)) {
+      throw new UsageError(`Connector ${name} is not enabled in CONNECTORS`);
+    }
+  }
+
+  return engine;
+}
+
+/**
+ * Parse arguments, run a command and set the process exit code
+ * @param acceptsArgs Whether the command takes positional arguments
+ */
+export async function runCli(
+  command: Command,
+  argv: string[] = process.argv.slice(2),
+  usage: string = '',
+  acceptsArgs: boolean = false
+): Promise<void> {
+  let engine: Engine | null = null;
+  installLogRedaction();
+  try {
+    const options = parseArgs(argv);
+    if (options.help) {
+      console.log(usage);
+      return;
+    }
+    if (!acceptsArgs && options.args.length > 0) {
+      throw new UsageError(`Unexpected argument: ${options.args[0]}`);
+    }
+
+    // Keep stdout clean for machine-readable output; engine progress goes to stderr
+    if (options.json) {
+      console.log = console.error;
+      console.info = console.error;
+      console.warn = console.error;
+    }
+
+    engine = createCliEngine(options);
+    process.exitCode = await command(engine, options);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${usage}`);
+      process.exitCode = EXIT_USAGE;
+    } else if (error instanceof ConfigError || error instanceof VaultError) {
+      console.error(error.message);
+      process.exitCode = EXIT_USAGE;
+    } else {
+      console.error('❌', (error as Error).message);
+      process.exitCode = EXIT_FAILED;
+    }
+  } finally {
+    await engine?.stateManager.close();
+    await shutdownTracing();
+  }
+}
+
+export function printJSON(data: any): void {
+  process.stdout.write(JSON.stringify(data, null, 2) + '\n');
+}
+
+export function statusIcon(status: string): string {
+  if (status === 'authenticated' || status === 'healthy') return '✅';
+  if (status === 'warning' || status === 'pending') return '⚠️ ';
+  return '❌';
+}
+
+export function formatAge(hours: number | null): string {
+  if (hours === null) return 'never';
+  if (hours < 1) return `${Math.round(hours * 60)}m ago`;
+  if (hours < 48) return `${hours.toFixed(1)}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
+
+/**
+ * Keep only the entries of a connector map selected by --connector
+ */
+export function pick<T>(connectors: Record<string, T>, only?: string[]): Record<string, T> {
+  if (!only) return connectors;
+  return Object.fromEntries(Object.entries(connectors).filter(([name]) => only.includes(name)));
+}
+
+function positiveNumber(flag: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new UsageError(`${flag} must be a positive number`);
+  }
+  return number;
+}
+
+/**
+ * An ISO 8601 date, or a duration before now such as 30m, 24h or 7d
+ */
+function time(flag: string, value: string): Date {
+  const relative = /^(\d+(?:\.\d+)?)([mhd])$/.exec(value);
+  if (relative) {
+    const unitMs = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[relative[2] as 'm' | 'h' | 'd'];
+    return new Date(Date.now() - Number(relative[1]) * unitMs);
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new UsageError(`${flag} must be an ISO 8601 date or a duration like 24h or 7d`);
+  }
+  return date;
+}
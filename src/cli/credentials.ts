@@ -0,0 +1,96 @@
+/**
+ * credentials: manage the encrypted credential vault
+ */
+
+import { Engine } from '../engine';
+import { CredentialVault, credentialsFor } from '../credentials';
+import { Command, EXIT_FAILED, EXIT_OK, UsageError, printJSON, runCli } from './common';
+
+export const usage = `Usage: credentials list [<connector>] [--json]
+       credentials add <connector> <label>
+       credentials remove <connector> <label>
+
+Stored tokens are tried newest first, then the token from the environment.
+To rotate, add the new token; older ones stay as fallbacks until removed:
+  echo "$NEW_TOKEN" | mcp-awareness credentials add github pat-2026-10
+
+add reads the token from stdin so it never appears in the process list or shell history.
+Needs CREDENTIAL_VAULT_KEY or CREDENTIAL_VAULT_KEY_FILE.`;
+
+export const credentialsCommand: Command = async (engine, options) => {
+  const [action, connector, label, ...extra] = options.args;
+  if (extra.length > 0) throw new UsageError(`Unexpected argument: ${extra[0]}`);
+  if (connector && !engine.registry.get(connector)) throw new UsageError(`Unknown connector: ${connector}`);
+
+  switch (action) {
+    case 'list':
+      if (label) throw new UsageError(`Unexpected argument: ${label}`);
+      return list(engine, connector ? [connector] : options.connectors, options.json);
+    case 'add': {
+      if (!connector || !label) throw new UsageError('add needs a connector and a label');
+      const vault = requireVault(engine);
+      vault.add(connector, label, await readStdin());
+      console.log(`🔑 Stored ${connector} credential "${label}"; it will be tried first from the next calibration`);
+      return EXIT_OK;
+    }
+    case 'remove': {
+      if (!connector || !label) throw new UsageError('remove needs a connector and a label');
+      if (!requireVault(engine).remove(connector, label)) {
+        console.error(`❌ No ${connector} credential labelled "${label}"`);
+        return EXIT_FAILED;
+      }
+      console.log(`🗑️  Removed ${connector} credential "${label}"`);
+      return EXIT_OK;
+    }
+    default:
+      throw new UsageError(action ? `Unknown action: ${action}` : 'Missing action');
+  }
+};
+
+/**
+ * Labels only, marking the credential the last calibration was accepted with
+ */
+async function list(engine: Engine, only: string[] | undefined, json: boolean): Promise<number> {
+  const state = await engine.stateManager.load();
+  const names = only || engine.registry.active().map(c => c.name);
+  const rows = names.flatMap(name => credentialsFor(name, engine.vault).map(credential => ({
+    connector: name,
+    label: credential.label,
+    added_at: credential.added_at ?? null,
+    active: state?.connectors[name]?.credential === credential.label
+  })));
+
+  if (json) {
+    printJSON(rows);
+  } else if (rows.length === 0) {
+    console.log('No credentials stored or set in the environment');
+  } else {
+    for (const row of rows) {
+      const added = row.added_at ? `added ${row.added_at}` : 'from environment';
+      console.log(`  ${row.active ? '✅' : '  '} ${row.connector.padEnd(8)} ${row.label.padEnd(20)} ${added}`);
+    }
+  }
+  return EXIT_OK;
+}
+
+function requireVault(engine: Engine): CredentialVault {
+  if (!engine.vault) {
+    throw new UsageError('The credential vault needs CREDENTIAL_VAULT_KEY or CREDENTIAL_VAULT_KEY_FILE');
+  }
+  return engine.vault;
+}
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    throw new UsageError('Pipe the token on stdin');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8').trim();
+}
+
+if (require.main === module) {
+  runCli(credentialsCommand, process.argv.slice(2), usage, true);
+}
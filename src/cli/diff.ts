@@ -0,0 +1,42 @@
+/**
+ * diff: show identity and scope drift recorded between calibrations
+ */
+
+import { Command, EXIT_OK, printJSON, runCli } from './common';
+
+export const usage = `Usage: diff [--connector <name>[,<name>]] [--limit <n>] [--json]
+
+Show the most recent calibration drift reports (default 1).`;
+
+const icons = { critical: '❌', warning: '⚠️ ', info: 'ℹ️ ' };
+
+export const diffCommand: Command = async ({ stateManager }, options) => {
+  const limit = options.limit ?? 1;
+  const reports = (await stateManager.driftHistory({ limit: limit * 10 }))
+    .map(drift => ({
+      ...drift,
+      changes: drift.changes.filter(change => !options.connectors || options.connectors.includes(change.connector))
+    }))
+    .filter(drift => drift.changes.length > 0)
+    .slice(0, limit);
+
+  if (options.json) {
+    printJSON(reports);
+    return EXIT_OK;
+  }
+
+  if (reports.length === 0) {
+    console.log('No calibration drift recorded');
+  }
+  for (const drift of reports) {
+    console.log(`Drift ${drift.from} → ${drift.to}`);
+    for (const change of drift.changes) {
+      console.log(`  ${icons[change.severity]} ${change.message}`);
+    }
+  }
+  return EXIT_OK;
+};
+
+if (require.main === module) {
+  runCli(diffCommand, process.argv.slice(2), usage);
+}
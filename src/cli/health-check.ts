@@ -0,0 +1,26 @@
+/**
+ * health-check: probe connectors once and save the result
+ */
+
+import { Command, EXIT_FAILED, EXIT_OK, pick, printJSON, runCli } from './common';
+
+export const usage = `Usage: health-check [--connector <name>[,<name>]] [--json]
+
+Run one health check across active connectors (or only those given).
+Exits 1 if any checked connector failed; warnings exit 0.`;
+
+export const healthCheckCommand: Command = async ({ healthMonitor }, options) => {
+  // The monitor logs a per-connector summary itself
+  const health = await healthMonitor.runHealthCheck(options.connectors);
+  const connectors = pick(health.connectors, options.connectors);
+
+  if (options.json) {
+    printJSON({ ...health, connectors });
+  }
+
+  return Object.values(connectors).some(status => status.status === 'failed') ? EXIT_FAILED : EXIT_OK;
+};
+
+if (require.main === module) {
+  runCli(healthCheckCommand, process.argv.slice(2), usage);
+}
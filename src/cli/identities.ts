@@ -0,0 +1,85 @@
+/**
+ * identities: show and rebuild the cross-connector identity graph
+ */
+
+import { IdentityGraph } from '../identity';
+import { Person } from '../types';
+import { Command, EXIT_FAILED, EXIT_OK, UsageError, printJSON, runCli } from './common';
+
+export const usage = `Usage: identities [list] [--connector <name>] [--json]
+       identities find <name|email|handle|id|me> [--connector <name>] [--json]
+       identities rebuild [--json]
+
+People linked across connectors by email, handle and name. rebuild lists workspace members
+on every connector now instead of waiting for the next calibration. Manual links go in
+IDENTITY_OVERRIDES_PATH (default ./identities.yaml):
+  people:
+    alice:
+      name: Alice Smith
+      accounts: { github: asmith, linear: alice@example.com }`;
+
+export const identitiesCommand: Command = async ({ identities }, options) => {
+  const [action = 'list', ...rest] = options.args;
+  if (!identities) {
+    throw new UsageError('The identity graph is disabled (IDENTITY_GRAPH=false)');
+  }
+
+  switch (action) {
+    case 'list':
+    case 'rebuild': {
+      if (rest.length > 0) throw new UsageError(`Unexpected argument: ${rest[0]}`);
+      const graph = action === 'rebuild' ? await identities.rebuild() : await identities.graph();
+      if (!graph) {
+        console.error('❌ No identity graph yet; run calibrate or identities rebuild');
+        return EXIT_FAILED;
+      }
+
+      const people = options.connectors
+        ? graph.people.filter(person => person.accounts.some(a => options.connectors!.includes(a.connector)))
+        : graph.people;
+      if (options.json) {
+        printJSON({ built_at: graph.built_at, people });
+      } else {
+        console.log(`👥 ${people.length} people from ${graph.accounts.length} accounts (built ${graph.built_at})\n`);
+        people.forEach(person => printPerson(person, options.connectors));
+      }
+      return EXIT_OK;
+    }
+    case 'find': {
+      if (rest.length === 0) throw new UsageError('find needs a name, email, handle or ID');
+      return find(identities, rest.join(' '), options.connectors, options.json);
+    }
+    default:
+      throw new UsageError(`Unknown action: ${action}`);
+  }
+};
+
+async function find(identities: IdentityGraph, query: string, only: string[] | undefined, json: boolean): Promise<number> {
+  const { person, ambiguous } = await identities.find(query);
+  if (json) {
+    printJSON({ person: person ?? null, ambiguous });
+  } else if (person) {
+    printPerson(person, only);
+  } else if (ambiguous.length > 0) {
+    console.log(`⚠️  "${query}" could be any of:\n`);
+    ambiguous.forEach(candidate => printPerson(candidate, only));
+  } else {
+    console.log(`No one matching "${query}"`);
+  }
+  return person ? EXIT_OK : EXIT_FAILED;
+}
+
+function printPerson(person: Person, only?: string[]): void {
+  console.log(`  ${person.name} [${person.id}]${person.self ? ' (me)' : ''}`);
+  for (const account of person.accounts) {
+    if (only && !only.includes(account.connector)) continue;
+    const label = [account.name, account.email, account.handle].filter(Boolean).join(', ');
+    const link = account.matched_by ? `${account.matched_by} ${Math.round(account.confidence * 100)}%` : '';
+    console.log(`    ${account.connector.padEnd(8)} ${account.id.padEnd(38)} ${label}${link ? `  ← ${link}` : ''}`);
+  }
+  console.log();
+}
+
+if (require.main === module) {
+  runCli(identitiesCommand, process.argv.slice(2), usage, true);
+}
@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+/**
+ * MCP Awareness CLI
+ * Dispatches subcommands: calibrate, verify, health-check, status, diff, watch, credentials, audit, replay, brief, identities
+ */
+
+import { Command, EXIT_USAGE, runCli } from './common';
+import { calibrateCommand, usage as calibrateUsage } from './calibrate';
+import { verifyCommand, usage as verifyUsage } from './verify';
+import { healthCheckCommand, usage as healthCheckUsage } from './health-check';
+import { statusCommand, usage as statusUsage } from './status';
+import { diffCommand, usage as diffUsage } from './diff';
+import { watchCommand, usage as watchUsage } from './watch';
+import { credentialsCommand, usage as credentialsUsage } from './credentials';
+import { auditCommand, usage as auditUsage } from './audit';
+import { replayCommand, usage as replayUsage } from './replay';
+import { briefCommand, usage as briefUsage } from './brief';
+import { identitiesCommand, usage as identitiesUsage } from './identities';
+
+const commands: Record<string, { run: Command; usage: string; acceptsArgs?: boolean }> = {
+  calibrate: { run: calibrateCommand, usage: calibrateUsage },
+  verify: { run: verifyCommand, usage: verifyUsage },
+  'health-check': { run: healthCheckCommand, usage: healthCheckUsage },
+  status: { run: statusCommand, usage: statusUsage },
+  diff: { run: diffCommand, usage: diffUsage },
+  watch: { run: watchCommand, usage: watchUsage },
+  credentials: { run: credentialsCommand, usage: credentialsUsage, acceptsArgs: true },
+  audit: { run: auditCommand, usage: auditUsage },
+  replay: { run: replayCommand, usage: replayUsage, acceptsArgs: true },
+  brief: { run: briefCommand, usage: briefUsage },
+  identities: { run: identitiesCommand, usage: identitiesUsage, acceptsArgs: true }
+};
+
+const usage = `Usage: mcp-awareness <command> [options]
+
+Commands:
+  calibrate     Discover identities and scopes and save calibration state
+  verify        Check stored calibration and credentials
+  health-check  Probe connectors once
+  status        Show stored calibration and health state
+  diff          Show calibration drift
+  watch         Run health checks on an interval
+  credentials   List, add or remove stored connector tokens
+  audit         Show recorded enforcement results
+  replay        Re-enforce recorded calls under the current rules
+  brief         Print the agent awareness brief
+  identities    Show or rebuild people linked across connectors
+
+Options:
+  --connector, -c <name>  Limit to connectors (repeatable or comma-separated)
+  --json                  Machine-readable output on stdout
+  --help, -h              Help for a command`;
+
+export async function main(argv: string[] = process.argv.slice(2)): Promise<void> {
+  const [name, ...rest] = argv;
+  const command = name ? commands[name] : undefined;
+
+  if (!command) {
+    console.error(name && name !== '--help' && name !== '-h' ? `Unknown command: ${name}\n\n${usage}` : usage);
+    process.exitCode = name && name !== '--help' && name !== '-h' ? EXIT_USAGE : 0;
+    return;
+  }
+
+  await runCli(command.run, rest, command.usage, command.acceptsArgs);
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,58 @@
+/**
+ * replay: enforce recorded calls again under the current rules and show what changed
+ */
+
+import { AuditEntry } from '../types';
+import { Command, EXIT_FAILED, EXIT_OK, printJSON, runCli } from './common';
+import { findAuditEntries } from './audit';
+
+export const usage = `Usage: replay <audit-id>... [--json]
+       replay [--tool <name>] [--connector <name>[,<name>]] [--outcome <outcome>] [--since <time>] [--until <time>] [--limit <n>] [--json]
+
+Enforce recorded calls (by ID from audit, or the latest matching ones, default 20)
+again under the current rules, policies and calibration, and list the differences.
+Replays are not recorded. Exits 1 if any enforcement result would differ.`;
+
+export const replayCommand: Command = async ({ enforcer, stateManager }, options) => {
+  let entries: AuditEntry[];
+  if (options.args.length > 0) {
+    entries = [];
+    for (const id of options.args) {
+      const entry = await stateManager.auditEntry(id);
+      if (!entry) {
+        console.error(`❌ No audit entry ${id}`);
+        return EXIT_FAILED;
+      }
+      entries.push(entry);
+    }
+  } else {
+    entries = await findAuditEntries(stateManager, options, 20);
+  }
+
+  const replays = [];
+  for (const entry of entries) {
+    replays.push(await enforcer.replay(entry));
+  }
+  const changed = replays.filter(replay => replay.changes.length > 0).length;
+
+  if (options.json) {
+    printJSON(replays);
+  } else if (replays.length === 0) {
+    console.log('No enforcement audit entries to replay');
+  } else {
+    for (const { entry, changes } of replays) {
+      console.log(`${changes.length > 0 ? '🔀' : '✅'} ${entry.id}  ${entry.tool}  (${entry.timestamp})` +
+        (changes.length > 0 ? '' : ' unchanged'));
+      for (const change of changes) {
+        console.log(`    ${change.message}`);
+      }
+    }
+    console.log(`${replays.length} replayed, ${changed} would change`);
+  }
+
+  return changed > 0 ? EXIT_FAILED : EXIT_OK;
+};
+
+if (require.main === module) {
+  runCli(replayCommand, process.argv.slice(2), usage, true);
+}
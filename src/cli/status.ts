@@ -0,0 +1,59 @@
+/**
+ * status: print the stored calibration and health state without calling any API
+ */
+
+import { ConnectorStatus } from '../types';
+import { Command, EXIT_FAILED, EXIT_OK, formatAge, pick, printJSON, runCli, statusIcon } from './common';
+
+export const usage = `Usage: status [--connector <name>[,<name>]] [--json]
+
+Show stored calibration and health state and how old it is.
+Exits 1 if there is no calibration state or a shown connector is failing.`;
+
+export const statusCommand: Command = async ({ stateManager }, options) => {
+  const calibration = await stateManager.load();
+  const health = await stateManager.loadHealth();
+  const age = await stateManager.getCalibrationAge();
+  const calibrated = pick(calibration?.connectors || {}, options.connectors);
+  const checked = pick(health?.connectors || {}, options.connectors);
+
+  if (options.json) {
+    printJSON({
+      calibration: calibration ? { ...calibration, connectors: calibrated } : null,
+      calibration_age_hours: age,
+      health: health ? { ...health, connectors: checked } : null
+    });
+  } else {
+    console.log(`Calibration: ${calibration ? `${calibration.timestamp} (${formatAge(age)})` : 'none — run calibrate'}`);
+    for (const [name, status] of Object.entries(calibrated)) {
+      console.log(`  ${statusIcon(status.status)} ${name.padEnd(8)} ${status.status.padEnd(13)} ${describe(status)}`);
+    }
+
+    console.log(`Health: ${health ? `${health.overall} at ${health.timestamp}` : 'no checks yet'}`);
+    for (const [name, status] of Object.entries(checked)) {
+      const circuit = status.circuit && status.circuit !== 'closed' ? `, circuit ${status.circuit}` : '';
+      console.log(`  ${statusIcon(status.status)} ${name.padEnd(8)} ${status.status.padEnd(13)} ${status.latency_ms}ms${circuit}`);
+      if (status.error) console.log(`      ${status.error}`);
+    }
+  }
+
+  const failing = [...Object.values(calibrated), ...Object.values(checked)].some(s => s.status === 'failed');
+  return !calibration || failing ? EXIT_FAILED : EXIT_OK;
+};
+
+/**
+ * Who the connector is calibrated as and its default scope
+ */
+function describe(status: ConnectorStatus): string {
+  if (status.status !== 'authenticated') return status.error || '';
+
+  const identity = status.user?.email || status.user?.login || status.user?.name || status.bot?.name;
+  const scope = status.team?.key
+    || status.workspace?.name
+    || status.orgs?.find((org: any) => org.default)?.login;
+  return [identity, scope && `scope ${scope}`, status.credential && `credential ${status.credential}`].filter(Boolean).join(', ');
+}
+
+if (require.main === module) {
+  runCli(statusCommand, process.argv.slice(2), usage);
+}
@@ -0,0 +1,27 @@
+/**
+ * verify: check that stored calibration is present and credentials still work
+ */
+
+import { Command, EXIT_FAILED, EXIT_OK, formatAge, printJSON, runCli } from './common';
+
+export const usage = `Usage: verify [--connector <name>[,<name>]] [--json]
+
+Verify credentials for active connectors (or only those given).
+Exits 1 if there is no calibration state or any connector fails verification.`;
+
+export const verifyCommand: Command = async ({ calibrator, stateManager }, options) => {
+  const verified = await calibrator.verify(options.connectors);
+  const age = await stateManager.getCalibrationAge();
+
+  if (options.json) {
+    printJSON({ verified, calibration_age_hours: age });
+  } else {
+    console.log(`${verified ? '✅ Verified' : '❌ Verification failed'} (calibrated ${formatAge(age)})`);
+  }
+
+  return verified ? EXIT_OK : EXIT_FAILED;
+};
+
+if (require.main === module) {
+  runCli(verifyCommand, process.argv.slice(2), usage);
+}
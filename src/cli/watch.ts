@@ -0,0 +1,42 @@
+/**
+ * watch: run health checks on an interval until interrupted
+ */
+
+import { Command, EXIT_OK, pick, runCli } from './common';
+
+export const usage = `Usage: watch [--connector <name>[,<name>]] [--interval <seconds>] [--json]
+
+Run a health check every interval (default 60s) until Ctrl-C.
+With --json, each check is printed as one line of JSON.`;
+
+export const watchCommand: Command = async ({ healthMonitor }, options) => {
+  let stopped = false;
+  let wake: () => void = () => {};
+  const stop = () => {
+    stopped = true;
+    wake();
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  while (!stopped) {
+    const health = await healthMonitor.runHealthCheck(options.connectors);
+    if (options.json) {
+      process.stdout.write(JSON.stringify({ ...health, connectors: pick(health.connectors, options.connectors) }) + '\n');
+    }
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, options.interval * 1000);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  return EXIT_OK;
+};
+
+if (require.main === module) {
+  runCli(watchCommand, process.argv.slice(2), usage);
+}
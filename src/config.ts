@@ -0,0 +1,361 @@
+/**
+ * Configuration Loader
+ * Builds AwarenessConfig from defaults, an optional YAML file and environment variables
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { AwarenessConfig } from './types';
+
+export const DEFAULT_CONFIG_PATH = 'awareness.config.yaml';
+
+export const DEFAULT_CONFIG: AwarenessConfig = {
+  connectors: [],
+  calibration: {
+    auto_run_on_start: true,
+    verify_interval_hours: 24,
+    cache_ttl_hours: 168,
+    default_scopes: {}
+  },
+  enforcement: {
+    require_pagination_completion: true,
+    auto_resolve_ids: true,
+    max_chain_depth: 5,
+    retry_failed_calls: true,
+    max_pagination_pages: 100,
+    max_pagination_items: 10000,
+    max_pagination_bytes: 10 * 1024 * 1024,
+    max_rate_limit_delay_ms: 60_000,
+    rules_path: './enforcement-rules.yaml',
+    audit_log: true
+  },
+  health: {
+    check_interval_minutes: 30,
+    alert_on_failure: true,
+    create_linear_issues: false,
+    latency_warning_ms: 2000,
+    latency_slos: {},
+    token_expiry_warning_days: 7,
+    rate_limit_warning_ratio: 0.1,
+    circuit_failure_threshold: 3,
+    circuit_cooldown_minutes: 5,
+    alert_cooldown_minutes: 60
+  },
+  storage: {
+    data_dir: './data',
+    yaml_export: './calibration-state.yaml',
+    redact_pii: true,
+    history_retention_days: 90,
+    memory_plugin_sync: false,
+    memory_plugin_path: './data/memory.jsonl',
+    notion_dashboard_sync: false
+  },
+  credentials: {
+    vault_path: './data/credentials.vault'
+  },
+  logging: {
+    level: 'info',
+    format: 'auto'
+  },
+  brief: {
+    max_tokens: 1500
+  },
+  identity: {
+    enabled: true,
+    overrides_path: './identities.yaml',
+    min_confidence: 0.7
+  },
+  result_cache: {
+    enabled: true,
+    ttl_seconds: 60,
+    tool_ttls: {},
+    max_entries: 1000,
+    max_bytes: 50 * 1024 * 1024
+  },
+  http: {}
+};
+
+interface FieldSpec {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'list' | 'numberMap' | 'stringMap';
+  /** Environment variable(s) that set the field, first one present wins */
+  env?: string | string[];
+  /** For stringMap fields: map key → environment variable */
+  envKeys?: Record<string, string>;
+  min?: number;
+  max?: number;
+  /** Allowed values for string fields */
+  values?: string[];
+  /** Resolved against the config file's directory, or the working directory for env values */
+  path?: boolean;
+}
+
+const SCHEMA: Record<string, FieldSpec | Record<string, FieldSpec>> = {
+  connectors: { type: 'list', env: 'CONNECTORS' },
+  calibration: {
+    auto_run_on_start: { type: 'boolean', env: 'AUTO_RUN_ON_START' },
+    verify_interval_hours: { type: 'number', env: 'VERIFY_INTERVAL_HOURS', min: 0 },
+    cache_ttl_hours: { type: 'number', env: 'CACHE_TTL_HOURS', min: 0 },
+    default_scopes: {
+      type: 'stringMap',
+      envKeys: { asana: 'ASANA_DEFAULT_WORKSPACE', linear: 'LINEAR_DEFAULT_TEAM', github: 'GITHUB_DEFAULT_OWNER' }
+    }
+  },
+  enforcement: {
+    require_pagination_completion: { type: 'boolean', env: 'REQUIRE_PAGINATION_COMPLETION' },
+    auto_resolve_ids: { type: 'boolean', env: 'AUTO_RESOLVE_IDS' },
+    max_chain_depth: { type: 'integer', env: 'MAX_CHAIN_DEPTH', min: 1, max: 50 },
+    retry_failed_calls: { type: 'boolean', env: 'RETRY_FAILED_CALLS' },
+    max_pagination_pages: { type: 'integer', env: 'MAX_PAGINATION_PAGES', min: 1 },
+    max_pagination_items: { type: 'integer', env: 'MAX_PAGINATION_ITEMS', min: 1 },
+    max_pagination_bytes: { type: 'integer', env: 'MAX_PAGINATION_BYTES', min: 1024 },
+    max_rate_limit_delay_ms: { type: 'integer', env: 'MAX_RATE_LIMIT_DELAY_MS', min: 0 },
+    rules_path: { type: 'string', env: 'ENFORCEMENT_RULES_PATH', path: true },
+    audit_log: { type: 'boolean', env: 'ENFORCEMENT_AUDIT_LOG' }
+  },
+  health: {
+    check_interval_minutes: { type: 'number', env: 'HEALTH_CHECK_INTERVAL_MINUTES', min: 0.1 },
+    alert_on_failure: { type: 'boolean', env: 'ALERT_ON_FAILURE' },
+    create_linear_issues: { type: 'boolean', env: 'CREATE_LINEAR_ISSUES_ON_FAILURE' },
+    latency_warning_ms: { type: 'number', env: 'HEALTH_LATENCY_WARNING_MS', min: 1 },
+    latency_slos: { type: 'numberMap', env: 'HEALTH_LATENCY_SLOS', min: 1 },
+    token_expiry_warning_days: { type: 'number', env: 'TOKEN_EXPIRY_WARNING_DAYS', min: 0 },
+    rate_limit_warning_ratio: { type: 'number', env: 'RATE_LIMIT_WARNING_RATIO', min: 0, max: 1 },
+    circuit_failure_threshold: { type: 'integer', env: 'CIRCUIT_FAILURE_THRESHOLD', min: 1 },
+    circuit_cooldown_minutes: { type: 'number', env: 'CIRCUIT_COOLDOWN_MINUTES', min: 0 },
+    alert_cooldown_minutes: { type: 'number', env: 'ALERT_COOLDOWN_MINUTES', min: 0 },
+    linear_alert_team_id: { type: 'string', env: 'LINEAR_ALERT_TEAM_ID' },
+    alert_log_path: { type: 'string', env: 'ALERT_LOG_PATH', path: true },
+    alert_webhook_url: { type: 'string', env: 'ALERT_WEBHOOK_URL' },
+    alert_slack_webhook_url: { type: 'string', env: 'ALERT_SLACK_WEBHOOK_URL' }
+  },
+  storage: {
+    database: { type: 'string', env: 'DATABASE_PATH', path: true },
+    data_dir: { type: 'string', env: 'DATA_DIR', path: true },
+    yaml_export: { type: 'string', env: 'YAML_EXPORT_PATH', path: true },
+    redact_pii: { type: 'boolean', env: 'REDACT_PII' },
+    history_retention_days: { type: 'number', env: 'HISTORY_RETENTION_DAYS', min: 1 },
+    memory_plugin_sync: { type: 'boolean', env: 'MEMORY_PLUGIN_SYNC' },
+    memory_plugin_path: { type: 'string', env: ['MEMORY_PLUGIN_PATH', 'MEMORY_FILE_PATH'], path: true },
+    notion_dashboard_sync: { type: 'boolean', env: 'NOTION_DASHBOARD_SYNC' },
+    notion_dashboard_database_id: { type: 'string', env: 'NOTION_DASHBOARD_DATABASE_ID' }
+  },
+  credentials: {
+    vault_path: { type: 'string', env: 'CREDENTIAL_VAULT_PATH', path: true },
+    key: { type: 'string', env: 'CREDENTIAL_VAULT_KEY' },
+    key_file: { type: 'string', env: 'CREDENTIAL_VAULT_KEY_FILE', path: true }
+  },
+  logging: {
+    level: { type: 'string', env: 'LOG_LEVEL', values: ['debug', 'info', 'warn', 'error'] },
+    format: { type: 'string', env: 'LOG_FORMAT', values: ['auto', 'json', 'pretty'] },
+    trace_export_path: { type: 'string', env: 'TRACE_EXPORT_PATH', path: true }
+  },
+  brief: {
+    max_tokens: { type: 'integer', env: 'BRIEF_MAX_TOKENS', min: 100 }
+  },
+  identity: {
+    enabled: { type: 'boolean', env: 'IDENTITY_GRAPH' },
+    overrides_path: { type: 'string', env: 'IDENTITY_OVERRIDES_PATH', path: true },
+    min_confidence: { type: 'number', env: 'IDENTITY_MIN_CONFIDENCE', min: 0, max: 1 }
+  },
+  result_cache: {
+    enabled: { type: 'boolean', env: 'RESULT_CACHE' },
+    ttl_seconds: { type: 'number', env: 'RESULT_CACHE_TTL_SECONDS', min: 0 },
+    tool_ttls: { type: 'numberMap', env: 'RESULT_CACHE_TOOL_TTLS', min: 0 },
+    max_entries: { type: 'integer', env: 'RESULT_CACHE_MAX_ENTRIES', min: 1 },
+    max_bytes: { type: 'integer', env: 'RESULT_CACHE_MAX_BYTES', min: 1024 }
+  },
+  http: {
+    port: { type: 'integer', env: ['HTTP_PORT', 'PORT'], min: 1, max: 65535 },
+    host: { type: 'string', env: 'HTTP_HOST' },
+    token: { type: 'string', env: 'HTTP_API_TOKEN' }
+  }
+};
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface LoadConfigOptions {
+  /** YAML file; defaults to AWARENESS_CONFIG, then ./awareness.config.yaml if it exists */
+  path?: string;
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+}
+
+/**
+ * Merge defaults < YAML file < environment, throwing a ConfigError listing every invalid value
+ */
+export function loadConfig(options: LoadConfigOptions = {}): AwarenessConfig {
+  const env = options.env || process.env;
+  const cwd = options.cwd || process.cwd();
+  const config: any = JSON.parse(JSON.stringify(DEFAULT_CONFIG));
+  const problems: string[] = [];
+
+  const explicit = options.path || env.AWARENESS_CONFIG;
+  const file = path.resolve(cwd, explicit || DEFAULT_CONFIG_PATH);
+  if (explicit || fs.existsSync(file)) {
+    applyFile(config, file, problems);
+  }
+  applyEnv(config, env, cwd, problems);
+
+  // Paths left at their defaults are relative to the working directory
+  forEachField((section, key, spec) => {
+    const target = section ? config[section] : config;
+    if (spec.path && typeof target[key] === 'string') {
+      target[key] = path.resolve(cwd, target[key]);
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config as AwarenessConfig;
+}
+
+function applyFile(config: any, file: string, problems: string[]): void {
+  let data: any;
+  try {
+    data = yaml.load(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    problems.push(`${file}: ${(error as Error).message}`);
+    return;
+  }
+  if (data === undefined || data === null) return;
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    problems.push(`${file}: expected a mapping at the top level`);
+    return;
+  }
+
+  const label = path.basename(file);
+  for (const [key, value] of Object.entries(data)) {
+    const spec = SCHEMA[key];
+    if (!spec) {
+      problems.push(`${label}: unknown key "${key}" (expected one of ${Object.keys(SCHEMA).join(', ')})`);
+    } else if (isFieldSpec(spec)) {
+      assign(config, key, value, spec, `${label} ${key}`, path.dirname(file), problems);
+    } else if (value === null) {
+      // A section with every key commented out
+      continue;
+    } else if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      problems.push(`${label} ${key}: expected a mapping`);
+    } else {
+      for (const [field, fieldValue] of Object.entries(value as Record<string, any>)) {
+        if (!spec[field]) {
+          problems.push(`${label}: unknown key "${key}.${field}" (expected one of ${Object.keys(spec).join(', ')})`);
+          continue;
+        }
+        assign(config[key], field, fieldValue, spec[field], `${label} ${key}.${field}`, path.dirname(file), problems);
+      }
+    }
+  }
+}
+
+function applyEnv(config: any, env: NodeJS.ProcessEnv, cwd: string, problems: string[]): void {
+  forEachField((section, key, spec) => {
+    const target = section ? config[section] : config;
+
+    if (spec.envKeys) {
+      for (const [mapKey, variable] of Object.entries(spec.envKeys)) {
+        if (env[variable]) target[key] = { ...target[key], [mapKey]: env[variable] };
+      }
+      return;
+    }
+
+    const variable = [spec.env || []].flat().find(name => env[name] !== undefined && env[name] !== '');
+    if (variable) {
+      assign(target, key, env[variable], spec, variable, cwd, problems);
+    }
+  });
+}
+
+function assign(target: any, key: string, value: any, spec: FieldSpec, label: string, baseDir: string, problems: string[]): void {
+  const coerced = coerce(value, spec, label, problems);
+  if (coerced === undefined) return;
+  target[key] = spec.path && typeof coerced === 'string' ? path.resolve(baseDir, coerced) : coerced;
+}
+
+function coerce(value: any, spec: FieldSpec, label: string, problems: string[]): any {
+  switch (spec.type) {
+    case 'string':
+      if (typeof value === 'object' && value !== null) {
+        problems.push(`${label}: expected a string`);
+        return undefined;
+      }
+      if (value !== null && spec.values && !spec.values.includes(String(value))) {
+        problems.push(`${label}: expected one of ${spec.values.join(', ')}, got "${value}"`);
+        return undefined;
+      }
+      return value === null ? undefined : String(value);
+
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (/^(true|1|yes|on)$/i.test(String(value))) return true;
+      if (/^(false|0|no|off)$/i.test(String(value))) return false;
+      problems.push(`${label}: expected true or false, got "${value}"`);
+      return undefined;
+
+    case 'number':
+    case 'integer':
+      return checkNumber(Number(value), spec, label, `"${value}"`, problems);
+
+    case 'list':
+      if (Array.isArray(value)) return value.map(String);
+      return String(value).split(',').map(item => item.trim()).filter(Boolean);
+
+    case 'numberMap':
+    case 'stringMap': {
+      const entries = typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? Object.entries(value)
+        : String(value).split(',').filter(pair => pair.trim()).map(pair => pair.split('=').map(part => part.trim()));
+      const map: Record<string, any> = {};
+      for (const [mapKey, mapValue] of entries) {
+        if (!mapKey || mapValue === undefined || mapValue === '') {
+          problems.push(`${label}: expected name=value pairs`);
+          return undefined;
+        }
+        map[mapKey] = spec.type === 'numberMap'
+          ? checkNumber(Number(mapValue), spec, `${label} ${mapKey}`, `"${mapValue}"`, problems)
+          : String(mapValue);
+      }
+      return map;
+    }
+  }
+}
+
+function checkNumber(value: number, spec: FieldSpec, label: string, raw: string, problems: string[]): number | undefined {
+  if (!Number.isFinite(value)) {
+    problems.push(`${label}: expected a number, got ${raw}`);
+    return undefined;
+  }
+  if (spec.type === 'integer' && !Number.isInteger(value)) {
+    problems.push(`${label}: expected a whole number, got ${raw}`);
+    return undefined;
+  }
+  if (spec.min !== undefined && value < spec.min) {
+    problems.push(`${label}: must be at least ${spec.min}, got ${value}`);
+    return undefined;
+  }
+  if (spec.max !== undefined && value > spec.max) {
+    problems.push(`${label}: must be at most ${spec.max}, got ${value}`);
+    return undefined;
+  }
+  return value;
+}
+
+function forEachField(visit: (section: string | null, key: string, spec: FieldSpec) => void): void {
+  for (const [key, spec] of Object.entries(SCHEMA)) {
+    if (isFieldSpec(spec)) {
+      visit(null, key, spec);
+    } else {
+      for (const [field, fieldSpec] of Object.entries(spec)) visit(key, field, fieldSpec);
+    }
+  }
+}
+
+function isFieldSpec(spec: FieldSpec | Record<string, FieldSpec>): spec is FieldSpec {
+  return typeof (spec as FieldSpec).type === 'string';
+}
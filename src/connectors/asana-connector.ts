@@ -0,0 +1,150 @@
+/**
+ * Asana Connector
+ */
+
+import { AsanaClient } from './asana';
+import { BaseConnector, ConnectorDetails } from './base';
+import { findByKey, selectDefault } from './scopes';
+import { asanaPagination } from '../pagination';
+import { ChainRule, ConnectorStatus, Entity, IdentifierRule, MemberAccount, ResolutionRule, ToolCall } from '../types';
+
+export class AsanaConnector extends BaseConnector {
+  readonly name = 'asana';
+  readonly displayName = 'Asana';
+  readonly toolPrefix = 'asana';
+  readonly pagination = asanaPagination;
+
+  readonly identifierRules: IdentifierRule[] = [
+    {
+      param: 'workspace',
+      description: 'Asana workspace ID',
+      resolve: (status, params) => {
+        const byName = findByKey(status.workspaces, params.workspaceName, w => [w.name]);
+        if (byName) return { value: byName.gid, hint: `workspace name "${params.workspaceName}"` };
+
+        const projectName = params.projectName || params.project_name;
+        const byProject = projectName && status.workspaces?.find(
+          w => findByKey<string>(w.projects, projectName, p => [p])
+        );
+        if (byProject) return { value: byProject.gid, hint: `project "${projectName}"` };
+
+        return status.workspace ? { value: status.workspace.gid } : undefined;
+      }
+    }
+  ];
+
+  readonly resolutionRules: ResolutionRule[] = [
+    { param: 'projectName', kind: 'project', target: 'project', scopeParam: 'workspace' },
+    { param: 'teamName', kind: 'team', target: 'team', scopeParam: 'workspace' },
+    { param: 'assignee', kind: 'user', target: 'assignee', scopeParam: 'workspace' },
+    { param: 'tags', kind: 'tag', target: 'tags', multiple: true, scopeParam: 'workspace' },
+    { param: 'name', kind: 'project', target: 'project', scopeParam: 'workspace', tools: /_(get|update|delete)_project$/ }
+  ];
+
+  readonly chainRules: ChainRule[] = [
+    {
+      trigger: 'create_task',
+      param: 'tags',
+      build: (call, prefix) => (Array.isArray(call.params.tags) ? call.params.tags : [call.params.tags]).map((tag: string) => ({
+        tool: `${prefix}add_tag_to_task`,
+        params: { task_gid: '$steps.0.gid', tag }
+      }))
+    },
+    {
+      trigger: 'create_task',
+      param: 'followers',
+      build: (call, prefix) => [{
+        tool: `${prefix}add_followers`,
+        params: { task_gid: '$steps.0.gid', followers: call.params.followers }
+      }]
+    }
+  ];
+
+  readonly compensations = {
+    create_task: (_call: ToolCall, prefix: string) => ({ tool: `${prefix}delete_task`, params: { task_gid: '$self.gid' } }),
+    create_project: (_call: ToolCall, prefix: string) => ({ tool: `${prefix}delete_project`, params: { project_gid: '$self.gid' } })
+  };
+
+  /**
+   * @param defaultWorkspace Workspace gid or name injected when the call gives no hint
+   */
+  constructor(
+    private client: AsanaClient = new AsanaClient(),
+    private defaultWorkspace?: string
+  ) {
+    super();
+  }
+
+  protected async discover(): Promise<ConnectorDetails> {
+    const user = await this.client.getCurrentUser();
+    const workspaces = await this.client.listWorkspaces();
+
+    const scopes = await Promise.all(workspaces.map(async workspace => ({
+      name: workspace.name,
+      gid: workspace.gid,
+      is_organization: workspace.is_organization,
+      projects: (await this.client.listProjects(workspace.gid)).map(p => p.name)
+    })));
+    const selected = selectDefault(scopes, this.defaultWorkspace, w => [w.gid, w.name]);
+
+    return {
+      user: {
+        name: user.name,
+        email: user.email,
+        gid: user.gid
+      },
+      workspace: selected ? {
+        name: selected.name,
+        gid: selected.gid,
+        is_organization: selected.is_organization
+      } : null,
+      workspaces: scopes
+    };
+  }
+
+  async listEntities(kind: string, workspace?: string): Promise<Entity[]> {
+    switch (kind) {
+      case 'project':
+        return (await this.client.listProjects(workspace!)).map(p => ({ id: p.gid, name: p.name }));
+      case 'team':
+        return (await this.client.listTeams(workspace!)).map(t => ({ id: t.gid, name: t.name }));
+      case 'user':
+        return (await this.client.listUsers(workspace!)).map(u => ({ id: u.gid, name: u.name, aliases: [u.email] }));
+      case 'tag':
+        return (await this.client.listTags(workspace!)).map(t => ({ id: t.gid, name: t.name }));
+      default:
+        return [];
+    }
+  }
+
+  async listMembers(status: ConnectorStatus): Promise<MemberAccount[]> {
+    const members = new Map<string, MemberAccount>();
+    for (const workspace of status.workspaces || []) {
+      for (const user of await this.client.listUsers(workspace.gid)) {
+        members.set(user.gid, { connector: this.name, id: user.gid, name: user.name, email: user.email });
+      }
+    }
+    return [...members.values()];
+  }
+
+  /**
+   * Projects the write lands in: the project gid when given (a projectName next to it is only a hint), and each of projects
+   */
+  writeScope(params: any): string[] {
+    const projects = Array.isArray(params.projects) ? params.projects : [];
+    const project = params.project || params.project_gid ? [params.project, params.project_gid] : [params.projectName];
+    return [...new Set([...project, ...projects].filter(Boolean))];
+  }
+
+  isEntityId(value: string): boolean {
+    return value === 'me' || /^\d+$/.test(value);
+  }
+
+  protected async ping(): Promise<void> {
+    await this.client.getCurrentUser();
+  }
+
+  protected useToken(token: string): void {
+    this.client.setToken(token);
+  }
+}
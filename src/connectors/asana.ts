@@ -0,0 +1,152 @@
+/**
+ * Asana Client
+ * Thin REST client for the Asana API
+ */
+
+import { ConnectorRequestError, requireToken } from './errors';
+import { quotaTracker } from '../quota-tracker';
+
+export interface AsanaClientOptions {
+  token?: string;
+  baseUrl?: string;
+}
+
+export interface AsanaUser {
+  gid: string;
+  name: string;
+  email: string;
+  workspaces?: AsanaWorkspace[];
+}
+
+export interface AsanaWorkspace {
+  gid: string;
+  name: string;
+  is_organization: boolean;
+}
+
+export interface AsanaProject {
+  gid: string;
+  name: string;
+}
+
+export interface AsanaTeam {
+  gid: string;
+  name: string;
+}
+
+export interface AsanaTag {
+  gid: string;
+  name: string;
+}
+
+const DEFAULT_BASE_URL = 'https://app.asana.com/api/1.0';
+const PAGE_SIZE = 100;
+
+export class AsanaClient {
+  private token: string | undefined;
+  private baseUrl: string;
+
+  constructor(options: AsanaClientOptions = {}) {
+    this.token = options.token ?? process.env.ASANA_PAT;
+    this.baseUrl = (options.baseUrl ?? process.env.ASANA_API_URL ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+  }
+
+  /**
+   * Switch to another access token, e.g. while rotating credentials
+   */
+  setToken(token: string): void {
+    this.token = token;
+  }
+
+  /**
+   * Get the user that owns the access token
+   */
+  async getCurrentUser(): Promise<AsanaUser> {
+    const body = await this.request('/users/me', { opt_fields: 'gid,name,email' });
+    return body.data;
+  }
+
+  /**
+   * List every workspace visible to the user
+   */
+  async listWorkspaces(): Promise<AsanaWorkspace[]> {
+    return this.paginate('/workspaces', { opt_fields: 'gid,name,is_organization' });
+  }
+
+  /**
+   * List active projects in a workspace
+   */
+  async listProjects(workspaceGid: string): Promise<AsanaProject[]> {
+    return this.paginate('/projects', {
+      workspace: workspaceGid,
+      archived: 'false',
+      opt_fields: 'gid,name'
+    });
+  }
+
+  /**
+   * List users in a workspace
+   */
+  async listUsers(workspaceGid: string): Promise<AsanaUser[]> {
+    return this.paginate('/users', { workspace: workspaceGid, opt_fields: 'gid,name,email' });
+  }
+
+  /**
+   * List teams in an organization workspace
+   */
+  async listTeams(workspaceGid: string): Promise<AsanaTeam[]> {
+    return this.paginate(`/workspaces/${workspaceGid}/teams`, { opt_fields: 'gid,name' });
+  }
+
+  /**
+   * List tags in a workspace
+   */
+  async listTags(workspaceGid: string): Promise<AsanaTag[]> {
+    return this.paginate('/tags', { workspace: workspaceGid, opt_fields: 'gid,name' });
+  }
+
+  /**
+   * Follow Asana offset pagination until exhausted
+   */
+  private async paginate(resource: string, query: Record<string, string> = {}): Promise<any[]> {
+    const items: any[] = [];
+    let offset: string | undefined;
+
+    do {
+      const body = await this.request(resource, {
+        ...query,
+        limit: String(PAGE_SIZE),
+        ...(offset ? { offset } : {})
+      });
+      items.push(...body.data);
+      offset = body.next_page?.offset;
+    } while (offset);
+
+    return items;
+  }
+
+  private async request(resource: string, query: Record<string, string> = {}): Promise<any> {
+    const token = requireToken('asana', this.token, 'ASANA_PAT');
+    const url = new URL(this.baseUrl + resource);
+    Object.entries(query).forEach(([key, value]) => url.searchParams.set(key, value));
+
+    const response = await fetch(url, {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/json'
+      }
+    });
+
+    quotaTracker.record('asana', response.headers);
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const message = body?.errors?.[0]?.message || response.statusText;
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => { headers[key] = value; });
+      throw new ConnectorRequestError('asana', message, response.status, headers);
+    }
+
+    return response.json();
+  }
+}
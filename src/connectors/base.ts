@@ -0,0 +1,223 @@
+/**
+ * Base Connector
+ * Shared calibration and health probe behaviour for platform connectors
+ */
+
+import {
+  Connector,
+  ConnectorHealth,
+  ConnectorStatus,
+  Credential,
+  CredentialInfo,
+  HealthThresholds,
+  IdentifierRule,
+  ProbeCheck
+} from '../types';
+import { classifyError, withRetry } from '../retry';
+import { quotaTracker } from '../quota-tracker';
+import { Logger, logger } from '../logging';
+
+export type ConnectorDetails = Omit<ConnectorStatus, 'status' | 'last_verified' | 'error'>;
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  latency_warning_ms: 2000,
+  token_expiry_warning_days: 7,
+  rate_limit_warning_ratio: 0.1
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export abstract class BaseConnector implements Connector {
+  abstract readonly name: string;
+  abstract readonly displayName: string;
+  abstract readonly toolPrefix: string;
+  abstract readonly identifierRules: IdentifierRule[];
+  /** Credential scopes the connector's tools need, checked when the platform reports scopes */
+  protected readonly requiredScopes: string[] = [];
+  private credentials: Credential[] = [];
+  private activeCredential: Credential | undefined;
+  private connectorLog: Logger | undefined;
+
+  /**
+   * Logger tagged with the connector name (created lazily: name is set by the subclass)
+   */
+  protected get log(): Logger {
+    return this.connectorLog ??= logger.child({ connector: this.name });
+  }
+
+  /**
+   * Discover identity and workspace details for the calibration state
+   */
+  protected abstract discover(): Promise<ConnectorDetails>;
+
+  /**
+   * Cheapest authenticated call, used for verification and health probes.
+   * May report the credential's expiry and scopes when the platform exposes them.
+   */
+  protected abstract ping(): Promise<CredentialInfo | void>;
+
+  /**
+   * Point the platform client at another token
+   */
+  protected abstract useToken(token: string): void;
+
+  /**
+   * Credentials to try in order, newest first; without any the client reads its token from the environment
+   */
+  useCredentials(credentials: Credential[]): void {
+    this.credentials = credentials;
+    this.activeCredential = credentials[0];
+    if (this.activeCredential) this.useToken(this.activeCredential.secret);
+  }
+
+  /**
+   * Calibrate connector, capturing failures in the returned status
+   */
+  async calibrate(): Promise<ConnectorStatus> {
+    try {
+      this.log.info('Calibrating connector');
+
+      const details = await this.withCredentials(() => withRetry(this.name, () => this.discover()));
+
+      return {
+        status: 'authenticated',
+        ...details,
+        ...(this.activeCredential ? { credential: this.activeCredential.label } : {}),
+        last_verified: new Date().toISOString()
+      };
+    } catch (error) {
+      this.log.error('Calibration failed', { error_type: classifyError(error), error });
+      return {
+        status: 'failed',
+        error: (error as Error).message,
+        error_type: classifyError(error),
+        last_verified: new Date().toISOString()
+      };
+    }
+  }
+
+  /**
+   * Verify credentials are still accepted
+   */
+  async verify(): Promise<boolean> {
+    try {
+      await this.withCredentials(() => withRetry(this.name, () => this.ping()));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Measure connector health and latency (single attempt, no retries)
+   */
+  async probe(thresholds: HealthThresholds = DEFAULT_HEALTH_THRESHOLDS): Promise<ConnectorHealth> {
+    const start = Date.now();
+    try {
+      const credential = await this.withCredentials(() => this.ping());
+      const latency = Date.now() - start;
+      const checks = this.assess(latency, credential || {}, thresholds);
+      const failed = checks.find(check => check.status === 'fail');
+
+      return {
+        status: failed ? 'failed' : checks.some(check => check.status === 'warn') ? 'warning' : 'healthy',
+        latency_ms: latency,
+        last_check: new Date().toISOString(),
+        ...(failed ? { error: failed.detail, error_type: 'auth' as const } : {}),
+        checks
+      };
+    } catch (error) {
+      // A throttled connector is reachable and authenticated, just busy
+      const errorType = classifyError(error);
+      return {
+        status: errorType === 'rate_limit' ? 'warning' : 'failed',
+        latency_ms: Date.now() - start,
+        last_check: new Date().toISOString(),
+        error: (error as Error).message,
+        error_type: errorType
+      };
+    }
+  }
+
+  /**
+   * Run with the active credential, moving on to the next one whenever the platform rejects it
+   */
+  private async withCredentials<T>(operation: () => Promise<T>): Promise<T> {
+    const active = this.activeCredential;
+    if (!active) return operation();
+
+    const candidates = [active, ...this.credentials.filter(c => c !== active)];
+    let lastError: unknown;
+    for (const [i, credential] of candidates.entries()) {
+      this.useToken(credential.secret);
+      try {
+        const result = await operation();
+        if (credential !== active) {
+          this.log.warn('Switched credential', { credential: credential.label, previous: active.label });
+        }
+        this.activeCredential = credential;
+        return result;
+      } catch (error) {
+        if (classifyError(error) !== 'auth') throw error;
+        lastError = error;
+        if (i < candidates.length - 1) {
+          this.log.warn('Credential rejected, trying the next one', { credential: credential.label, next: candidates[i + 1].label });
+        }
+      }
+    }
+
+    // Every credential was rejected; keep the one that last worked for the next attempt
+    this.useToken(active.secret);
+    throw lastError;
+  }
+
+  /**
+   * Grade a successful ping against latency, credential and rate-limit thresholds
+   */
+  protected assess(latency: number, credential: CredentialInfo, thresholds: HealthThresholds): ProbeCheck[] {
+    const checks: ProbeCheck[] = [];
+
+    checks.push(latency > thresholds.latency_warning_ms
+      ? { name: 'latency', status: 'warn', detail: `${latency}ms exceeds ${thresholds.latency_warning_ms}ms` }
+      : { name: 'latency', status: 'pass' });
+
+    if (credential.expires_at) {
+      const remainingMs = Date.parse(credential.expires_at) - Date.now();
+      if (remainingMs <= 0) {
+        checks.push({ name: 'token_expiry', status: 'fail', detail: `Token expired at ${credential.expires_at}` });
+      } else if (remainingMs < thresholds.token_expiry_warning_days * DAY_MS) {
+        const days = Math.ceil(remainingMs / DAY_MS);
+        checks.push({ name: 'token_expiry', status: 'warn', detail: `Token expires in ${days} day(s) (${credential.expires_at})` });
+      } else {
+        checks.push({ name: 'token_expiry', status: 'pass' });
+      }
+    }
+
+    if (credential.scopes && this.requiredScopes.length > 0) {
+      const missing = this.requiredScopes.filter(scope => !credential.scopes!.includes(scope));
+      checks.push(missing.length > 0
+        ? { name: 'scopes', status: 'warn', detail: `Token is missing scope(s): ${missing.join(', ')}` }
+        : { name: 'scopes', status: 'pass' });
+    }
+
+    const quota = quotaTracker.get(this.name);
+    if (quota) {
+      const blocked = quota.blocked_until && Date.parse(quota.blocked_until) > Date.now();
+      const ratio = quota.limit && quota.remaining !== undefined ? quota.remaining / quota.limit : undefined;
+      const complexityRatio = quota.complexity_limit && quota.complexity_remaining !== undefined
+        ? quota.complexity_remaining / quota.complexity_limit
+        : undefined;
+      const lowest = Math.min(ratio ?? 1, complexityRatio ?? 1);
+
+      if (blocked) {
+        checks.push({ name: 'rate_limit', status: 'warn', detail: `Rate limited until ${quota.blocked_until}` });
+      } else if (lowest < thresholds.rate_limit_warning_ratio) {
+        checks.push({ name: 'rate_limit', status: 'warn', detail: `${Math.round(lowest * 100)}% of rate limit remaining` });
+      } else {
+        checks.push({ name: 'rate_limit', status: 'pass' });
+      }
+    }
+
+    return checks;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Connector Errors
+ */
+
+export class ConnectorRequestError extends Error {
+  constructor(
+    public connector: string,
+    message: string,
+    public status?: number,
+    public headers: Record<string, string> = {}
+  ) {
+    super(`${connector}: ${message}`);
+    this.name = 'ConnectorRequestError';
+  }
+}
+
+/**
+ * Read a credential from the environment, failing with a clear message
+ */
+export function requireToken(connector: string, token: string | undefined, envVar: string): string {
+  if (!token) {
+    throw new ConnectorRequestError(connector, `${envVar} is not set`, 401);
+  }
+  return token;
+}
@@ -0,0 +1,159 @@
+/**
+ * GitHub Connector
+ */
+
+import { GitHubClient } from './github';
+import { BaseConnector, ConnectorDetails } from './base';
+import { findByKey, selectDefault } from './scopes';
+import { githubPagination } from '../pagination';
+import { ConnectorStatus, CredentialInfo, Entity, IdentifierRule, MemberAccount, ResolutionRule, ToolCall } from '../types';
+
+// Profiles (name, public email) take a request each; members beyond this are linked by login only
+const MAX_PROFILE_LOOKUPS = 200;
+
+export class GitHubConnector extends BaseConnector {
+  readonly name = 'github';
+  readonly displayName = 'GitHub';
+  readonly toolPrefix = 'github';
+  readonly pagination = githubPagination;
+  // Classic tokens report OAuth scopes; repo covers the issue, PR and contents tools
+  protected readonly requiredScopes = ['repo'];
+
+  readonly identifierRules: IdentifierRule[] = [
+    {
+      param: 'owner',
+      description: 'GitHub owner',
+      resolve: (status, params) => {
+        const repo: string | undefined = params.repo;
+        if (repo?.includes('/')) {
+          return { value: repo.split('/')[0], hint: `repo "${repo}"` };
+        }
+
+        const owners = (status.orgs || []).filter(o => findByKey<string>(o.repos, repo, r => [r]));
+        if (owners.length === 1) return { value: owners[0].login, hint: `repo "${repo}"` };
+
+        const owner = status.orgs?.find(o => o.default)?.login || status.user?.login;
+        return owner ? { value: owner } : undefined;
+      }
+    }
+  ];
+
+  readonly resolutionRules: ResolutionRule[] = [
+    { param: 'repo', kind: 'repository', target: 'repository_id' },
+    { param: 'assignee', kind: 'user', target: 'assignee', search: true },
+    { param: 'assignees', kind: 'user', target: 'assignees', multiple: true, search: true }
+  ];
+
+  // Issues cannot be deleted through the API, so rollback closes them
+  readonly compensations = {
+    create_issue: (call: ToolCall, prefix: string) => ({
+      tool: `${prefix}update_issue`,
+      params: { owner: call.params.owner, repo: call.params.repo, issue_number: '$self.number', state: 'closed' }
+    })
+  };
+
+  /**
+   * @param defaultOwner User or organization login injected when the call gives no hint
+   */
+  constructor(
+    private client: GitHubClient = new GitHubClient(),
+    private defaultOwner?: string
+  ) {
+    super();
+  }
+
+  protected async discover(): Promise<ConnectorDetails> {
+    const user = await this.client.getAuthenticatedUser();
+    const repos = await this.client.listRepositories();
+
+    // Group accessible repositories by owner (the user plus any organizations)
+    const owners = new Map<string, string[]>([[user.login, []]]);
+    for (const repo of repos) {
+      owners.set(repo.owner, [...(owners.get(repo.owner) || []), repo.name]);
+    }
+    const orgs = [...owners].map(([login, names]) => ({ login, repos: names, default: false }));
+    const selected = selectDefault(orgs, this.defaultOwner || user.login, o => [o.login]);
+    if (selected) selected.default = true;
+
+    return {
+      user: {
+        login: user.login,
+        email: user.email,
+        id: user.id,
+        repos: user.public_repos + user.total_private_repos
+      },
+      orgs,
+      stats: {
+        public_repos: user.public_repos,
+        private_repos: user.total_private_repos
+      }
+    };
+  }
+
+  async listEntities(kind: string, _scope?: string, query?: string): Promise<Entity[]> {
+    switch (kind) {
+      case 'repository':
+        return (await this.client.listRepositories()).map(r => ({
+          id: String(r.id),
+          name: r.name,
+          aliases: [r.full_name]
+        }));
+      case 'user':
+        // Assignees are given by login, so a login is the user's ID here
+        return query ? (await this.client.searchUsers(query)).map(u => ({ id: u.login, name: u.login })) : [];
+      default:
+        return [];
+    }
+  }
+
+  async listMembers(status: ConnectorStatus): Promise<MemberAccount[]> {
+    const members = new Map<string, MemberAccount>();
+    if (status.user?.login) {
+      members.set(status.user.login, {
+        connector: this.name,
+        id: status.user.login,
+        handle: status.user.login,
+        ...(status.user.email ? { email: status.user.email } : {})
+      });
+    }
+
+    for (const owner of status.orgs || []) {
+      if (owner.login === status.user?.login) continue;
+      try {
+        for (const member of await this.client.listOrgMembers(owner.login)) {
+          if (!members.has(member.login)) {
+            members.set(member.login, { connector: this.name, id: member.login, handle: member.login });
+          }
+        }
+      } catch (error) {
+        // Owners of repositories shared with the user may be users rather than organizations
+        if ((error as any).status !== 404) throw error;
+      }
+    }
+
+    for (const member of [...members.values()].slice(0, MAX_PROFILE_LOOKUPS)) {
+      const profile = await this.client.getUser(member.id);
+      if (profile.name) member.name = profile.name;
+      if (profile.email && !member.email) member.email = profile.email;
+    }
+    return [...members.values()];
+  }
+
+  writeScope(params: any): string[] {
+    if (typeof params.repo !== 'string') return [];
+    return [params.repo.includes('/') ? params.repo : `${params.owner}/${params.repo}`];
+  }
+
+  isEntityId(value: string): boolean {
+    return /^\d+$/.test(value);
+  }
+
+  protected async ping(): Promise<CredentialInfo> {
+    const { expires_at, scopes } = await this.client.getTokenInfo();
+    return { expires_at, scopes };
+  }
+
+  protected useToken(token: string): void {
+    this.client.setToken(token);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * GitHub Client
+ * Wraps Octokit for identity and repository discovery
+ */
+
+import { Octokit } from '@octokit/rest';
+import { requireToken } from './errors';
+import { quotaTracker } from '../quota-tracker';
+
+export interface GitHubClientOptions {
+  token?: string;
+  baseUrl?: string;
+}
+
+export interface GitHubUser {
+  id: number;
+  login: string;
+  email: string | null;
+  public_repos: number;
+  total_private_repos: number;
+}
+
+export interface GitHubRepository {
+  id: number;
+  name: string;
+  full_name: string;
+  owner: string;
+  private: boolean;
+}
+
+export interface GitHubProfile {
+  id: number;
+  login: string;
+  name: string | null;
+  /** Only the public email */
+  email: string | null;
+}
+
+export interface GitHubTokenInfo {
+  login: string;
+  /** Only set for tokens created with an expiry */
+  expires_at?: string;
+  /** Only reported for classic tokens; fine-grained tokens have no OAuth scopes */
+  scopes?: string[];
+}
+
+export class GitHubClient {
+  private token: string | undefined;
+  private baseUrl: string | undefined;
+  private octokit: Octokit | null = null;
+
+  constructor(options: GitHubClientOptions = {}) {
+    this.token = options.token ?? process.env.GITHUB_TOKEN;
+    this.baseUrl = options.baseUrl ?? process.env.GITHUB_API_URL;
+  }
+
+  /**
+   * Switch to another token, e.g. while rotating credentials
+   */
+  setToken(token: string): void {
+    this.token = token;
+    this.octokit = null;
+  }
+
+  /**
+   * Get the user that owns the token
+   */
+  async getAuthenticatedUser(): Promise<GitHubUser> {
+    const { data } = await this.client().rest.users.getAuthenticated();
+    return {
+      id: data.id,
+      login: data.login,
+      email: data.email,
+      public_repos: data.public_repos,
+      total_private_repos: 'total_private_repos' in data ? data.total_private_repos ?? 0 : 0
+    };
+  }
+
+  /**
+   * Identify the token's user along with its expiry and OAuth scopes
+   */
+  async getTokenInfo(): Promise<GitHubTokenInfo> {
+    const { data, headers } = await this.client().rest.users.getAuthenticated();
+    const expiration = headers['github-authentication-token-expiration'];
+    const scopes = headers['x-oauth-scopes'];
+    const expiresAt = expiration ? Date.parse(String(expiration)) : NaN;
+
+    return {
+      login: data.login,
+      expires_at: Number.isNaN(expiresAt) ? undefined : new Date(expiresAt).toISOString(),
+      scopes: scopes === undefined ? undefined : String(scopes).split(',').map(s => s.trim()).filter(Boolean)
+    };
+  }
+
+  /**
+   * List every repository the user can access
+   */
+  async listRepositories(): Promise<GitHubRepository[]> {
+    const octokit = this.client();
+    const repos = await octokit.paginate(octokit.rest.repos.listForAuthenticatedUser, { per_page: 100 });
+
+    return repos.map(repo => ({
+      id: repo.id,
+      name: repo.name,
+      full_name: repo.full_name,
+      owner: repo.owner.login,
+      private: repo.private
+    }));
+  }
+
+  /**
+   * Logins of an organization's members (404s for user accounts)
+   */
+  async listOrgMembers(org: string): Promise<{ id: number; login: string }[]> {
+    const octokit = this.client();
+    const members = await octokit.paginate(octokit.rest.orgs.listMembers, { org, per_page: 100 });
+    return members.map(member => ({ id: member.id, login: member.login }));
+  }
+
+  /**
+   * Public profile of a user
+   */
+  async getUser(login: string): Promise<GitHubProfile> {
+    const { data } = await this.client().rest.users.getByUsername({ username: login });
+    return { id: data.id, login: data.login, name: data.name, email: data.email };
+  }
+
+  /**
+   * Users whose login, name or public email matches a query
+   */
+  async searchUsers(query: string): Promise<{ id: number; login: string }[]> {
+    const { data } = await this.client().rest.search.users({ q: query, per_page: 30 });
+    return data.items.map(user => ({ id: user.id, login: user.login }));
+  }
+
+  private client(): Octokit {
+    if (!this.octokit) {
+      this.octokit = new Octokit({
+        auth: requireToken('github', this.token, 'GITHUB_TOKEN'),
+        ...(this.baseUrl ? { baseUrl: this.baseUrl } : {})
+      });
+      this.octokit.hook.after('request', response => quotaTracker.record('github', response.headers as Record<string, string>));
+    }
+    return this.octokit;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Linear Connector
+ */
+
+import { LinearClient } from './linear';
+import { BaseConnector, ConnectorDetails } from './base';
+import { findByKey, issueKeyPrefix, issueKeyPrefixes, selectDefault } from './scopes';
+import { linearPagination } from '../pagination';
+import { ChainRule, ConnectorStatus, Entity, IdentifierRule, MemberAccount, ResolutionRule, ToolCall } from '../types';
+
+/** Params that name an existing issue, e.g. id: "ENG-123" */
+const ISSUE_PARAMS = ['id', 'issueId'];
+
+export class LinearConnector extends BaseConnector {
+  readonly name = 'linear';
+  readonly displayName = 'Linear';
+  readonly toolPrefix = 'linear';
+  readonly pagination = linearPagination;
+
+  readonly identifierRules: IdentifierRule[] = [
+    {
+      param: 'teamId',
+      description: 'Linear team ID',
+      resolve: (status, params) => {
+        const byKey = findByKey(status.teams, params.teamKey, t => [t.key]);
+        if (byKey) return { value: byKey.id, hint: `team key "${params.teamKey}"` };
+
+        const byName = findByKey(status.teams, params.teamName, t => [t.name]);
+        if (byName) return { value: byName.id, hint: `team name "${params.teamName}"` };
+
+        for (const prefix of issueKeyPrefixes(params)) {
+          const byPrefix = findByKey(status.teams, prefix, t => [t.key]);
+          if (byPrefix) return { value: byPrefix.id, hint: `issue key prefix "${prefix}"` };
+        }
+
+        return status.team ? { value: status.team.id } : undefined;
+      }
+    }
+  ];
+
+  readonly resolutionRules: ResolutionRule[] = [
+    { param: 'teamName', kind: 'team', target: 'teamId' },
+    { param: 'projectName', kind: 'project', target: 'projectId' },
+    { param: 'assignee', kind: 'user', target: 'assigneeId' },
+    { param: 'labels', kind: 'label', target: 'labelIds', multiple: true },
+    { param: 'name', kind: 'team', target: 'id', tools: /_(get|update|delete|archive)_team$/ },
+    { param: 'name', kind: 'project', target: 'id', tools: /_(get|update|delete|archive)_project$/ }
+  ];
+
+  readonly chainRules: ChainRule[] = [
+    {
+      trigger: 'create_issue',
+      param: 'labels',
+      build: (call, prefix) => [{
+        tool: `${prefix}add_labels`,
+        params: { issueId: '$steps.0.id', labelIds: call.params.labelIds || call.params.labels }
+      }]
+    }
+  ];
+
+  readonly compensations = {
+    create_issue: (_call: ToolCall, prefix: string) => ({ tool: `${prefix}delete_issue`, params: { id: '$self.id' } }),
+    create_project: (_call: ToolCall, prefix: string) => ({ tool: `${prefix}delete_project`, params: { id: '$self.id' } })
+  };
+
+  /**
+   * @param defaultTeam Team id, key or name injected when the call gives no hint
+   */
+  constructor(
+    private client: LinearClient = new LinearClient(),
+    private defaultTeam?: string
+  ) {
+    super();
+  }
+
+  protected async discover(): Promise<ConnectorDetails> {
+    const user = await this.client.getCurrentUser();
+    const teams = await this.client.getTeams();
+
+    const scopes = teams.map(team => ({
+      name: team.name,
+      key: team.key,
+      id: team.id
+    }));
+    const selected = selectDefault(scopes, this.defaultTeam, t => [t.id, t.key, t.name]);
+
+    return {
+      user: {
+        name: user.name,
+        email: user.email,
+        id: user.id,
+        admin: user.admin
+      },
+      team: selected || null,
+      teams: scopes
+    };
+  }
+
+  async listEntities(kind: string): Promise<Entity[]> {
+    switch (kind) {
+      case 'team':
+        return (await this.client.getTeams()).map(t => ({ id: t.id, name: t.name, aliases: [t.key] }));
+      case 'project':
+        return this.client.getProjects();
+      case 'user':
+        return (await this.client.getUsers()).map(u => ({ id: u.id, name: u.name, aliases: [u.email] }));
+      case 'label':
+        return this.client.getLabels();
+      default:
+        return [];
+    }
+  }
+
+  async listMembers(): Promise<MemberAccount[]> {
+    return (await this.client.getUsers()).map(u => ({
+      connector: this.name,
+      id: u.id,
+      name: u.name,
+      email: u.email,
+      handle: u.displayName
+    }));
+  }
+
+  /**
+   * Team keys the write lands in: the team params and issue key params, each on its own, so a
+   * teamKey naming another team than teamId adds a target instead of vouching for it. Free text
+   * (titles, descriptions) never counts, whatever issue keys it mentions.
+   */
+  writeScope(params: any, status?: ConnectorStatus): string[] {
+    const byId = params.teamId && (status?.teams?.find((t: any) => t.id === params.teamId)?.key ?? params.teamId);
+    const byKey = params.teamKey && (findByKey<any>(status?.teams, params.teamKey, t => [t.key])?.key ?? params.teamKey);
+    const issues = ISSUE_PARAMS.map(param => issueKeyPrefix(params[param]));
+    return [...new Set([byId, byKey, ...issues].filter(Boolean))];
+  }
+
+  isEntityId(value: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+  }
+
+  protected async ping(): Promise<void> {
+    await this.client.getCurrentUser();
+  }
+
+  protected useToken(token: string): void {
+    this.client.setToken(token);
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Linear Client
+ * Wraps the Linear SDK for identity and team discovery
+ */
+
+import { LinearClient as LinearSDK } from '@linear/sdk';
+import { requireToken } from './errors';
+import { quotaTracker } from '../quota-tracker';
+
+export interface LinearClientOptions {
+  apiKey?: string;
+  apiUrl?: string;
+}
+
+export interface LinearUser {
+  id: string;
+  name: string;
+  email: string;
+  admin: boolean;
+  /** Set for organization members, not the viewer */
+  displayName?: string;
+}
+
+export interface LinearTeam {
+  id: string;
+  name: string;
+  key: string;
+}
+
+export interface LinearNamed {
+  id: string;
+  name: string;
+}
+
+export interface LinearIssueRef {
+  id: string;
+  identifier: string;
+  url: string;
+}
+
+export interface LinearIssueInput {
+  teamId: string;
+  title: string;
+  description?: string;
+  /** 0 none, 1 urgent, 2 high, 3 medium, 4 low */
+  priority?: number;
+  labelIds?: string[];
+}
+
+interface Page<T> {
+  nodes: T[];
+  pageInfo: { hasNextPage: boolean; endCursor?: string | null };
+}
+
+const PAGE_SIZE = 100;
+
+// Queries go through the SDK's rawRequest, which unlike its typed models exposes the response headers
+const VIEWER = `query viewer {
+  viewer { id name email admin }
+}`;
+
+const TEAMS = `query teams($first: Int, $after: String) {
+  teams(first: $first, after: $after) { nodes { id name key } pageInfo { hasNextPage endCursor } }
+}`;
+
+const USERS = `query users($first: Int, $after: String) {
+  users(first: $first, after: $after) { nodes { id name email admin displayName } pageInfo { hasNextPage endCursor } }
+}`;
+
+const PROJECTS = `query projects($first: Int, $after: String) {
+  projects(first: $first, after: $after) { nodes { id name } pageInfo { hasNextPage endCursor } }
+}`;
+
+const LABELS = `query issueLabels($first: Int, $after: String) {
+  issueLabels(first: $first, after: $after) { nodes { id name } pageInfo { hasNextPage endCursor } }
+}`;
+
+const ISSUES = `query issues($first: Int, $filter: IssueFilter) {
+  issues(first: $first, filter: $filter) { nodes { id identifier url } }
+}`;
+
+const CREATE_ISSUE = `mutation issueCreate($input: IssueCreateInput!) {
+  issueCreate(input: $input) { success issue { id identifier url } }
+}`;
+
+const CREATE_COMMENT = `mutation commentCreate($input: CommentCreateInput!) {
+  commentCreate(input: $input) { success }
+}`;
+
+const WORKFLOW_STATES = `query workflowStates($first: Int, $filter: WorkflowStateFilter) {
+  workflowStates(first: $first, filter: $filter) { nodes { id } }
+}`;
+
+const UPDATE_ISSUE = `mutation issueUpdate($id: String!, $input: IssueUpdateInput!) {
+  issueUpdate(id: $id, input: $input) { success }
+}`;
+
+export class LinearClient {
+  private apiKey: string | undefined;
+  private apiUrl: string | undefined;
+  private sdk: LinearSDK | null = null;
+
+  constructor(options: LinearClientOptions = {}) {
+    this.apiKey = options.apiKey ?? process.env.LINEAR_API_KEY;
+    this.apiUrl = options.apiUrl ?? process.env.LINEAR_API_URL;
+  }
+
+  /**
+   * Switch to another API key, e.g. while rotating credentials
+   */
+  setToken(apiKey: string): void {
+    this.apiKey = apiKey;
+    this.sdk = null;
+  }
+
+  /**
+   * Get the user that owns the API key
+   */
+  async getCurrentUser(): Promise<LinearUser> {
+    const { viewer } = await this.request<{ viewer: LinearUser }>(VIEWER);
+    return {
+      id: viewer.id,
+      name: viewer.name,
+      email: viewer.email,
+      admin: viewer.admin
+    };
+  }
+
+  /**
+   * List every team the user can access
+   */
+  async getTeams(): Promise<LinearTeam[]> {
+    const teams = await this.fetchAll<LinearTeam>('teams', TEAMS);
+
+    return teams.map(team => ({
+      id: team.id,
+      name: team.name,
+      key: team.key
+    }));
+  }
+
+  /**
+   * List active users in the organization
+   */
+  async getUsers(): Promise<LinearUser[]> {
+    const users = await this.fetchAll<LinearUser>('users', USERS);
+
+    return users.map(user => ({
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      admin: user.admin,
+      displayName: user.displayName
+    }));
+  }
+
+  /**
+   * List projects in the organization
+   */
+  async getProjects(): Promise<LinearNamed[]> {
+    const projects = await this.fetchAll<LinearNamed>('projects', PROJECTS);
+    return projects.map(project => ({ id: project.id, name: project.name }));
+  }
+
+  /**
+   * List issue labels (workspace and team labels)
+   */
+  async getLabels(): Promise<LinearNamed[]> {
+    const labels = await this.fetchAll<LinearNamed>('issueLabels', LABELS);
+    return labels.map(label => ({ id: label.id, name: label.name }));
+  }
+
+  /**
+   * Find an open (not completed or canceled) issue in a team by exact title
+   */
+  async findOpenIssue(teamId: string, title: string): Promise<LinearIssueRef | null> {
+    const { issues } = await this.request<{ issues: Page<LinearIssueRef> }>(ISSUES, {
+      first: 1,
+      filter: {
+        team: { id: { eq: teamId } },
+        title: { eq: title },
+        state: { type: { nin: ['completed', 'canceled'] } }
+      }
+    });
+    const issue = issues.nodes[0];
+    return issue ? { id: issue.id, identifier: issue.identifier, url: issue.url } : null;
+  }
+
+  /**
+   * Create an issue
+   */
+  async createIssue(input: LinearIssueInput): Promise<LinearIssueRef> {
+    const { issueCreate } = await this.request<{ issueCreate: { issue?: LinearIssueRef | null } }>(CREATE_ISSUE, { input });
+    const issue = issueCreate.issue;
+    if (!issue) {
+      throw new Error(`Linear did not return the created issue "${input.title}"`);
+    }
+    return { id: issue.id, identifier: issue.identifier, url: issue.url };
+  }
+
+  /**
+   * Add a markdown comment to an issue
+   */
+  async createComment(issueId: string, body: string): Promise<void> {
+    await this.request(CREATE_COMMENT, { input: { issueId, body } });
+  }
+
+  /**
+   * Move an issue to its team's first completed workflow state
+   */
+  async completeIssue(teamId: string, issueId: string): Promise<void> {
+    const { workflowStates } = await this.request<{ workflowStates: Page<{ id: string }> }>(WORKFLOW_STATES, {
+      first: 1,
+      filter: { team: { id: { eq: teamId } }, type: { eq: 'completed' } }
+    });
+    const completed = workflowStates.nodes[0];
+    if (completed) {
+      await this.request(UPDATE_ISSUE, { id: issueId, input: { stateId: completed.id } });
+    }
+  }
+
+  /**
+   * Fetch every page of a connection
+   * @param field The connection's field in the query result, e.g. teams
+   */
+  private async fetchAll<T>(field: string, document: string): Promise<T[]> {
+    const nodes: T[] = [];
+    let after: string | undefined;
+
+    do {
+      const data = await this.request<Record<string, Page<T>>>(document, { first: PAGE_SIZE, ...(after ? { after } : {}) });
+      const page = data[field];
+      nodes.push(...page.nodes);
+      after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor ?? undefined : undefined;
+    } while (after);
+
+    return nodes;
+  }
+
+  /**
+   * Run a GraphQL document, recording the quota headers of every successful response
+   */
+  private async request<T>(document: string, variables?: Record<string, unknown>): Promise<T> {
+    const response = await this.client().client.rawRequest<T, Record<string, unknown>>(document, variables);
+    quotaTracker.record('linear', response.headers);
+    return response.data as T;
+  }
+
+  private client(): LinearSDK {
+    if (!this.sdk) {
+      this.sdk = new LinearSDK({
+        apiKey: requireToken('linear', this.apiKey, 'LINEAR_API_KEY'),
+        ...(this.apiUrl ? { apiUrl: this.apiUrl } : {})
+      });
+    }
+    return this.sdk;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Notion Connector
+ */
+
+import { NotionClient } from './notion';
+import { BaseConnector, ConnectorDetails } from './base';
+import { notionPagination } from '../pagination';
+import { Entity, IdentifierRule, MemberAccount, ResolutionRule, ToolCall } from '../types';
+
+export class NotionConnector extends BaseConnector {
+  readonly name = 'notion';
+  readonly displayName = 'Notion';
+  readonly toolPrefix = 'notion';
+  readonly pagination = notionPagination;
+
+  readonly identifierRules: IdentifierRule[] = [
+    {
+      param: 'workspace_id',
+      description: 'Notion workspace ID',
+      resolve: status => status.workspace ? { value: status.workspace.id } : undefined
+    }
+  ];
+
+  readonly resolutionRules: ResolutionRule[] = [
+    { param: 'databaseName', kind: 'database', target: 'database_id', search: true },
+    { param: 'pageName', kind: 'page', target: 'page_id', search: true },
+    { param: 'assignee', kind: 'user', target: 'assignee' }
+  ];
+
+  // Notion has no hard delete; archiving moves the page to trash
+  readonly compensations = {
+    create_page: (_call: ToolCall, prefix: string) => ({
+      tool: `${prefix}update_page`,
+      params: { page_id: '$self.id', archived: true }
+    })
+  };
+
+  constructor(private client: NotionClient = new NotionClient()) {
+    super();
+  }
+
+  protected async discover(): Promise<ConnectorDetails> {
+    const bot = await this.client.getBotUser();
+    const workspace = {
+      name: bot.bot.workspace_name,
+      id: bot.bot.workspace_id,
+      owner: bot.bot.owner?.user?.person?.email,
+      plan: bot.bot.workspace_limits ? 'Plus+AI' : 'Basic'
+    };
+
+    // An integration token is scoped to exactly one workspace
+    return {
+      workspace,
+      workspaces: [workspace],
+      bot: {
+        id: bot.id,
+        name: bot.name
+      }
+    };
+  }
+
+  async listEntities(kind: string, _scope?: string, query?: string): Promise<Entity[]> {
+    if (kind === 'user') {
+      return (await this.client.listUsers()).map(u => ({ id: u.id, name: u.name || u.id, aliases: u.email ? [u.email] : [] }));
+    }
+    if (kind !== 'page' && kind !== 'database') return [];
+
+    const results = await this.client.search(query || '', kind);
+    return results.map(r => ({ id: r.id, name: r.title }));
+  }
+
+  async listMembers(): Promise<MemberAccount[]> {
+    return (await this.client.listUsers()).map(u => ({
+      connector: this.name,
+      id: u.id,
+      ...(u.name ? { name: u.name } : {}),
+      ...(u.email ? { email: u.email } : {})
+    }));
+  }
+
+  writeScope(params: any): string[] {
+    return [
+      params.database_id,
+      params.page_id,
+      params.parent?.database_id,
+      params.parent?.page_id
+    ].filter(Boolean);
+  }
+
+  isEntityId(value: string): boolean {
+    return /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i.test(value);
+  }
+
+  protected async ping(): Promise<void> {
+    await this.client.getBotUser();
+  }
+
+  protected useToken(token: string): void {
+    this.client.setToken(token);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Notion Client
+ * Wraps the Notion SDK for integration identity and member discovery and the status dashboard database
+ */
+
+import { Client } from '@notionhq/client';
+import { requireToken } from './errors';
+import { quotaTracker } from '../quota-tracker';
+
+export interface NotionClientOptions {
+  token?: string;
+  baseUrl?: string;
+}
+
+export interface NotionBotUser {
+  id: string;
+  name: string | null;
+  bot: {
+    workspace_name?: string | null;
+    workspace_id?: string;
+    workspace_limits?: any;
+    owner?: {
+      type: 'user' | 'workspace';
+      user?: { person?: { email?: string } };
+    };
+  };
+}
+
+export interface NotionPerson {
+  id: string;
+  name: string | null;
+  /** Only visible to integrations with the user information capability */
+  email?: string;
+}
+
+export interface NotionSearchResult {
+  id: string;
+  object: 'page' | 'database';
+  title: string;
+}
+
+export class NotionClient {
+  private token: string | undefined;
+  private baseUrl: string | undefined;
+  private notion: Client | null = null;
+
+  constructor(options: NotionClientOptions = {}) {
+    this.token = options.token ?? process.env.NOTION_API_KEY;
+    this.baseUrl = options.baseUrl ?? process.env.NOTION_API_URL;
+  }
+
+  /**
+   * Switch to another integration token, e.g. while rotating credentials
+   */
+  setToken(token: string): void {
+    this.token = token;
+    this.notion = null;
+  }
+
+  /**
+   * Get the bot user for the integration token
+   */
+  async getBotUser(): Promise<NotionBotUser> {
+    const me = await this.client().users.me({});
+    if (me.type !== 'bot') {
+      throw new Error('Notion token does not belong to an integration bot');
+    }
+    return me as unknown as NotionBotUser;
+  }
+
+  /**
+   * Every person (not bot) in the workspace
+   */
+  async listUsers(): Promise<NotionPerson[]> {
+    const people: NotionPerson[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.client().users.list({ page_size: 100, ...(cursor ? { start_cursor: cursor } : {}) });
+      for (const user of response.results as any[]) {
+        if (user.type !== 'person') continue;
+        people.push({ id: user.id, name: user.name, email: user.person?.email });
+      }
+      cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+    } while (cursor);
+
+    return people;
+  }
+
+  /**
+   * Search pages or databases shared with the integration by title
+   */
+  async search(query: string, object: 'page' | 'database'): Promise<NotionSearchResult[]> {
+    const response = await this.client().search({
+      query,
+      filter: { property: 'object', value: object },
+      page_size: 100
+    });
+
+    return response.results.map((result: any) => ({
+      id: result.id,
+      object: result.object,
+      title: extractTitle(result)
+    }));
+  }
+
+  /**
+   * Property name → type (title, select, number...) of a database
+   */
+  async getDatabaseProperties(databaseId: string): Promise<Record<string, string>> {
+    const database: any = await this.client().databases.retrieve({ database_id: databaseId });
+    return Object.fromEntries(Object.entries(database.properties || {}).map(([name, property]: [string, any]) => [name, property.type]));
+  }
+
+  /**
+   * Add columns to a database, e.g. { Status: { select: {} } }
+   */
+  async addDatabaseProperties(databaseId: string, properties: Record<string, any>): Promise<void> {
+    await this.client().databases.update({ database_id: databaseId, properties });
+  }
+
+  /**
+   * First page in a database whose title property equals title
+   */
+  async findDatabasePage(databaseId: string, titleProperty: string, title: string): Promise<string | null> {
+    const response = await this.client().databases.query({
+      database_id: databaseId,
+      filter: { property: titleProperty, title: { equals: title } },
+      page_size: 1
+    });
+    return response.results[0]?.id ?? null;
+  }
+
+  async createDatabasePage(databaseId: string, properties: Record<string, any>): Promise<string> {
+    const page = await this.client().pages.create({ parent: { database_id: databaseId }, properties });
+    return page.id;
+  }
+
+  async updatePageProperties(pageId: string, properties: Record<string, any>): Promise<void> {
+    await this.client().pages.update({ page_id: pageId, properties });
+  }
+
+  private client(): Client {
+    if (!this.notion) {
+      this.notion = new Client({
+        auth: requireToken('notion', this.token, 'NOTION_API_KEY'),
+        ...(this.baseUrl ? { baseUrl: this.baseUrl } : {}),
+        fetch: async (url, init) => {
+          const response = await fetch(url, init);
+          quotaTracker.record('notion', response.headers);
+          return response;
+        }
+      });
+    }
+    return this.notion;
+  }
+}
+
+/**
+ * Plain-text title of a page or database search result
+ */
+function extractTitle(result: any): string {
+  const titleProperty: any = Object.values(result.properties || {}).find((p: any) => p.type === 'title');
+  const richText: any[] = result.object === 'database' ? result.title : titleProperty?.title;
+
+  return (richText || []).map(part => part.plain_text).join('');
+}
@@ -0,0 +1,77 @@
+/**
+ * Connector Registry
+ * Tracks available connectors and which of them are active
+ */
+
+import { Connector } from '../types';
+import { AsanaConnector } from './asana-connector';
+import { LinearConnector } from './linear-connector';
+import { GitHubConnector } from './github-connector';
+import { NotionConnector } from './notion-connector';
+
+export class ConnectorRegistry {
+  private connectors = new Map<string, Connector>();
+  private enabled: Set<string> | null;
+
+  /**
+   * @param enabled Names of active connectors; all registered connectors are active when omitted
+   */
+  constructor(enabled?: string[]) {
+    this.enabled = enabled ? new Set(enabled) : null;
+  }
+
+  /**
+   * Register a connector, replacing any existing one with the same name
+   */
+  register(connector: Connector): this {
+    this.connectors.set(connector.name, connector);
+    return this;
+  }
+
+  /**
+   * Get a registered connector by name, whether active or not
+   */
+  get(name: string): Connector | undefined {
+    return this.connectors.get(name);
+  }
+
+  /**
+   * Check whether a connector is registered and active
+   */
+  isActive(name: string): boolean {
+    return this.connectors.has(name) && (!this.enabled || this.enabled.has(name));
+  }
+
+  /**
+   * List active connectors in registration order
+   */
+  active(): Connector[] {
+    return [...this.connectors.values()].filter(c => this.isActive(c.name));
+  }
+
+  /**
+   * Find the active connector that owns a tool by its name prefix
+   */
+  forTool(tool: string): Connector | undefined {
+    return this.active().find(c => tool.startsWith(c.toolPrefix));
+  }
+
+  /**
+   * Names from the enabled list that have no registered connector
+   */
+  unknown(): string[] {
+    return this.enabled ? [...this.enabled].filter(name => !this.connectors.has(name)) : [];
+  }
+}
+
+/**
+ * Create a registry holding the built-in connectors
+ * @param defaultScopes Per connector, the workspace/team/owner injected when a call gives no hint
+ */
+export function createDefaultRegistry(enabled?: string[], defaultScopes: Record<string, string> = {}): ConnectorRegistry {
+  return new ConnectorRegistry(enabled)
+    .register(new AsanaConnector(undefined, defaultScopes.asana))
+    .register(new LinearConnector(undefined, defaultScopes.linear))
+    .register(new GitHubConnector(undefined, defaultScopes.github))
+    .register(new NotionConnector());
+}
@@ -0,0 +1,50 @@
+/**
+ * Scope Helpers
+ * Selecting workspaces/teams/owners from calibration data and call hints
+ */
+
+import { logger } from '../logging';
+
+type KeyFn<T> = (item: T) => Array<string | undefined | null>;
+
+/**
+ * Find an item whose keys match a value, case-insensitively
+ */
+export function findByKey<T>(items: T[] | undefined, value: string | undefined, keys: KeyFn<T>): T | undefined {
+  if (!items || !value) return undefined;
+  const needle = value.toLowerCase();
+  return items.find(item => keys(item).some(key => key?.toLowerCase() === needle));
+}
+
+/**
+ * Pick the configured default, falling back to the first item
+ */
+export function selectDefault<T>(items: T[], preferred: string | undefined, keys: KeyFn<T>): T | undefined {
+  if (preferred) {
+    const match = findByKey(items, preferred, keys);
+    if (match) return match;
+    logger.warn('Configured default scope not found, using first available', { preferred });
+  }
+  return items[0];
+}
+
+/**
+ * Collect issue key prefixes (ENG from ENG-123) from top-level string params
+ */
+export function issueKeyPrefixes(params: any): string[] {
+  const prefixes: string[] = [];
+  for (const value of Object.values(params || {})) {
+    if (typeof value !== 'string') continue;
+    for (const match of value.matchAll(/\b([A-Z][A-Z0-9]{0,9})-\d+\b/g)) {
+      prefixes.push(match[1]);
+    }
+  }
+  return prefixes;
+}
+
+/**
+ * Prefix of a param that is exactly an issue key (ENG from ENG-123), unlike issueKeyPrefixes ignoring free text
+ */
+export function issueKeyPrefix(value: unknown): string | undefined {
+  return typeof value === 'string' ? /^([A-Z][A-Z0-9]{0,9})-\d+$/.exec(value)?.[1] : undefined;
+}
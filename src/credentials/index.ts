@@ -0,0 +1,63 @@
+/**
+ * Credentials
+ * Opens the credential vault and orders each connector's tokens for rotation
+ */
+
+import * as fs from 'fs';
+import { Credential, CredentialsConfig } from '../types';
+import { logger } from '../logging';
+import { CredentialVault, VaultError } from './vault';
+import { installLogRedaction, redact, redactPII, redactSecrets, registerSecret } from './redact';
+
+export { CredentialVault, VaultError, installLogRedaction, redact, redactPII, redactSecrets, registerSecret };
+
+/** Environment variable each built-in connector reads its token from */
+export const TOKEN_ENV_VARS: Record<string, string> = {
+  asana: 'ASANA_PAT',
+  linear: 'LINEAR_API_KEY',
+  github: 'GITHUB_TOKEN',
+  notion: 'NOTION_API_KEY'
+};
+
+/**
+ * The vault, or null when no key is configured
+ */
+export function createCredentialVault(config: CredentialsConfig): CredentialVault | null {
+  let key = config.key;
+  if (!key && config.key_file) {
+    try {
+      key = fs.readFileSync(config.key_file, 'utf-8').trim();
+    } catch (error) {
+      throw new VaultError(`Cannot read credential vault key file ${config.key_file}: ${(error as Error).message}`);
+    }
+  }
+
+  if (!key) {
+    if (fs.existsSync(config.vault_path)) {
+      logger.warn('Credential vault exists but no CREDENTIAL_VAULT_KEY is set; using tokens from the environment only', {
+        path: config.vault_path
+      });
+    }
+    return null;
+  }
+  return new CredentialVault(config.vault_path, key);
+}
+
+/**
+ * Stored credentials newest first, then the environment token; every secret is registered for redaction
+ */
+export function credentialsFor(
+  connector: string,
+  vault: CredentialVault | null,
+  env: NodeJS.ProcessEnv = process.env
+): Credential[] {
+  const credentials = vault ? vault.list(connector) : [];
+  const envVar = TOKEN_ENV_VARS[connector];
+  const envToken = envVar ? env[envVar] : undefined;
+  if (envToken && !credentials.some(c => c.secret === envToken)) {
+    credentials.push({ label: 'env', secret: envToken });
+  }
+
+  credentials.forEach(credential => registerSecret(credential.secret));
+  return credentials;
+}
@@ -0,0 +1,89 @@
+/**
+ * Redaction
+ * Masks secrets and personal data in logs and exported state
+ */
+
+import { createHash } from 'crypto';
+import { format } from 'util';
+
+const REDACTED = '[REDACTED]';
+
+/** Token formats masked even when the token was never registered */
+const SECRET_PATTERNS: RegExp[] = [
+  /\bgh[pousr]_[A-Za-z0-9]{20,}\b/g,
+  /\bgithub_pat_[A-Za-z0-9_]{20,}\b/g,
+  /\blin_(?:api|oauth)_[A-Za-z0-9]{20,}\b/g,
+  /\b(?:secret|ntn)_[A-Za-z0-9]{20,}\b/g,
+  /\b\d\/\d{6,}(?:\/\d+)?:[A-Za-z0-9]{16,}\b/g
+];
+
+const BEARER = /\b(Bearer\s+)[A-Za-z0-9._~+/-]+=*/gi;
+const EMAIL = /\b([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})\b/g;
+
+/** Identity fields of user objects, replaced by a stable hash in exports */
+const USER_ID_FIELDS = ['id', 'gid'];
+
+const knownSecrets = new Set<string>();
+let consolePatched = false;
+
+/**
+ * Mask this exact value wherever it appears; short values are ignored to avoid mangling ordinary text
+ */
+export function registerSecret(secret: string | undefined): void {
+  if (secret && secret.length >= 8) knownSecrets.add(secret);
+}
+
+/**
+ * Replace registered secrets, recognisable tokens and bearer credentials
+ */
+export function redactSecrets(text: string): string {
+  let result = text;
+  for (const secret of knownSecrets) {
+    result = result.split(secret).join(REDACTED);
+  }
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, REDACTED);
+  }
+  return result.replace(BEARER, `$1${REDACTED}`);
+}
+
+/**
+ * Secrets plus email addresses, for log lines
+ */
+export function redact(text: string): string {
+  return redactSecrets(text).replace(EMAIL, '$1***@$2');
+}
+
+/**
+ * Deep copy of a state object with secrets and emails masked and user IDs hashed
+ */
+export function redactPII<T>(value: T): T {
+  return walk(value, undefined) as T;
+}
+
+/**
+ * Route every console method through redact(); safe to call more than once
+ */
+export function installLogRedaction(): void {
+  if (consolePatched) return;
+  consolePatched = true;
+
+  for (const method of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    const original = console[method];
+    console[method] = (...args: any[]) => original(redact(format(...args)));
+  }
+}
+
+function walk(value: any, key: string | undefined): any {
+  if (typeof value === 'string') return redact(value);
+  if (Array.isArray(value)) return value.map(item => walk(item, undefined));
+  if (!value || typeof value !== 'object') return value;
+
+  const copy: Record<string, any> = {};
+  for (const [field, child] of Object.entries(value)) {
+    copy[field] = key === 'user' && USER_ID_FIELDS.includes(field) && child !== null && child !== undefined
+      ? `user:${createHash('sha256').update(String(child)).digest('hex').slice(0, 12)}`
+      : walk(child, field);
+  }
+  return copy;
+}
@@ -0,0 +1,147 @@
+/**
+ * Credential Vault
+ * Connector tokens encrypted at rest with AES-256-GCM under a passphrase-derived key
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { Credential } from '../types';
+
+const ALGORITHM = 'aes-256-gcm';
+
+interface VaultFile {
+  version: 1;
+  algorithm: typeof ALGORITHM;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+/**
+ * Reads and writes are synchronous: the vault is small and only touched at startup and from the CLI
+ */
+export class CredentialVault {
+  private credentials: Record<string, Credential[]> | null = null;
+
+  constructor(private vaultPath: string, private passphrase: string) {
+    if (!passphrase) {
+      throw new VaultError('Credential vault key is empty');
+    }
+  }
+
+  get path(): string {
+    return this.vaultPath;
+  }
+
+  /**
+   * Stored credentials for a connector, newest first
+   */
+  list(connector: string): Credential[] {
+    return [...(this.read()[connector] || [])];
+  }
+
+  /**
+   * Connectors with at least one stored credential
+   */
+  connectors(): string[] {
+    const credentials = this.read();
+    return Object.keys(credentials).filter(connector => credentials[connector].length > 0);
+  }
+
+  /**
+   * Store a credential ahead of the existing ones, replacing any with the same label
+   */
+  add(connector: string, label: string, secret: string): Credential {
+    if (!secret.trim()) throw new VaultError('Refusing to store an empty credential');
+
+    const credentials = this.read();
+    const credential: Credential = { label, secret: secret.trim(), added_at: new Date().toISOString() };
+    credentials[connector] = [credential, ...(credentials[connector] || []).filter(c => c.label !== label)];
+    this.write(credentials);
+    return credential;
+  }
+
+  /**
+   * Delete a credential; returns false when no credential has the label
+   */
+  remove(connector: string, label: string): boolean {
+    const credentials = this.read();
+    const existing = credentials[connector] || [];
+    const remaining = existing.filter(c => c.label !== label);
+    if (remaining.length === existing.length) return false;
+
+    if (remaining.length > 0) {
+      credentials[connector] = remaining;
+    } else {
+      delete credentials[connector];
+    }
+    this.write(credentials);
+    return true;
+  }
+
+  private read(): Record<string, Credential[]> {
+    if (this.credentials) return this.credentials;
+    if (!fs.existsSync(this.vaultPath)) {
+      this.credentials = {};
+      return this.credentials;
+    }
+
+    let file: VaultFile;
+    try {
+      file = JSON.parse(fs.readFileSync(this.vaultPath, 'utf-8'));
+    } catch (error) {
+      throw new VaultError(`Credential vault ${this.vaultPath} is unreadable: ${(error as Error).message}`);
+    }
+    if (file.version !== 1 || file.algorithm !== ALGORITHM) {
+      throw new VaultError(`Credential vault ${this.vaultPath} has an unsupported format`);
+    }
+
+    try {
+      const key = deriveKey(this.passphrase, Buffer.from(file.salt, 'base64'));
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+      this.credentials = JSON.parse(plaintext.toString('utf-8'));
+    } catch {
+      // GCM authentication fails identically for a wrong key and a tampered file
+      throw new VaultError(`Cannot decrypt credential vault ${this.vaultPath}: wrong key or corrupted file`);
+    }
+    return this.credentials!;
+  }
+
+  private write(credentials: Record<string, Credential[]>): void {
+    // A fresh salt and IV on every write; reusing an IV with GCM leaks the key stream
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, deriveKey(this.passphrase, salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf-8'), cipher.final()]);
+
+    const file: VaultFile = {
+      version: 1,
+      algorithm: ALGORITHM,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+
+    fs.mkdirSync(path.dirname(this.vaultPath), { recursive: true });
+    const temp = `${this.vaultPath}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.renameSync(temp, this.vaultPath);
+    this.credentials = credentials;
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
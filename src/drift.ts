@@ -0,0 +1,204 @@
+/**
+ * Calibration Drift
+ * Compares calibration snapshots to find identity and scope changes
+ */
+
+import { CalibrationDrift, CalibrationState, ConnectorStatus, DriftChange, DriftSeverity } from './types';
+
+/** Fields that identify a user or scope; a change invalidates injected IDs */
+const IDENTITY_FIELDS = ['id', 'gid', 'login', 'email', 'key'];
+
+/** Scope collections and the field that identifies their entries */
+const COLLECTIONS: Record<string, string[]> = {
+  workspaces: ['gid', 'id'],
+  teams: ['id'],
+  orgs: ['login']
+};
+
+/** Single-valued scopes and identities compared field by field */
+const ENTITIES = ['user', 'workspace', 'team', 'bot'];
+
+const SEVERITY_RANK: Record<DriftSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+/**
+ * Diff two calibration snapshots, connector by connector
+ */
+export function diffCalibration(previous: CalibrationState, current: CalibrationState): CalibrationDrift {
+  const changes: DriftChange[] = [];
+  const names = new Set([...Object.keys(previous.connectors), ...Object.keys(current.connectors)]);
+
+  for (const connector of names) {
+    const before = previous.connectors[connector];
+    const after = current.connectors[connector];
+
+    if (!before) {
+      changes.push({ connector, path: '', kind: 'added', severity: 'info', message: `${connector} connector added` });
+    } else if (!after) {
+      changes.push({ connector, path: '', kind: 'removed', severity: 'warning', message: `${connector} connector removed` });
+    } else {
+      changes.push(...diffConnector(connector, before, after));
+    }
+  }
+
+  return {
+    from: previous.timestamp,
+    to: current.timestamp,
+    severity: highestSeverity(changes),
+    changes
+  };
+}
+
+function diffConnector(connector: string, before: ConnectorStatus, after: ConnectorStatus): DriftChange[] {
+  if (before.status !== after.status) {
+    const severity: DriftSeverity = after.status === 'failed' ? 'critical' : after.status === 'pending' ? 'warning' : 'info';
+    const reason = after.status === 'failed' && after.error ? ` (${after.error})` : '';
+    return [{
+      connector,
+      path: 'status',
+      kind: 'changed',
+      before: before.status,
+      after: after.status,
+      severity,
+      message: `${connector} went from ${before.status} to ${after.status}${reason}`
+    }];
+  }
+
+  // A failed or pending snapshot carries no identity to compare
+  if (after.status !== 'authenticated') return [];
+
+  const changes: DriftChange[] = [];
+  for (const field of ENTITIES) {
+    changes.push(...diffEntity(connector, field, (before as any)[field], (after as any)[field]));
+  }
+  for (const [field, keys] of Object.entries(COLLECTIONS)) {
+    changes.push(...diffCollection(connector, field, keys, (before as any)[field], (after as any)[field]));
+  }
+  return changes;
+}
+
+/**
+ * Compare a single object (user, default scope, bot); a new identity is one change, otherwise each primitive field
+ */
+function diffEntity(connector: string, path: string, before: any, after: any): DriftChange[] {
+  if (!before && !after) return [];
+  if (!before || !after) {
+    return [{
+      connector,
+      path,
+      kind: before ? 'removed' : 'added',
+      before: before ? label(before) : undefined,
+      after: after ? label(after) : undefined,
+      severity: before && path !== 'user' ? 'critical' : 'warning',
+      message: before ? `${connector} ${path} ${label(before)} removed` : `${connector} ${path} ${label(after)} added`
+    }];
+  }
+
+  if (path !== 'user' && identity(before, ['gid', 'id', 'login']) !== identity(after, ['gid', 'id', 'login'])) {
+    return [{
+      connector,
+      path,
+      kind: 'changed',
+      before: label(before),
+      after: label(after),
+      severity: 'critical',
+      message: `${connector} ${path} changed from ${label(before)} to ${label(after)}`
+    }];
+  }
+
+  return diffFields(connector, path, before, after);
+}
+
+/**
+ * Compare scope lists by identity: additions, removals and renames
+ */
+function diffCollection(connector: string, path: string, keys: string[], before: any[] = [], after: any[] = []): DriftChange[] {
+  const changes: DriftChange[] = [];
+  const previous = new Map(before.map(item => [identity(item, keys), item]));
+  const current = new Map(after.map(item => [identity(item, keys), item]));
+
+  for (const [id, item] of previous) {
+    const next = current.get(id);
+    if (!next) {
+      changes.push({
+        connector,
+        path: `${path}[${label(item)}]`,
+        kind: 'removed',
+        before: label(item),
+        severity: 'warning',
+        message: `${connector} ${singular(path)} ${label(item)} removed`
+      });
+    } else {
+      changes.push(...diffFields(connector, `${path}[${label(item)}]`, item, next));
+    }
+  }
+  for (const [id, item] of current) {
+    if (previous.has(id)) continue;
+    changes.push({
+      connector,
+      path: `${path}[${label(item)}]`,
+      kind: 'added',
+      after: label(item),
+      severity: 'info',
+      message: `${connector} ${singular(path)} ${label(item)} added`
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Compare the primitive fields of two objects; nested lists like project names are ignored
+ */
+function diffFields(connector: string, path: string, before: any, after: any): DriftChange[] {
+  const changes: DriftChange[] = [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const field of fields) {
+    const previous = before[field];
+    const next = after[field];
+    if (!isPrimitive(previous) || !isPrimitive(next) || previous === next) continue;
+
+    const severity: DriftSeverity = IDENTITY_FIELDS.includes(field)
+      ? 'critical'
+      : field === 'name' || field === 'owner' ? 'warning' : 'info';
+    changes.push({
+      connector,
+      path: `${path}.${field}`,
+      kind: 'changed',
+      before: previous,
+      after: next,
+      severity,
+      message: `${connector} ${path}.${field} changed from ${format(previous)} to ${format(next)}`
+    });
+  }
+
+  return changes;
+}
+
+function highestSeverity(changes: DriftChange[]): DriftSeverity | undefined {
+  return changes.reduce<DriftSeverity | undefined>(
+    (highest, change) => !highest || SEVERITY_RANK[change.severity] > SEVERITY_RANK[highest] ? change.severity : highest,
+    undefined
+  );
+}
+
+function identity(item: any, keys: string[]): string {
+  const key = keys.find(k => item?.[k] !== undefined && item[k] !== null);
+  return key ? String(item[key]) : JSON.stringify(item);
+}
+
+function label(item: any): string {
+  return String(item.key ?? item.login ?? item.name ?? item.email ?? item.gid ?? item.id ?? '?');
+}
+
+function singular(path: string): string {
+  return path.replace(/s$/, '');
+}
+
+function isPrimitive(value: any): boolean {
+  return value === undefined || value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function format(value: any): string {
+  return value === undefined || value === null ? 'none' : JSON.stringify(value);
+}
@@ -3,23 +3,152 @@
  * Intercepts and enhances tool calls to ensure proper MCP usage
  */
 
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { performance } from 'perf_hooks';
 import { StateManager } from './state-manager';
-import { ToolCall, EnforcementResult } from './types';
+import {
+  ToolCall,
+  AuditEntry,
+  EnforcementResult,
+  CalibrationState,
+  ChainStep,
+  ChainExecutionResult,
+  ChainTemplate,
+  EnforcementConfig,
+  EnforcementRule,
+  GuardrailPolicy,
+  PaginatedResult,
+  ReplayResult,
+  ToolExecutor
+} from './types';
+import { ConnectorRegistry, createDefaultRegistry } from './connectors/registry';
+import { EntityResolver } from './entity-resolver';
+import { defaultPagination } from './pagination';
+import { ChainExecutor } from './chain-executor';
+import { TemplateError, instantiateTemplate, rebaseSteps, templateLabel } from './chain-templates';
+import { QuotaTracker, quotaTracker } from './quota-tracker';
+import { classifyError, withRetry } from './retry';
+import { CircuitBreaker, circuitBreaker } from './circuit-breaker';
+import { RuleEngine, readPath } from './rule-engine';
+import { PolicyEngine, isWriteTool } from './policy-engine';
+import { ResultCache } from './result-cache';
+import { DEFAULT_CONFIG } from './config';
+import { diffEnforcement } from './audit';
+import { currentTrace, logger, withCorrelation, withSpan } from './logging';
+
+const log = logger.child({ component: 'enforcer' });
+
+interface RulePlan {
+  /** ID of the rule enabling pagination, or null */
+  paginate: string | null;
+  /** ID of the rule enabling the connector chain, or null */
+  buildChain: string | null;
+  extraSteps: ChainStep[];
+  chainRules: string[];
+}
 
-export class MCPEnforcer {
-  private stateManager: StateManager;
-  private maxPaginationAttempts = 100;
-  private maxChainDepth = 5;
+interface TemplateExpansion {
+  template: ChainTemplate;
+  /** Steps numbered as in the template: $steps.0 is the call, $steps.N the template's N-th step */
+  steps: ChainStep[];
+}
 
-  constructor() {
-    this.stateManager = new StateManager();
+/**
+ * Emits 'enforce' with each result and the name of the connector that owns the tool
+ */
+export class MCPEnforcer extends EventEmitter {
+  private stateManager: StateManager;
+  private registry: ConnectorRegistry;
+  private resolver: EntityResolver;
+  private quota: QuotaTracker;
+  private ruleEngine: RuleEngine;
+  private breaker: CircuitBreaker;
+  private cache: ResultCache;
+  private policyEngine = new PolicyEngine();
+  private config: EnforcementConfig;
+
+  constructor(
+    config: EnforcementConfig = DEFAULT_CONFIG.enforcement,
+    stateManager: StateManager = new StateManager(),
+    registry: ConnectorRegistry = createDefaultRegistry(),
+    resolver: EntityResolver = new EntityResolver(),
+    quota: QuotaTracker = quotaTracker,
+    ruleEngine: RuleEngine = new RuleEngine(),
+    breaker: CircuitBreaker = circuitBreaker,
+    cache: ResultCache = new ResultCache()
+  ) {
+    super();
+    this.config = config;
+    this.stateManager = stateManager;
+    this.registry = registry;
+    this.resolver = resolver;
+    this.quota = quota;
+    this.ruleEngine = ruleEngine;
+    this.breaker = breaker;
+    this.cache = cache;
   }
 
   /**
    * Enforce proper tool call execution
+   * @param correlationId Joins an existing trace; a new correlation ID is generated when omitted
    */
-  async enforce(toolCall: ToolCall): Promise<EnforcementResult> {
-    console.log(`🛡️  Enforcing tool call: ${toolCall.tool}`);
+  async enforce(toolCall: ToolCall, correlationId?: string): Promise<EnforcementResult> {
+    const connector = this.registry.forTool(toolCall.tool)?.name;
+    return withCorrelation(correlationId, () => withSpan('enforce', { tool: toolCall.tool, connector }, async span => {
+      const timestamp = new Date().toISOString();
+      const started = performance.now();
+      const result = await this.applyEnforcement(toolCall);
+      const durationMs = Math.round((performance.now() - started) * 100) / 100;
+      result.correlation_id = currentTrace()!.correlation_id;
+      span.setAttributes({ outcome: result.outcome, modifications: result.modifications.length });
+      log.info('Enforced tool call', {
+        tool: toolCall.tool,
+        connector,
+        outcome: result.outcome,
+        modifications: result.modifications.length,
+        duration_ms: durationMs
+      });
+
+      if (this.config.audit_log) {
+        await this.stateManager.recordEnforcement({
+          id: randomBytes(6).toString('hex'),
+          timestamp,
+          correlation_id: result.correlation_id,
+          tool: toolCall.tool,
+          connector,
+          outcome: result.outcome,
+          duration_ms: durationMs,
+          result
+        });
+      }
+
+      // Cached reads may be stale once the agent makes this write
+      if (result.outcome !== 'denied') {
+        await this.invalidateCache([result.enhanced, ...(result.chain_operations || []).slice(1)]);
+      }
+
+      this.emit('enforce', result, connector);
+      return result;
+    }));
+  }
+
+  /**
+   * Enforce a recorded call again under the current rules, policies and calibration, and compare.
+   * Nothing is emitted or audited; live conditions (open circuits, rate limits) apply as they are now.
+   */
+  async replay(entry: AuditEntry): Promise<ReplayResult> {
+    return withSpan('replay', { tool: entry.tool, audit_id: entry.id }, async span => {
+      const current = await this.applyEnforcement(entry.result.original);
+      const changes = diffEnforcement(entry.result, current);
+      span.setAttributes({ outcome: current.outcome, changes: changes.length });
+      log.info('Replayed enforcement', { audit_id: entry.id, tool: entry.tool, changes: changes.length });
+      return { entry, current, changes };
+    });
+  }
+
+  private async applyEnforcement(toolCall: ToolCall): Promise<EnforcementResult> {
+    log.debug('Enforcing tool call', { tool: toolCall.tool, params: Object.keys(toolCall.params || {}) });
 
     // Load calibration state
     const state = await this.stateManager.load();
@@ -27,189 +156,509 @@ export class MCPEnforcer {
     // Apply enforcement rules
     const result: EnforcementResult = {
       original: toolCall,
-      enhanced: { ...toolCall },
-      modifications: []
+      enhanced: { ...toolCall, params: { ...toolCall.params } },
+      modifications: [],
+      outcome: 'allowed'
     };
 
+    // Fail fast while the connector is known to be down
+    this.checkCircuit(result);
+    if (result.denied) {
+      return this.deny(result);
+    }
+
     // Rule 1: Auto-inject workspace/team IDs
     this.injectIdentifiers(result, state);
 
-    // Rule 2: Resolve names to IDs if needed
-    await this.resolveIdentifiers(result);
+    // Rule 2: Apply declarative rules (built-in and YAML)
+    const rules = await this.ruleEngine.match(result.enhanced);
+    const plan = this.applyRules(result, rules, state);
+    if (result.denied) {
+      return this.deny(result);
+    }
+
+    // Rule 3: Resolve names to IDs if needed
+    if (this.config.auto_resolve_ids) {
+      await this.resolveIdentifiers(result);
+    }
+
+    // Rule 4: Guardrail policies, checked once targets are resolved
+    const connector = this.registry.forTool(result.enhanced.tool);
+    const decision = this.policyEngine.evaluate(result.enhanced, await this.ruleEngine.policy(), connector, state);
+    if (decision.denied) {
+      result.denied = decision.denied;
+      result.modifications.push(`Denied by policy ${decision.denied.policy}: ${decision.denied.message}`);
+      return this.deny(result);
+    }
+    if (decision.confirmation) {
+      result.confirmation = decision.confirmation;
+      result.outcome = 'confirmation_required';
+      result.modifications.push(`Confirmation required (policy ${decision.confirmation.policy})`);
+    }
 
-    // Rule 3: Enforce pagination completion
-    if (this.requiresPagination(toolCall)) {
+    // Rule 5: Enforce pagination completion
+    if (plan.paginate && this.config.require_pagination_completion) {
       result.enforce_pagination = true;
-      result.modifications.push('Pagination enforcement enabled');
+      result.modifications.push(`Pagination enforcement enabled (rule ${plan.paginate})`);
     }
 
-    // Rule 4: Chain dependent operations
-    if (this.requiresChaining(toolCall)) {
-      result.chain_operations = await this.buildOperationChain(toolCall);
-      result.modifications.push('Operation chaining configured');
+    // Rule 6: Chain dependent operations, then cross-connector templates
+    const templates = await this.expandTemplates(result, state);
+    if (plan.buildChain || plan.extraSteps.length > 0) {
+      result.chain_operations = this.capChain(result, [
+        ...(plan.buildChain ? this.buildOperationChain(result.enhanced) : [{ ...result.enhanced }]),
+        ...plan.extraSteps
+      ]);
+      const chainRules = [plan.buildChain, ...plan.chainRules].filter(Boolean);
+      result.modifications.push(`Operation chaining configured (rules ${chainRules.join(', ')})`);
     }
+    this.appendTemplates(result, templates);
+
+    // Rule 7: Hold back calls that would exhaust the connector's rate limit
+    this.applyRateLimit(result);
+    if (result.denied) {
+      return this.deny(result);
+    }
+
+    return result;
+  }
 
+  /**
+   * Finish a denied result: no enhanced call is offered, only the denial
+   */
+  private deny(result: EnforcementResult): EnforcementResult {
+    result.outcome = 'denied';
+    result.enhanced = result.original;
+    delete result.enforce_pagination;
+    delete result.chain_operations;
+    delete result.delay_ms;
+    delete result.confirmation;
+    log.warn('Denied tool call', { tool: result.original.tool, code: result.denied!.code, reason: result.denied!.message });
     return result;
   }
 
   /**
    * Auto-inject workspace/team identifiers from calibration state
    */
-  private injectIdentifiers(result: EnforcementResult, state: any): void {
+  private injectIdentifiers(result: EnforcementResult, state: CalibrationState | null): void {
     const { tool, params } = result.enhanced;
 
-    // Asana workspace injection
-    if (tool.startsWith('asana') && !params.workspace && state?.connectors?.asana?.workspace) {
-      result.enhanced.params.workspace = state.connectors.asana.workspace.gid;
-      result.modifications.push('Injected Asana workspace ID');
+    const connector = this.registry.forTool(tool);
+    const status = connector && state?.connectors?.[connector.name];
+    if (!connector || !status) return;
+
+    for (const rule of connector.identifierRules) {
+      if (params[rule.param]) continue;
+
+      const scoped = rule.resolve(status, params);
+      if (scoped && scoped.value !== undefined && scoped.value !== null) {
+        result.enhanced.params[rule.param] = scoped.value;
+        result.modifications.push(
+          `Injected ${rule.description}` + (scoped.hint ? ` (selected by ${scoped.hint})` : '')
+        );
+      }
     }
+  }
+
+  /**
+   * Apply matched rules in order: injections and blocks take effect immediately,
+   * pagination and chaining decisions are returned for later stages
+   */
+  private applyRules(
+    result: EnforcementResult,
+    rules: EnforcementRule[],
+    state: CalibrationState | null
+  ): RulePlan {
+    const plan: RulePlan = { paginate: null, buildChain: null, extraSteps: [], chainRules: [] };
+
+    for (const rule of rules) {
+      const { actions } = rule;
+
+      if (actions.block !== undefined) {
+        result.denied = { code: 'blocked_by_rule', message: actions.block };
+        result.modifications.push(`Blocked by rule ${rule.id}: ${actions.block}`);
+        return plan;
+      }
+
+      for (const [param, path] of Object.entries(actions.inject || {})) {
+        if (result.enhanced.params[param] !== undefined) continue;
+
+        const value = readPath(state, path);
+        if (value !== undefined && value !== null) {
+          result.enhanced.params[param] = value;
+          result.modifications.push(`Injected ${param} from ${path} (rule ${rule.id})`);
+        }
+      }
 
-    // Linear team injection
-    if (tool.startsWith('linear') && !params.teamId && state?.connectors?.linear?.team) {
-      result.enhanced.params.teamId = state.connectors.linear.team.id;
-      result.modifications.push('Injected Linear team ID');
+      // Later rules override earlier ones, so YAML rules can switch built-ins off
+      if (actions.paginate !== undefined) {
+        plan.paginate = actions.paginate ? rule.id : null;
+        if (!actions.paginate) result.modifications.push(`Pagination enforcement disabled (rule ${rule.id})`);
+      }
+      if (actions.build_chain !== undefined) {
+        plan.buildChain = actions.build_chain ? rule.id : null;
+        if (!actions.build_chain) result.modifications.push(`Operation chaining disabled (rule ${rule.id})`);
+      }
+      if (actions.chain) {
+        plan.extraSteps.push(...actions.chain.map(step => ({ ...step, params: { ...step.params } })));
+        plan.chainRules.push(rule.id);
+      }
     }
 
-    // Notion workspace injection
-    if (tool.startsWith('notion') && !params.workspace_id && state?.connectors?.notion?.workspace) {
-      result.enhanced.params.workspace_id = state.connectors.notion.workspace.id;
-      result.modifications.push('Injected Notion workspace ID');
+    return plan;
+  }
+
+  /**
+   * Delay or reject the call when the connector's remaining quota is too low
+   */
+  private applyRateLimit(result: EnforcementResult): void {
+    const connector = this.registry.forTool(result.enhanced.tool);
+    if (!connector) return;
+
+    const decision = this.quota.check(connector.name, this.config.max_rate_limit_delay_ms);
+    if (decision.action === 'delay') {
+      result.delay_ms = Math.ceil(decision.wait_ms);
+      result.modifications.push(`Delaying ${result.delay_ms}ms: ${connector.displayName} ${decision.reason}`);
+    } else if (decision.action === 'reject') {
+      result.denied = {
+        code: 'rate_limited',
+        message: `${connector.displayName} ${decision.reason}`,
+        retry_at: new Date(Date.now() + decision.wait_ms).toISOString()
+      };
+      result.modifications.push(`Rejected: ${connector.displayName} ${decision.reason}`);
     }
+  }
 
-    // GitHub user injection
-    if (tool.startsWith('github') && !params.owner && state?.connectors?.github?.user) {
-      result.enhanced.params.owner = state.connectors.github.user.login;
-      result.modifications.push('Injected GitHub owner');
+  /**
+   * Deny calls to a connector whose circuit is open
+   */
+  private checkCircuit(result: EnforcementResult): void {
+    const connector = this.registry.forTool(result.enhanced.tool);
+    if (!connector || this.breaker.allow(connector.name)) return;
+
+    const circuit = this.breaker.get(connector.name);
+    result.denied = {
+      code: 'connector_unavailable',
+      message: `${connector.displayName} is failing (${circuit?.consecutive_failures} consecutive failures` +
+        (circuit?.last_error ? `, last: ${circuit.last_error}` : '') + ')',
+      retry_at: circuit?.retry_at
+    };
+    result.modifications.push(`Rejected: ${connector.displayName} circuit is open`);
+  }
+
+  /**
+   * Wrap an executor with the circuit breaker, plus retries when retry_failed_calls is enabled
+   */
+  private withRetries(execute: ToolExecutor): ToolExecutor {
+    return async call => {
+      const connector = this.registry.forTool(call.tool)?.name || call.tool;
+      if (!this.breaker.allow(connector)) {
+        throw new Error(`${connector} circuit is open; not calling ${call.tool}`);
+      }
+
+      try {
+        const output = this.config.retry_failed_calls
+          ? await withRetry(connector, () => execute(call), { tracker: this.quota })
+          : await execute(call);
+        this.breaker.recordSuccess(connector);
+        // Again after the write, in case a read cached between enforcement and the call
+        await this.invalidateCache([call]);
+        return output;
+      } catch (error) {
+        // Bad requests and throttling say nothing about whether the connector is up
+        const errorType = classifyError(error);
+        if (errorType === 'transient' || errorType === 'auth') {
+          this.breaker.recordFailure(connector, (error as Error).message);
+        }
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Serve read calls from the result cache, keyed on the call and scoped for later invalidation
+   */
+  private withCache(execute: ToolExecutor, state: CalibrationState | null): ToolExecutor {
+    return async call => {
+      const connector = this.registry.forTool(call.tool);
+      if (!connector || isWriteTool(call.tool, connector)) return execute(call);
+
+      const scopes = connector.writeScope?.(call.params, state?.connectors?.[connector.name]) || [];
+      return this.cache.getOrLoad(call, connector.name, scopes, () => execute(call));
+    };
+  }
+
+  /**
+   * Drop cached results that write calls may change, by connector and target scope.
+   * Never throws: without calibration state, every cached result of the connector is dropped.
+   */
+  private async invalidateCache(calls: ToolCall[]): Promise<void> {
+    if (!this.cache.enabled) return;
+
+    let state: CalibrationState | null | undefined;
+    for (const call of calls) {
+      const connector = this.registry.forTool(call.tool);
+      if (!connector || !isWriteTool(call.tool, connector)) continue;
+
+      if (state === undefined) state = await this.stateManager.load().catch(() => null);
+      const scopes = state ? connector.writeScope?.(call.params, state.connectors?.[connector.name]) || [] : [];
+      this.cache.invalidate(connector.name, scopes);
     }
   }
 
   /**
-   * Resolve names to IDs by calling search/list tools first
+   * Resolve names to IDs by calling connector list/search endpoints
    */
   private async resolveIdentifiers(result: EnforcementResult): Promise<void> {
     const { tool, params } = result.enhanced;
 
-    // If tool requires ID but has name instead, resolve it
-    if (this.hasNameInsteadOfId(params)) {
-      const resolved = await this.searchForId(tool, params);
-      if (resolved) {
-        Object.assign(result.enhanced.params, resolved);
-        result.modifications.push('Resolved name to ID');
-      }
-    }
+    const connector = this.registry.forTool(tool);
+    if (!connector) return;
+
+    await withSpan('resolve', { tool, connector: connector.name }, async span => {
+      const { resolved, modifications } = await this.resolver.resolve(connector, tool, params);
+      Object.assign(result.enhanced.params, resolved);
+      result.modifications.push(...modifications);
+      span.setAttributes({ resolved: Object.keys(resolved).length });
+    });
   }
 
   /**
-   * Check if params contain name instead of required ID
+   * Instantiate the chain templates matching the call, skipping (with a note) any that cannot run
+   * as a whole, and drop the trigger params they consume from the enhanced call
    */
-  private hasNameInsteadOfId(params: any): boolean {
-    // Simple heuristic: if we have a 'name' field but missing typical ID fields
-    return (
-      (params.name && !params.id && !params.gid && !params.teamId) ||
-      (params.teamName && !params.teamId) ||
-      (params.projectName && !params.projectId)
-    );
+  private async expandTemplates(result: EnforcementResult, state: CalibrationState | null): Promise<TemplateExpansion[]> {
+    const matched = await this.ruleEngine.templatesFor(result.enhanced);
+    if (matched.length === 0) return [];
+
+    const policy = await this.ruleEngine.policy();
+    const expansions: TemplateExpansion[] = [];
+    for (const template of matched) {
+      let steps: ChainStep[];
+      try {
+        steps = instantiateTemplate(template, result.enhanced, state);
+      } catch (error) {
+        if (!(error instanceof TemplateError)) throw error;
+        result.modifications.push(`Skipped template ${template.id}: ${error.message}`);
+        continue;
+      }
+
+      const problem = steps.map(step => this.templateStepProblem(step, policy, state)).find(Boolean);
+      if (problem) {
+        result.modifications.push(`Skipped template ${template.id}: ${problem}`);
+        continue;
+      }
+      expansions.push({ template, steps });
+    }
+
+    for (const param of new Set(matched.flatMap(template => template.consumes || []))) {
+      delete result.enhanced.params[param];
+    }
+    return expansions;
   }
 
   /**
-   * Search for ID based on name
+   * Why a template step could not run now, if anything: its connector is inactive, unauthenticated
+   * or failing, or a guardrail would deny the step or hold it for confirmation
    */
-  private async searchForId(tool: string, params: any): Promise<any> {
-    // This would call appropriate search/list MCP tools
-    // For now, returning null (to be implemented with actual MCP calls)
-    console.log(`  🔍 Would search for ID matching: ${params.name || params.teamName || params.projectName}`);
-    return null;
+  private templateStepProblem(step: ChainStep, policy: GuardrailPolicy, state: CalibrationState | null): string | undefined {
+    const connector = this.registry.forTool(step.tool);
+    if (!connector) return `no active connector provides ${step.tool}`;
+    if (state?.connectors?.[connector.name]?.status !== 'authenticated') return `${connector.displayName} is not authenticated`;
+    if (!this.breaker.allow(connector.name)) return `${connector.displayName} circuit is open`;
+
+    const decision = this.policyEngine.evaluate(step, policy, connector, state);
+    if (decision.denied) return `${step.tool} denied by policy ${decision.denied.policy}: ${decision.denied.message}`;
+    if (decision.confirmation) return `${step.tool} requires confirmation (policy ${decision.confirmation.policy})`;
+    return undefined;
   }
 
   /**
-   * Check if tool call requires pagination
+   * Append each expanded template to the chain, starting one at the call when nothing else chains.
+   * Templates are added whole or not at all, so a link is never made in one direction only.
    */
-  private requiresPagination(toolCall: ToolCall): boolean {
-    const paginationTools = [
-      'list_tasks', 'list_projects', 'list_issues', 'get_issues',
-      'list_pull_requests', 'list_commits', 'search_',
-      'get_comments', 'list_cycles'
-    ];
+  private appendTemplates(result: EnforcementResult, expansions: TemplateExpansion[]): void {
+    const chain = result.chain_operations || [{ ...result.enhanced }];
+
+    for (const { template, steps } of expansions) {
+      if (chain.length + steps.length > this.config.max_chain_depth) {
+        result.modifications.push(`Skipped template ${template.id}: chain would exceed max depth ${this.config.max_chain_depth}`);
+        continue;
+      }
+      chain.push(...rebaseSteps(steps, chain.length));
+      result.modifications.push(`Chained template ${template.id}: ${result.enhanced.tool} → ${templateLabel(template)}`);
+    }
 
-    return paginationTools.some(pattern => toolCall.tool.includes(pattern));
+    if (chain.length > 1) result.chain_operations = chain;
   }
 
   /**
-   * Check if tool call requires operation chaining
+   * Build chain of dependent operations from the enhanced call
    */
-  private requiresChaining(toolCall: ToolCall): boolean {
-    const chainingPatterns = [
-      'create_issue', 'create_task', 'create_project'
-    ];
+  private buildOperationChain(toolCall: ToolCall): ChainStep[] {
+    const connector = this.registry.forTool(toolCall.tool);
+    const root: ChainStep = { ...toolCall };
+    const chain: ChainStep[] = [root];
+
+    if (!connector) {
+      // Unprefixed tools: create_issue might chain with add_labels
+      if (toolCall.tool.includes('create_issue') && toolCall.params.labels) {
+        chain.push({
+          tool: 'add_labels',
+          params: { labels: toolCall.params.labels }
+        });
+      }
+      return chain;
+    }
+
+    // Compensation lets the chain executor undo the root call on failure
+    const compensation = Object.entries(connector.compensations || {})
+      .find(([action]) => toolCall.tool.endsWith(action));
+    if (compensation) {
+      const [action, build] = compensation;
+      root.compensate = build(toolCall, toolCall.tool.slice(0, toolCall.tool.length - action.length));
+    }
+
+    for (const rule of connector.chainRules || []) {
+      if (!toolCall.tool.endsWith(rule.trigger)) continue;
+      if (rule.param && (toolCall.params[rule.param] === undefined || toolCall.params[rule.param] === null)) continue;
+
+      const prefix = toolCall.tool.slice(0, toolCall.tool.length - rule.trigger.length);
+      chain.push(...rule.build(toolCall, prefix));
+    }
 
-    return chainingPatterns.some(pattern => toolCall.tool.includes(pattern));
+    return chain;
   }
 
   /**
-   * Build chain of dependent operations
+   * Truncate a chain to max_chain_depth, noting dropped steps
    */
-  private async buildOperationChain(toolCall: ToolCall): Promise<ToolCall[]> {
-    // Example: create_issue might chain with add_labels, add_assignee, etc.
-    const chain: ToolCall[] = [toolCall];
-
-    // Add dependent operations based on tool type
-    if (toolCall.tool.includes('create_issue') && toolCall.params.labels) {
-      chain.push({
-        tool: 'add_labels',
-        params: { labels: toolCall.params.labels }
-      });
+  private capChain(result: EnforcementResult, chain: ChainStep[]): ChainStep[] {
+    if (chain.length > this.config.max_chain_depth) {
+      const dropped = chain.splice(this.config.max_chain_depth);
+      result.modifications.push(
+        `Chain truncated to max depth ${this.config.max_chain_depth} (dropped ${dropped.map(s => s.tool).join(', ')})`
+      );
     }
 
     return chain;
   }
 
+  /**
+   * Execute an operation chain, rolling back completed steps on failure
+   * @param correlationId The enforcement result's correlation_id, to log and trace the chain with the call
+   */
+  async executeChain(
+    chain: ChainStep[],
+    execute: ToolExecutor = call => this.executeTool(call),
+    correlationId?: string
+  ): Promise<ChainExecutionResult> {
+    return withCorrelation(correlationId, () => withSpan('chain', { steps: chain.length }, async span => {
+      const executor = new ChainExecutor(this.withRetries(execute), this.config.max_chain_depth);
+      const outcome = await executor.run(chain);
+
+      const succeeded = outcome.steps.filter(s => s.status === 'succeeded').map(s => s.tool);
+      span.setAttributes({ success: outcome.success, succeeded: succeeded.length });
+      if (outcome.success) {
+        log.info('Chain complete', { steps: succeeded.length });
+      } else {
+        span.setError(outcome.error);
+        log.error('Chain failed', { failed_step: (outcome.failed_step ?? -1) + 1, still_applied: succeeded, reason: outcome.error });
+      }
+
+      return outcome;
+    }));
+  }
+
   /**
    * Execute tool with pagination enforcement
+   * @param correlationId The enforcement result's correlation_id, to log and trace the pages with the call
    */
-  async executeWithPagination(toolCall: ToolCall): Promise<any[]> {
-    const results: any[] = [];
-    let hasMore = true;
-    let cursor = null;
-    let attempts = 0;
+  async executeWithPagination(
+    toolCall: ToolCall,
+    execute: ToolExecutor = call => this.executeTool(call),
+    correlationId?: string
+  ): Promise<PaginatedResult> {
+    return withCorrelation(correlationId, () => withSpan('paginate', { tool: toolCall.tool }, async span => {
+      const result = await this.paginate(toolCall, execute);
+      span.setAttributes({ pages: result.pages, items: result.items.length, complete: result.complete, truncated_by: result.truncated_by });
+      return result;
+    }));
+  }
+
+  private async paginate(toolCall: ToolCall, execute: ToolExecutor): Promise<PaginatedResult> {
+    const strategy = this.registry.forTool(toolCall.tool)?.pagination || defaultPagination;
+    const state = this.cache.enabled ? await this.stateManager.load() : null;
+    const executeWithRetry = this.withCache(this.withRetries(execute), state);
+    const result: PaginatedResult = { items: [], pages: 0, complete: false };
+    let params = { ...toolCall.params };
+    let pageCursor: any = undefined;
+    let bytes = 0;
+
+    while (true) {
+      if (result.pages >= this.config.max_pagination_pages) {
+        result.truncated_by = 'max_pages';
+        break;
+      }
+
+      log.debug('Fetching page', { tool: toolCall.tool, page: result.pages + 1, strategy: strategy.name });
+
+      const response = await withSpan('paginate.page', { page: result.pages + 1 }, () => executeWithRetry({ ...toolCall, params }));
+      const { items, cursor } = strategy.extract(response);
+      result.pages++;
 
-    while (hasMore && attempts < this.maxPaginationAttempts) {
-      const params = { ...toolCall.params };
-      if (cursor) {
-        params.cursor = cursor;
-        params.after = cursor;
-        params.offset = cursor;
+      // Stop before exceeding item/byte budgets; resuming from next_cursor refetches
+      // the page that did not fit, skipping the next_offset items already returned
+      const room = this.config.max_pagination_items - result.items.length;
+      const pageBytes = Buffer.byteLength(JSON.stringify(items));
+      if (bytes + pageBytes > this.config.max_pagination_bytes && result.pages > 1) {
+        result.truncated_by = 'max_bytes';
+        break;
       }
+      if (items.length > room) {
+        result.items.push(...items.slice(0, room));
+        if (room > 0) result.next_offset = room;
+        result.truncated_by = 'max_items';
+        break;
+      }
+
+      result.items.push(...items);
+      bytes += pageBytes;
 
-      // This would call actual MCP tool
-      console.log(`  📄 Fetching page ${attempts + 1}...`);
-      
-      // Simulated response structure
-      const response = await this.executeTool({ ...toolCall, params });
-      
-      if (Array.isArray(response)) {
-        results.push(...response);
-        hasMore = false; // No pagination info in simple array
-      } else if (response.nodes) {
-        results.push(...response.nodes);
-        hasMore = response.pageInfo?.hasNextPage || false;
-        cursor = response.pageInfo?.endCursor;
-      } else if (response.data) {
-        results.push(...response.data);
-        cursor = response.next_page;
-        hasMore = !!cursor;
+      if (cursor === null || cursor === undefined) {
+        result.complete = true;
+        break;
       }
 
-      attempts++;
+      pageCursor = cursor;
+      params = strategy.nextParams(toolCall.params, cursor);
+
+      // A first page over the byte budget is still returned whole, so resuming makes progress
+      if (bytes > this.config.max_pagination_bytes) {
+        result.truncated_by = 'max_bytes';
+        break;
+      }
     }
 
-    console.log(`  ✅ Pagination complete: ${results.length} total items`);
-    return results;
+    if (result.complete) {
+      log.info('Pagination complete', { tool: toolCall.tool, pages: result.pages, items: result.items.length });
+    } else {
+      result.next_cursor = pageCursor;
+      log.warn('Pagination stopped early; returning partial results', {
+        tool: toolCall.tool,
+        truncated_by: result.truncated_by,
+        pages: result.pages,
+        items: result.items.length,
+        next_offset: result.next_offset
+      });
+    }
+    return result;
   }
 
   /**
    * Execute actual tool call (interface with MCP)
    */
-  private async executeTool(toolCall: ToolCall): Promise<any> {
+  private async executeTool(_toolCall: ToolCall): Promise<any> {
     // This would interface with actual MCP tool execution
     // For now, returning mock data
     return { nodes: [], pageInfo: { hasNextPage: false } };
@@ -0,0 +1,80 @@
+/**
+ * Engine Wiring
+ * Builds the engine's components from one configuration
+ */
+
+import * as path from 'path';
+import { AwarenessConfig } from './types';
+import { MCPCalibrator } from './calibrator';
+import { MCPEnforcer } from './enforcer';
+import { HealthMonitor } from './health-monitor';
+import { StateManager } from './state-manager';
+import { ConnectorRegistry, createDefaultRegistry } from './connectors/registry';
+import { EntityResolver } from './entity-resolver';
+import { EntityCache } from './entity-cache';
+import { RuleEngine } from './rule-engine';
+import { AlertManager, createAlertSinks } from './alerts';
+import { CircuitBreaker } from './circuit-breaker';
+import { quotaTracker } from './quota-tracker';
+import { ResultCache } from './result-cache';
+import { AwarenessBriefGenerator } from './brief';
+import { IdentityGraph } from './identity';
+import { CredentialVault, createCredentialVault, credentialsFor, registerSecret } from './credentials';
+import { logger } from './logging';
+
+export interface Engine {
+  config: AwarenessConfig;
+  registry: ConnectorRegistry;
+  stateManager: StateManager;
+  calibrator: MCPCalibrator;
+  ruleEngine: RuleEngine;
+  enforcer: MCPEnforcer;
+  alerts: AlertManager;
+  breaker: CircuitBreaker;
+  cache: ResultCache;
+  healthMonitor: HealthMonitor;
+  brief: AwarenessBriefGenerator;
+  /** Null when the identity graph is disabled */
+  identities: IdentityGraph | null;
+  /** Null when no vault key is configured */
+  vault: CredentialVault | null;
+}
+
+export function createEngine(config: AwarenessConfig): Engine {
+  const registry = createDefaultRegistry(
+    config.connectors.length > 0 ? config.connectors : undefined,
+    config.calibration.default_scopes
+  );
+  const unknown = registry.unknown();
+  if (unknown.length > 0) {
+    logger.warn('Unknown connectors in configuration', { connectors: unknown });
+  }
+
+  registerSecret(config.http.token);
+  registerSecret(config.credentials.key);
+  const vault = createCredentialVault(config.credentials);
+  for (const connector of registry.active()) {
+    connector.useCredentials?.(credentialsFor(connector.name, vault));
+  }
+
+  const stateManager = new StateManager(config.storage);
+  const calibrator = new MCPCalibrator(config.calibration, stateManager, registry);
+  const identities = config.identity.enabled
+    ? new IdentityGraph(config.identity, stateManager, registry, path.resolve(config.storage.data_dir, 'identities.json'))
+    : null;
+  const resolver = new EntityResolver(new EntityCache(config.calibration.cache_ttl_hours), identities ?? undefined);
+  const ruleEngine = new RuleEngine(config.enforcement.rules_path);
+  const breaker = new CircuitBreaker(
+    config.health.circuit_failure_threshold,
+    config.health.circuit_cooldown_minutes * 60 * 1000
+  );
+  const cache = new ResultCache(config.result_cache);
+  const enforcer = new MCPEnforcer(config.enforcement, stateManager, registry, resolver, quotaTracker, ruleEngine, breaker, cache);
+  const alerts = new AlertManager(createAlertSinks(config.health), config.health.alert_cooldown_minutes);
+  const healthMonitor = new HealthMonitor(config.health, stateManager, registry, alerts, breaker, cache);
+  const brief = new AwarenessBriefGenerator(config.brief, config.enforcement, stateManager, registry, ruleEngine);
+
+  return {
+    config, registry, stateManager, calibrator, ruleEngine, enforcer, alerts, breaker, cache, healthMonitor, brief, identities, vault
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Entity Cache
+ * In-memory TTL cache for connector entity listings used by ID resolution
+ */
+
+import { Entity } from './types';
+
+interface CacheEntry {
+  entities: Entity[];
+  expiresAt: number;
+}
+
+export class EntityCache {
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<Entity[]>>();
+  private ttlMs: number;
+
+  constructor(ttlHours: number = 168) {
+    this.ttlMs = ttlHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Return cached entities for a key, loading them on a miss or expiry
+   */
+  async getOrLoad(key: string, loader: () => Promise<Entity[]>): Promise<Entity[]> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.entities;
+    }
+
+    // Share one in-flight load between concurrent callers
+    let load = this.pending.get(key);
+    if (!load) {
+      load = loader()
+        .then(entities => {
+          this.entries.set(key, { entities, expiresAt: Date.now() + this.ttlMs });
+          return entities;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, load);
+    }
+
+    return load;
+  }
+
+  /**
+   * Drop cached entries whose key starts with a prefix (all entries when omitted)
+   */
+  invalidate(prefix: string = ''): void {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Entity Resolver
+ * Resolves human-readable names in tool params to platform IDs
+ */
+
+import { EntityCache } from './entity-cache';
+import { fuzzyMatch } from './fuzzy-match';
+import { IdentityGraph } from './identity';
+import { Connector, Entity, LinkedAccount, ResolutionRule } from './types';
+
+export interface ResolutionOutcome {
+  /** Params to merge into the enhanced call */
+  resolved: Record<string, any>;
+  modifications: string[];
+}
+
+export class EntityResolver {
+  /**
+   * @param identities Consulted first for user params, so a person known on any connector resolves on all of them
+   */
+  constructor(private cache: EntityCache = new EntityCache(), private identities?: IdentityGraph) {}
+
+  /**
+   * Apply a connector's resolution rules to a tool call
+   */
+  async resolve(connector: Connector, tool: string, params: any): Promise<ResolutionOutcome> {
+    const outcome: ResolutionOutcome = { resolved: {}, modifications: [] };
+    if (!connector.listEntities) return outcome;
+
+    for (const rule of connector.resolutionRules || []) {
+      if (rule.tools && !rule.tools.test(tool)) continue;
+      if (params[rule.param] === undefined || params[rule.param] === null) continue;
+      if (rule.target !== rule.param && params[rule.target] !== undefined) continue;
+
+      const names: any[] = rule.multiple && Array.isArray(params[rule.param])
+        ? params[rule.param]
+        : [params[rule.param]];
+      if (names.every(name => typeof name !== 'string' || this.isId(connector, name))) continue;
+
+      const scope = rule.scopeParam ? params[rule.scopeParam] : undefined;
+      if (rule.scopeParam && !scope) {
+        outcome.modifications.push(`Could not resolve ${rule.param}: missing ${rule.scopeParam}`);
+        continue;
+      }
+
+      try {
+        const ids = await this.resolveNames(connector, rule, names, scope, outcome.modifications);
+        if (ids) {
+          outcome.resolved[rule.target] = rule.multiple ? ids : ids[0];
+        }
+      } catch (error) {
+        outcome.modifications.push(
+          `Could not resolve ${rule.param}: ${connector.displayName} lookup failed (${(error as Error).message})`
+        );
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Resolve each name to an ID, returning null if any name fails
+   */
+  private async resolveNames(
+    connector: Connector,
+    rule: ResolutionRule,
+    names: any[],
+    scope: string | undefined,
+    modifications: string[]
+  ): Promise<string[] | null> {
+    const ids: string[] = [];
+
+    for (const name of names) {
+      if (typeof name !== 'string' || this.isId(connector, name)) {
+        ids.push(name);
+        continue;
+      }
+
+      if (rule.kind === 'user' && this.identities) {
+        const { person, account, link, ambiguous } = await this.identities.accountFor(name, connector.name);
+        if (person && account) {
+          ids.push(account.id);
+          const via = link ? `, linked by ${link.matched_by} ${Math.round(link.confidence * 100)}%` : '';
+          modifications.push(`Resolved ${rule.param} "${name}" to ${connector.displayName} user ${describe(account)} (person ${person.id}${via})`);
+          continue;
+        }
+        if (ambiguous.length > 0) {
+          modifications.push(`Ambiguous ${rule.param} "${name}": ${ambiguous.map(p => `${p.name} (${p.id})`).join(', ')}`);
+          return null;
+        }
+        // Not linked on this connector: fall back to the platform's own user list
+      }
+
+      const entities = await this.entities(connector, rule, scope, name);
+      const { match, ambiguous } = fuzzyMatch(name, entities);
+
+      if (match) {
+        ids.push(match.id);
+        modifications.push(`Resolved ${rule.param} "${name}" to ${connector.displayName} ${rule.kind} ${describe(match)}`);
+      } else if (ambiguous.length > 0) {
+        modifications.push(`Ambiguous ${rule.param} "${name}": ${ambiguous.map(describe).join(', ')}`);
+        return null;
+      } else {
+        modifications.push(`Could not resolve ${rule.param} "${name}" to a ${connector.displayName} ${rule.kind}`);
+        return null;
+      }
+    }
+
+    return ids;
+  }
+
+  private entities(connector: Connector, rule: ResolutionRule, scope: string | undefined, name: string): Promise<Entity[]> {
+    const query = rule.search ? name.toLowerCase() : '';
+    const key = [connector.name, rule.kind, scope || '', query].join(':');
+    return this.cache.getOrLoad(key, () => connector.listEntities!(rule.kind, scope, rule.search ? name : undefined));
+  }
+
+  private isId(connector: Connector, value: string): boolean {
+    return connector.isEntityId ? connector.isEntityId(value) : false;
+  }
+}
+
+function describe(entity: Entity | LinkedAccount): string {
+  return `${entity.name || entity.id} (${entity.id})`;
+}
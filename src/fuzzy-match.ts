@@ -0,0 +1,72 @@
+/**
+ * Fuzzy Matching
+ * Scores human-written names against platform entities
+ */
+
+import { Entity } from './types';
+
+export interface MatchResult {
+  match?: Entity;
+  /** Equally plausible candidates when the name is ambiguous */
+  ambiguous: Entity[];
+}
+
+const MIN_SCORE = 0.75;
+const TIE_MARGIN = 0.05;
+
+/**
+ * Find the entity best matching a name, reporting ties as ambiguous
+ */
+export function fuzzyMatch(query: string, entities: Entity[]): MatchResult {
+  const scored = entities
+    .map(entity => ({ entity, score: scoreEntity(query, entity) }))
+    .filter(s => s.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) return { ambiguous: [] };
+
+  const [best] = scored;
+  const ties = scored.filter(s => best.score - s.score < TIE_MARGIN);
+  if (ties.length > 1) {
+    return { ambiguous: ties.map(s => s.entity) };
+  }
+
+  return { match: best.entity, ambiguous: [] };
+}
+
+function scoreEntity(query: string, entity: Entity): number {
+  const q = normalize(query);
+  return Math.max(...[entity.name, ...(entity.aliases || [])].map(key => similarity(q, normalize(key))));
+}
+
+/**
+ * Similarity in [0, 1]: exact, prefix and substring matches beat edit distance
+ */
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (b.startsWith(a)) return 0.9;
+  if (b.includes(a)) return 0.8;
+
+  const maxLength = Math.max(a.length, b.length);
+  return 1 - levenshtein(a, b) / maxLength;
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9@.]+/g, ' ').trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,36 @@
+/**
+ * Container Health Check
+ * `node -e "require('./dist/health-check').ping()"` exits non-zero unless the HTTP API is live
+ */
+
+import * as http from 'http';
+import { loadConfig } from './config';
+
+/**
+ * Probe the local HTTP API's liveness endpoint
+ */
+export function ping(
+  port: number = loadConfig().http.port ?? 3000,
+  timeoutMs: number = 5000
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const req = http.get({ host: '127.0.0.1', port, path: '/health/live', timeout: timeoutMs }, res => {
+      res.resume();
+      if (res.statusCode === 200) {
+        resolve();
+      } else {
+        reject(new Error(`Health check returned ${res.statusCode}`));
+      }
+    });
+    req.on('timeout', () => req.destroy(new Error(`Health check timed out after ${timeoutMs}ms`)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Serverless handler for platforms that route /health to this module
+ */
+export default function handler(_req: http.IncomingMessage, res: http.ServerResponse): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ status: 'ok' }));
+}
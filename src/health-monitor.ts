@@ -3,20 +3,43 @@
  * Continuous verification of connector health and performance
  */
 
-import { MCPCalibrator } from './calibrator';
 import { StateManager } from './state-manager';
-import { HealthStatus, ConnectorHealth } from './types';
+import { HealthConfig, HealthStatus, HealthThresholds } from './types';
+import { ConnectorRegistry, createDefaultRegistry } from './connectors/registry';
+import { AlertManager } from './alerts/alert-manager';
+import { CircuitBreaker, circuitBreaker } from './circuit-breaker';
+import { ResultCache } from './result-cache';
+import { DEFAULT_CONFIG } from './config';
+import { logger, withSpan } from './logging';
+
+const log = logger.child({ component: 'health' });
 
 export class HealthMonitor {
-  private calibrator: MCPCalibrator;
+  private registry: ConnectorRegistry;
   private stateManager: StateManager;
+  private alerts: AlertManager;
+  private breaker: CircuitBreaker;
+  private cache?: ResultCache;
+  private config: HealthConfig;
   private checkIntervalMs: number;
   private monitoringActive = false;
-
-  constructor(checkIntervalMinutes: number = 30) {
-    this.calibrator = new MCPCalibrator();
-    this.stateManager = new StateManager();
-    this.checkIntervalMs = checkIntervalMinutes * 60 * 1000;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    config: HealthConfig = DEFAULT_CONFIG.health,
+    stateManager: StateManager = new StateManager(),
+    registry: ConnectorRegistry = createDefaultRegistry(),
+    alerts: AlertManager = new AlertManager(),
+    breaker: CircuitBreaker = circuitBreaker,
+    cache?: ResultCache
+  ) {
+    this.config = config;
+    this.registry = registry;
+    this.stateManager = stateManager;
+    this.alerts = alerts;
+    this.breaker = breaker;
+    this.cache = cache;
+    this.checkIntervalMs = config.check_interval_minutes * 60 * 1000;
   }
 
   /**
@@ -24,20 +47,20 @@ export class HealthMonitor {
    */
   start(): void {
     if (this.monitoringActive) {
-      console.log('⚠️  Health monitoring already active');
+      log.warn('Health monitoring already active');
       return;
     }
 
-    console.log('🏥 Starting health monitoring...');
+    log.info('Starting health monitoring', { interval_minutes: this.config.check_interval_minutes });
     this.monitoringActive = true;
 
     // Run initial check
-    this.runHealthCheck();
+    this.runHealthCheck().catch(error => log.error('Health check failed', { error }));
 
     // Schedule periodic checks
-    setInterval(() => {
+    this.timer = setInterval(() => {
       if (this.monitoringActive) {
-        this.runHealthCheck();
+        this.runHealthCheck().catch(error => log.error('Health check failed', { error }));
       }
     }, this.checkIntervalMs);
   }
@@ -46,53 +69,76 @@ export class HealthMonitor {
    * Stop health monitoring
    */
   stop(): void {
-    console.log('🛑 Stopping health monitoring...');
+    log.info('Stopping health monitoring');
     this.monitoringActive = false;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
   }
 
   /**
-   * Run comprehensive health check
+   * Run comprehensive health check, or check only the named connectors
+   * (keeping the last stored result for the rest; overall, logs and alerts cover only those checked)
    */
-  private async runHealthCheck(): Promise<HealthStatus> {
-    console.log('🔍 Running health check...');
+  async runHealthCheck(only?: string[]): Promise<HealthStatus> {
+    return withSpan('health_check', { connectors: only?.join(',') }, async span => {
+      const health = await this.checkConnectors(only);
+      span.setAttributes({ overall: health.overall });
+      return health;
+    });
+  }
+
+  private async checkConnectors(only?: string[]): Promise<HealthStatus> {
+    log.debug('Running health check', { connectors: only });
 
     const timestamp = new Date().toISOString();
-    const health: HealthStatus = {
+    const previous = only ? await this.stateManager.loadHealth() : null;
+    const checked: HealthStatus = {
       timestamp,
       overall: 'healthy',
       connectors: {}
     };
 
     // Check each connector
-    const checks = await Promise.all([
-      this.checkAsana(),
-      this.checkLinear(),
-      this.checkGitHub(),
-      this.checkNotion()
-    ]);
-
-    health.connectors.asana = checks[0];
-    health.connectors.linear = checks[1];
-    health.connectors.github = checks[2];
-    health.connectors.notion = checks[3];
-
-    // Determine overall health
-    const statuses = Object.values(health.connectors).map(c => c.status);
+    const connectors = this.registry.active().filter(c => !only || only.includes(c.name));
+    const checks = await Promise.all(connectors.map(c => c.probe(this.thresholdsFor(c.name))));
+
+    connectors.forEach((connector, i) => {
+      const check = checks[i];
+      const circuit = check.status === 'failed'
+        ? this.breaker.recordFailure(connector.name, check.error)
+        : this.breaker.recordSuccess(connector.name);
+
+      checked.connectors[connector.name] = {
+        ...check,
+        consecutive_failures: circuit.consecutive_failures,
+        circuit: circuit.state
+      };
+    });
+
+    // Determine overall health from this run's probes only
+    const statuses = Object.values(checked.connectors).map(c => c.status);
     if (statuses.every(s => s === 'healthy')) {
-      health.overall = 'healthy';
+      checked.overall = 'healthy';
     } else if (statuses.some(s => s === 'failed')) {
-      health.overall = 'degraded';
+      checked.overall = 'degraded';
     } else {
-      health.overall = 'warning';
+      checked.overall = 'warning';
+    }
+
+    if (this.cache) {
+      checked.cache = this.cache.stats();
     }
 
     // Log results
-    this.logHealthStatus(health);
+    this.logHealthStatus(checked);
 
-    // Alert on failures
-    if (health.overall !== 'healthy') {
-      await this.alertOnFailure(health);
-    }
+    // Alert on failures and resolve alerts for recovered connectors
+    await this.alertOnFailure(checked);
+
+    // Connectors not checked keep their last result, with its own last_check
+    const health: HealthStatus = { ...checked, connectors: { ...previous?.connectors, ...checked.connectors } };
 
     // Persist health status
     await this.stateManager.saveHealth(health);
@@ -100,134 +146,45 @@ export class HealthMonitor {
     return health;
   }
 
-  /**
-   * Check Asana connector health
-   */
-  private async checkAsana(): Promise<ConnectorHealth> {
-    const start = Date.now();
-    try {
-      const valid = await this.calibrator['verifyAsana']();
-      const latency = Date.now() - start;
-
-      return {
-        status: valid ? 'healthy' : 'failed',
-        latency_ms: latency,
-        last_check: new Date().toISOString()
-      };
-    } catch (error) {
-      return {
-        status: 'failed',
-        latency_ms: Date.now() - start,
-        last_check: new Date().toISOString(),
-        error: error.message
-      };
-    }
-  }
-
-  /**
-   * Check Linear connector health
-   */
-  private async checkLinear(): Promise<ConnectorHealth> {
-    const start = Date.now();
-    try {
-      const valid = await this.calibrator['verifyLinear']();
-      const latency = Date.now() - start;
-
-      return {
-        status: valid ? 'healthy' : 'failed',
-        latency_ms: latency,
-        last_check: new Date().toISOString()
-      };
-    } catch (error) {
-      return {
-        status: 'failed',
-        latency_ms: Date.now() - start,
-        last_check: new Date().toISOString(),
-        error: error.message
-      };
-    }
-  }
-
-  /**
-   * Check GitHub connector health
-   */
-  private async checkGitHub(): Promise<ConnectorHealth> {
-    const start = Date.now();
-    try {
-      const valid = await this.calibrator['verifyGitHub']();
-      const latency = Date.now() - start;
-
-      return {
-        status: valid ? 'healthy' : 'failed',
-        latency_ms: latency,
-        last_check: new Date().toISOString()
-      };
-    } catch (error) {
-      return {
-        status: 'failed',
-        latency_ms: Date.now() - start,
-        last_check: new Date().toISOString(),
-        error: error.message
-      };
-    }
-  }
-
-  /**
-   * Check Notion connector health
-   */
-  private async checkNotion(): Promise<ConnectorHealth> {
-    const start = Date.now();
-    try {
-      const valid = await this.calibrator['verifyNotion']();
-      const latency = Date.now() - start;
-
-      return {
-        status: valid ? 'healthy' : 'failed',
-        latency_ms: latency,
-        last_check: new Date().toISOString()
-      };
-    } catch (error) {
-      return {
-        status: 'failed',
-        latency_ms: Date.now() - start,
-        last_check: new Date().toISOString(),
-        error: error.message
-      };
-    }
+  private thresholdsFor(connector: string): HealthThresholds {
+    return {
+      latency_warning_ms: this.config.latency_slos[connector] ?? this.config.latency_warning_ms,
+      token_expiry_warning_days: this.config.token_expiry_warning_days,
+      rate_limit_warning_ratio: this.config.rate_limit_warning_ratio
+    };
   }
 
   /**
-   * Log health status to console
+   * One record per connector plus the overall result
    */
   private logHealthStatus(health: HealthStatus): void {
-    const icon = health.overall === 'healthy' ? '✅' : health.overall === 'degraded' ? '⚠️' : '❌';
-    console.log(`${icon} Overall Health: ${health.overall.toUpperCase()}`);
-    
     Object.entries(health.connectors).forEach(([name, status]) => {
-      const connectorIcon = status.status === 'healthy' ? '✅' : '❌';
-      console.log(`  ${connectorIcon} ${name}: ${status.status} (${status.latency_ms}ms)`);
-      if (status.error) {
-        console.log(`    Error: ${status.error}`);
-      }
+      const level = status.status === 'healthy' ? 'info' : status.status === 'warning' ? 'warn' : 'error';
+      const failing = (status.checks || []).filter(check => check.status !== 'pass');
+      log.child({ connector: name })[level]('Connector health', {
+        status: status.status,
+        latency_ms: status.latency_ms,
+        circuit: status.circuit !== 'closed' ? status.circuit : undefined,
+        error: status.error,
+        checks: failing.length > 0 ? failing.map(check => `${check.name}: ${check.detail}`) : undefined
+      });
+    });
+
+    const failed = Object.entries(health.connectors)
+      .filter(([_, status]) => status.status === 'failed')
+      .map(([name]) => name);
+    log[health.overall === 'healthy' ? 'info' : 'warn']('Health check complete', {
+      overall: health.overall,
+      failed,
+      cache_hit_rate: health.cache?.enabled ? health.cache.hit_rate : undefined
     });
   }
 
   /**
-   * Alert on connector failures
+   * Alert on connector failures and resolve alerts for recovered connectors
    */
   private async alertOnFailure(health: HealthStatus): Promise<void> {
-    console.log('🚨 ALERT: Connector health degraded!');
-    
-    // This would integrate with Linear to create issues
-    const failedConnectors = Object.entries(health.connectors)
-      .filter(([_, status]) => status.status === 'failed')
-      .map(([name]) => name);
-
-    if (failedConnectors.length > 0) {
-      console.log(`  Failed connectors: ${failedConnectors.join(', ')}`);
-      // TODO: Create Linear issue for tracking
-      // TODO: Send notification via configured channels
-    }
+    await this.alerts.evaluateHealth(health);
   }
 
   /**
@@ -0,0 +1,266 @@
+/**
+ * HTTP API Server
+ * Liveness/readiness probes, state views, enforcement and Prometheus metrics over HTTP
+ */
+
+import * as http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { EngineContext } from '../mcp/tools';
+import { validateInput } from '../mcp/schema';
+import { JSONSchema } from '../mcp/types';
+import { EngineMetrics } from '../metrics';
+import { logger } from '../logging';
+
+const log = logger.child({ component: 'http' });
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_DRAIN_BYTES = 1024 * 1024;
+
+const toolCallSchema: JSONSchema = {
+  type: 'object',
+  properties: {
+    tool: { type: 'string' },
+    params: { type: 'object' },
+    correlation_id: { type: 'string' }
+  },
+  required: ['tool']
+};
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface HttpApiOptions {
+  port: number;
+  host?: string;
+  /** Bearer token for everything except the health probes; protected routes are disabled without one */
+  token?: string;
+  metrics?: EngineMetrics;
+}
+
+interface Route {
+  method: 'GET' | 'POST';
+  path: string;
+  /** Open routes serve platform health checks and need no token */
+  open?: boolean;
+  handler(body: any): Promise<RouteResult>;
+}
+
+interface RouteResult {
+  status?: number;
+  body: any;
+  contentType?: string;
+}
+
+export class HttpApiServer {
+  private server: http.Server | null = null;
+  private routes: Route[];
+
+  constructor(private context: EngineContext, private options: HttpApiOptions) {
+    this.routes = this.createRoutes();
+  }
+
+  /**
+   * Start listening; resolves once the port is bound
+   */
+  listen(): Promise<void> {
+    if (!this.options.token) {
+      log.warn('HTTP_API_TOKEN is not set; only the health endpoints are served');
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        log.error('HTTP request failed', { method: req.method, url: req.url, error });
+        if (!res.headersSent) this.send(res, 500, { error: 'Internal server error' });
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => {
+        log.info('HTTP API listening', { host: this.options.host || '0.0.0.0', port: this.options.port });
+        resolve();
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  private createRoutes(): Route[] {
+    const { calibrator, enforcer, healthMonitor, stateManager, brief } = this.context;
+
+    return [
+      {
+        method: 'GET',
+        path: '/health/live',
+        open: true,
+        handler: async () => ({ body: { status: 'ok' } })
+      },
+      {
+        method: 'GET',
+        path: '/health/ready',
+        open: true,
+        handler: async () => {
+          const state = await stateManager.load();
+          const authenticated = Object.values(state?.connectors || {}).filter(c => c.status === 'authenticated');
+          const ready = authenticated.length > 0;
+          return {
+            status: ready ? 200 : 503,
+            body: { status: ready ? 'ready' : 'not_ready', calibrated_at: state?.timestamp ?? null }
+          };
+        }
+      },
+      {
+        // Always 200 while the process is up: a third-party outage is not fixed by restarting us
+        method: 'GET',
+        path: '/health',
+        open: true,
+        handler: async () => ({ body: (await stateManager.loadHealth()) || { overall: 'unknown', connectors: {} } })
+      },
+      {
+        method: 'POST',
+        path: '/health/check',
+        handler: async () => ({ body: await healthMonitor.runHealthCheck() })
+      },
+      {
+        method: 'GET',
+        path: '/calibration',
+        handler: async () => {
+          const state = await stateManager.load();
+          if (!state) throw new HttpError(404, 'No calibration state found; POST /calibrate first');
+          return { body: state };
+        }
+      },
+      {
+        method: 'POST',
+        path: '/calibrate',
+        handler: async () => ({ body: await calibrator.calibrate() })
+      },
+      {
+        method: 'POST',
+        path: '/verify',
+        handler: async () => ({
+          body: {
+            verified: await calibrator.verify(),
+            calibration_age_hours: await stateManager.getCalibrationAge()
+          }
+        })
+      },
+      {
+        method: 'POST',
+        path: '/enforce',
+        handler: async body => {
+          const errors = validateInput(toolCallSchema, body, 'body');
+          if (errors.length > 0) throw new HttpError(400, errors.join('; '));
+          return { body: await enforcer.enforce({ tool: body.tool, params: body.params || {} }, body.correlation_id) };
+        }
+      },
+      {
+        method: 'GET',
+        path: '/brief',
+        handler: async () => ({ body: await brief.render('markdown'), contentType: 'text/markdown; charset=utf-8' })
+      },
+      {
+        method: 'GET',
+        path: '/brief.json',
+        handler: async () => ({ body: await brief.render('json') })
+      },
+      {
+        method: 'GET',
+        path: '/metrics',
+        handler: async () => {
+          if (!this.options.metrics) throw new HttpError(404, 'Metrics are not enabled');
+          return { body: this.options.metrics.render(), contentType: 'text/plain; version=0.0.4' };
+        }
+      }
+    ];
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = new URL(req.url || '/', 'http://localhost').pathname.replace(/\/+$/, '') || '/';
+    const matching = this.routes.filter(route => route.path === path);
+    const route = matching.find(r => r.method === req.method);
+
+    if (!route) {
+      if (matching.length > 0) {
+        res.setHeader('Allow', matching.map(r => r.method).join(', '));
+        return this.send(res, 405, { error: `Method ${req.method} not allowed` });
+      }
+      return this.send(res, 404, { error: `Not found: ${path}` });
+    }
+
+    if (!route.open && !this.authorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return this.send(res, 401, { error: 'Unauthorized' });
+    }
+
+    try {
+      const body = req.method === 'POST' ? await readJSON(req) : undefined;
+      const result = await route.handler(body);
+      this.send(res, result.status ?? 200, result.body, result.contentType);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        // An oversized body is drained only partly, so the connection cannot carry another request
+        if (error.status === 413) res.setHeader('Connection', 'close');
+        return this.send(res, error.status, { error: error.message });
+      }
+      log.error('HTTP route failed', { method: req.method, path, error });
+      this.send(res, 500, { error: (error as Error).message });
+    }
+  }
+
+  private authorized(req: http.IncomingMessage): boolean {
+    if (!this.options.token) return false;
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    if (!match) return false;
+
+    const given = Buffer.from(match[1].trim());
+    const expected = Buffer.from(this.options.token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  private send(res: http.ServerResponse, status: number, body: any, contentType: string = 'application/json'): void {
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body, null, 2));
+  }
+}
+
+function readJSON(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) {
+        chunks.push(chunk);
+        return;
+      }
+      if (size - chunk.length <= MAX_BODY_BYTES) {
+        chunks.length = 0;
+        reject(new HttpError(413, 'Request body too large'));
+      }
+      // Drain a little more so the client can read the 413, then stop reading a body no one will use
+      if (size > MAX_BODY_BYTES + MAX_DRAIN_BYTES) req.destroy();
+    });
+    req.on('error', reject);
+    req.on('end', () => {
+      if (size > MAX_BODY_BYTES) return;
+      const raw = Buffer.concat(chunks).toString('utf-8');
+      if (!raw.trim()) return resolve({});
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+  });
+}
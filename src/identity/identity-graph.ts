@@ -0,0 +1,284 @@
+/**
+ * Identity Graph
+ * Discovers workspace members on every connector and links them into people, so a name, email or any
+ * platform's handle can be turned into the account ID another platform expects
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { StateManager } from '../state-manager';
+import { ConnectorRegistry, createDefaultRegistry } from '../connectors/registry';
+import { fuzzyMatch } from '../fuzzy-match';
+import { DEFAULT_CONFIG } from '../config';
+import { logger, withSpan } from '../logging';
+import {
+  CalibrationState,
+  ConnectorStatus,
+  Entity,
+  IdentityConfig,
+  IdentityGraphState,
+  IdentityMatch,
+  IdentityOverride,
+  LinkedAccount,
+  MemberAccount,
+  Person
+} from '../types';
+import { linkAccounts, matchesValue, parseIdentityOverrides } from './linker';
+
+const log = logger.child({ component: 'identity' });
+
+export interface IdentityLookup {
+  person?: Person;
+  /** Equally plausible people when the query is ambiguous */
+  ambiguous: Person[];
+}
+
+export interface AccountLookup extends IdentityLookup {
+  /** The person's account on the requested connector, if linked */
+  account?: LinkedAccount;
+  /** Weakest link between the account the query named and this one; absent when they are the same */
+  link?: { matched_by: IdentityMatch; confidence: number };
+}
+
+/**
+ * Emits 'identities' with the graph after each rebuild (rebuilt on calibration after start())
+ */
+export class IdentityGraph extends EventEmitter {
+  private config: IdentityConfig;
+  private stateManager: StateManager;
+  private registry: ConnectorRegistry;
+  private graphPath: string;
+  private state: IdentityGraphState | null = null;
+  private loaded = false;
+  private overrides: IdentityOverride[] = [];
+  private overridesMtimeMs: number | null = null;
+  private readonly onCalibration = (calibration: CalibrationState) => {
+    this.rebuild(calibration).catch(error => log.error('Failed to rebuild identity graph', { error }));
+  };
+
+  /**
+   * @param graphPath JSON file the linked graph is kept in between runs
+   */
+  constructor(
+    config: IdentityConfig = DEFAULT_CONFIG.identity,
+    stateManager: StateManager = new StateManager(),
+    registry: ConnectorRegistry = createDefaultRegistry(),
+    graphPath: string = path.resolve(DEFAULT_CONFIG.storage.data_dir, 'identities.json')
+  ) {
+    super();
+    this.config = config;
+    this.stateManager = stateManager;
+    this.registry = registry;
+    this.graphPath = graphPath;
+  }
+
+  /**
+   * Rediscover members after every calibration
+   */
+  start(): void {
+    this.stop();
+    this.stateManager.on('calibration', this.onCalibration);
+  }
+
+  stop(): void {
+    this.stateManager.off('calibration', this.onCalibration);
+  }
+
+  /**
+   * List members on every authenticated connector and link them again.
+   * A connector that fails to list keeps the accounts found last time.
+   */
+  async rebuild(calibration?: CalibrationState | null): Promise<IdentityGraphState> {
+    return withSpan('identity.rebuild', {}, async span => {
+      const state = calibration ?? await this.stateManager.load();
+      const previous = await this.graph();
+      const accounts: MemberAccount[] = [];
+
+      for (const connector of this.registry.active()) {
+        const status = state?.connectors[connector.name];
+        if (!connector.listMembers || status?.status !== 'authenticated') continue;
+
+        try {
+          accounts.push(...await connector.listMembers(status));
+        } catch (error) {
+          const kept = (previous?.accounts || []).filter(account => account.connector === connector.name);
+          log.warn('Failed to list members, keeping previous accounts', { connector: connector.name, kept: kept.length, error });
+          accounts.push(...kept);
+        }
+      }
+
+      await this.refreshOverrides();
+      const graph = this.link(accounts, state);
+      await this.save(graph);
+      span.setAttributes({ accounts: accounts.length, people: graph.people.length });
+      log.info('Identity graph rebuilt', {
+        accounts: accounts.length,
+        people: graph.people.length,
+        linked: graph.people.filter(person => person.accounts.length > 1).length
+      });
+      this.emit('identities', graph);
+      return graph;
+    });
+  }
+
+  /**
+   * The stored graph, relinked first if the overrides file changed; null before the first rebuild
+   */
+  async graph(): Promise<IdentityGraphState | null> {
+    if (!this.loaded) {
+      this.state = await this.read();
+      this.loaded = true;
+    }
+
+    if (this.state && await this.refreshOverrides()) {
+      this.state = this.link(this.state.accounts, await this.stateManager.load());
+      await this.save(this.state);
+    }
+    return this.state;
+  }
+
+  /**
+   * Find a person by "me", person key, alias, account ID, email, handle or name (fuzzy)
+   */
+  async find(query: string): Promise<IdentityLookup> {
+    const people = (await this.graph())?.people || [];
+    const q = query.trim().toLowerCase();
+
+    if (q === 'me') {
+      const self = people.find(person => person.self);
+      return self ? { person: self, ambiguous: [] } : { ambiguous: [] };
+    }
+
+    const exact = people.filter(person =>
+      person.id.toLowerCase() === q ||
+      person.aliases?.some(alias => alias.toLowerCase() === q) ||
+      person.accounts.some(account => matchesValue(account, query.trim()) || account.name?.toLowerCase() === q)
+    );
+    if (exact.length === 1) return { person: exact[0], ambiguous: [] };
+    if (exact.length > 1) return { ambiguous: exact };
+
+    const { match, ambiguous } = fuzzyMatch(query, people.map(toEntity));
+    return {
+      ...(match ? { person: people.find(person => person.id === match.id) } : {}),
+      ambiguous: ambiguous.map(entity => people.find(person => person.id === entity.id)!)
+    };
+  }
+
+  /**
+   * Translate a person reference into their account on one connector
+   */
+  async accountFor(query: string, connector: string): Promise<AccountLookup> {
+    const lookup = await this.find(query);
+    const on = (person: Person) => person.accounts.find(account => account.connector === connector);
+
+    // Of several people going by the name, only one may have an account here
+    const candidates = lookup.ambiguous.filter(on);
+    const person = lookup.person ?? (candidates.length === 1 ? candidates[0] : undefined);
+    const account = person && on(person);
+    if (!person || !account) {
+      return { ...(person ? { person } : {}), ambiguous: candidates.length > 1 ? candidates : [] };
+    }
+
+    // The link is as strong as the weaker of the account the query named and the one returned
+    const q = query.trim();
+    const named = person.accounts.find(a => matchesValue(a, q) || a.name?.toLowerCase() === q.toLowerCase());
+    const weakest = (named === account ? [] : [account, named])
+      .filter((a): a is LinkedAccount => !!a?.matched_by)
+      .sort((x, y) => x.confidence - y.confidence)[0];
+
+    return {
+      person,
+      ambiguous: [],
+      account,
+      ...(weakest ? { link: { matched_by: weakest.matched_by!, confidence: weakest.confidence } } : {})
+    };
+  }
+
+  private link(accounts: MemberAccount[], calibration: CalibrationState | null): IdentityGraphState {
+    const self = Object.entries(calibration?.connectors || {})
+      .map(([connector, status]) => selfAccount(connector, status, accounts))
+      .filter((account): account is MemberAccount => !!account);
+
+    return {
+      built_at: new Date().toISOString(),
+      accounts,
+      people: linkAccounts(accounts, self, this.overrides, this.config.min_confidence)
+    };
+  }
+
+  /**
+   * Reload the overrides file if it changed; true when it did
+   */
+  private async refreshOverrides(): Promise<boolean> {
+    let mtimeMs: number | null;
+    try {
+      mtimeMs = (await fs.stat(this.config.overrides_path)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      mtimeMs = null;
+    }
+    if (mtimeMs === this.overridesMtimeMs) return false;
+
+    this.overridesMtimeMs = mtimeMs;
+    if (mtimeMs === null) {
+      if (this.overrides.length > 0) log.warn('Identity overrides file removed', { path: this.config.overrides_path });
+      this.overrides = [];
+      return true;
+    }
+
+    try {
+      this.overrides = parseIdentityOverrides(await fs.readFile(this.config.overrides_path, 'utf-8'));
+      log.info('Loaded identity overrides', { people: this.overrides.length, path: this.config.overrides_path });
+      return true;
+    } catch (error) {
+      // Keep the previous overrides so a bad edit doesn't unlink everyone
+      log.error('Failed to load identity overrides, keeping previous set', { path: this.config.overrides_path, error });
+      return false;
+    }
+  }
+
+  private async read(): Promise<IdentityGraphState | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.graphPath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.error('Failed to read identity graph, rebuilding on next calibration', { path: this.graphPath, error });
+      }
+      return null;
+    }
+  }
+
+  private async save(graph: IdentityGraphState): Promise<void> {
+    this.state = graph;
+    this.loaded = true;
+    await fs.mkdir(path.dirname(this.graphPath), { recursive: true });
+    const tmp = `${this.graphPath}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(graph, null, 2), 'utf-8');
+    await fs.rename(tmp, this.graphPath);
+  }
+}
+
+/**
+ * The calibrated user's account among the discovered members (Notion's is the integration owner)
+ */
+function selfAccount(connector: string, status: ConnectorStatus, accounts: MemberAccount[]): MemberAccount | undefined {
+  if (status.status !== 'authenticated') return undefined;
+  const members = accounts.filter(account => account.connector === connector);
+  const ids = [status.user?.gid, status.user?.id, status.user?.login].filter(Boolean).map(String);
+  const emails = [status.user?.email, status.workspace?.owner].filter(Boolean).map((email: string) => email.toLowerCase());
+
+  return members.find(account => ids.includes(account.id))
+    || members.find(account => !!account.email && emails.includes(account.email.toLowerCase()));
+}
+
+/**
+ * People are matched on every name they go by, but never fuzzily on IDs
+ */
+function toEntity(person: Person): Entity {
+  const aliases = [
+    ...(person.aliases || []),
+    ...person.accounts.flatMap(account => [account.name, account.email, account.handle])
+  ].filter((alias): alias is string => !!alias);
+  return { id: person.id, name: person.name, aliases };
+}
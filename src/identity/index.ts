@@ -0,0 +1,8 @@
+/**
+ * Identity
+ * Links the same person's accounts across connectors
+ */
+
+export { IdentityGraph } from './identity-graph';
+export type { AccountLookup, IdentityLookup } from './identity-graph';
+export { MATCH_CONFIDENCE, linkAccounts, parseIdentityOverrides } from './linker';
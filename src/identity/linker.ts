@@ -0,0 +1,259 @@
+/**
+ * Identity Linking
+ * Groups accounts from different connectors into people: manual overrides first, then the calibrated user,
+ * then matching emails, handles and names
+ */
+
+import * as yaml from 'js-yaml';
+import { IdentityMatch, IdentityOverride, LinkedAccount, MemberAccount, Person } from '../types';
+
+/** Confidence of each kind of automatic link */
+export const MATCH_CONFIDENCE = {
+  email: 0.95,
+  handle: 0.8,
+  name: 0.7,
+  /** A single-word name ("alice") is weak evidence */
+  first_name: 0.5
+};
+
+interface Cluster {
+  accounts: LinkedAccount[];
+  override?: IdentityOverride;
+  self?: boolean;
+}
+
+interface Link {
+  a: MemberAccount;
+  b: MemberAccount;
+  matched_by: IdentityMatch;
+  confidence: number;
+}
+
+/**
+ * Link accounts into people. Each person has at most one account per connector,
+ * and automatic links below minConfidence are not made.
+ * @param self The calibrated user's account on each connector
+ */
+export function linkAccounts(
+  accounts: MemberAccount[],
+  self: MemberAccount[],
+  overrides: IdentityOverride[],
+  minConfidence: number
+): Person[] {
+  const clusters: Cluster[] = [];
+  const clusterOf = new Map<string, Cluster>();
+  const add = (cluster: Cluster, account: MemberAccount, confidence: number, matchedBy?: IdentityMatch) => {
+    cluster.accounts.push({ ...account, ...(matchedBy ? { matched_by: matchedBy } : {}), confidence });
+    clusterOf.set(keyOf(account), cluster);
+  };
+
+  for (const override of overrides) {
+    const cluster: Cluster = { accounts: [], override };
+    for (const [connector, value] of Object.entries(override.accounts)) {
+      // Accounts not discovered (e.g. a connector without member listing) are taken as given
+      const account = accounts.find(a => a.connector === connector && matchesValue(a, value)) || { connector, id: value };
+      if (!clusterOf.has(keyOf(account))) add(cluster, account, 1, 'override');
+    }
+    clusters.push(cluster);
+  }
+
+  // The calibrated user is one person everywhere, unless an override already placed an account elsewhere
+  const selfAccounts = self.map(account => accounts.find(a => keyOf(a) === keyOf(account)) || account);
+  const selfCluster = selfAccounts.map(account => clusterOf.get(keyOf(account))).find(Boolean) || { accounts: [] };
+  for (const account of selfAccounts) {
+    if (clusterOf.has(keyOf(account)) || hasConnector(selfCluster, account.connector)) continue;
+    add(selfCluster, account, 1, 'self');
+  }
+  if (selfCluster.accounts.length > 0) {
+    selfCluster.self = true;
+    if (!clusters.includes(selfCluster)) clusters.push(selfCluster);
+  }
+
+  for (const account of accounts) {
+    if (clusterOf.has(keyOf(account))) continue;
+    const cluster: Cluster = { accounts: [] };
+    add(cluster, account, 1);
+    clusters.push(cluster);
+  }
+
+  // Strongest links first, so a weak name match never claims an account an email match would have
+  const links = findLinks(accounts).sort((x, y) => y.confidence - x.confidence);
+  for (const link of links) {
+    if (link.confidence < minConfidence) break;
+
+    const ca = clusterOf.get(keyOf(link.a))!;
+    const cb = clusterOf.get(keyOf(link.b))!;
+    if (ca === cb || (ca.override && cb.override)) continue;
+    if (ca.accounts.some(account => hasConnector(cb, account.connector))) continue;
+
+    // Keep overridden and self clusters, otherwise the larger one
+    const keepA = ca.override || ca.self || (!cb.override && !cb.self && ca.accounts.length >= cb.accounts.length);
+    const [target, moving] = keepA ? [ca, cb] : [cb, ca];
+    const joining = keepA ? link.b : link.a;
+
+    for (const account of moving.accounts) {
+      const linked = keyOf(account) === keyOf(joining)
+        ? { ...account, matched_by: link.matched_by, confidence: link.confidence }
+        : { ...account, matched_by: account.matched_by ?? link.matched_by, confidence: Math.min(account.confidence, link.confidence) };
+      target.accounts.push(linked);
+      clusterOf.set(keyOf(account), target);
+    }
+    target.self ||= moving.self;
+    clusters.splice(clusters.indexOf(moving), 1);
+  }
+
+  return toPeople(clusters.filter(cluster => cluster.accounts.length > 0));
+}
+
+/**
+ * Parse and validate a YAML overrides document ({ people: { alice: { name, accounts, aliases } } })
+ */
+export function parseIdentityOverrides(content: string): IdentityOverride[] {
+  const document: any = yaml.load(content) || {};
+  const people = document.people ?? {};
+  if (typeof people !== 'object' || Array.isArray(people)) {
+    throw new Error('"people" must be a mapping of person key to accounts');
+  }
+
+  const claimed = new Map<string, string>();
+  return Object.entries(people).map(([person, entry]: [string, any]) => {
+    const where = `person ${person}`;
+    if (!entry || typeof entry.accounts !== 'object' || Array.isArray(entry.accounts)) {
+      throw new Error(`${where}: "accounts" must be a mapping of connector to account ID, email or handle`);
+    }
+    for (const [connector, value] of Object.entries(entry.accounts)) {
+      if (typeof value !== 'string' || !value) {
+        throw new Error(`${where}: accounts.${connector} must be a string`);
+      }
+      const key = `${connector}:${value.toLowerCase()}`;
+      if (claimed.has(key)) {
+        throw new Error(`${where}: ${connector} account "${value}" is already linked to ${claimed.get(key)}`);
+      }
+      claimed.set(key, person);
+    }
+    if (entry.name !== undefined && typeof entry.name !== 'string') {
+      throw new Error(`${where}: "name" must be a string`);
+    }
+    if (entry.aliases !== undefined && (!Array.isArray(entry.aliases) || entry.aliases.some((a: any) => typeof a !== 'string'))) {
+      throw new Error(`${where}: "aliases" must be a list of strings`);
+    }
+
+    return {
+      person,
+      ...(entry.name ? { name: entry.name } : {}),
+      accounts: entry.accounts,
+      ...(entry.aliases ? { aliases: entry.aliases } : {})
+    };
+  });
+}
+
+/**
+ * Whether an account is the one a value (ID, email or handle) refers to
+ */
+export function matchesValue(account: MemberAccount, value: string): boolean {
+  const v = value.toLowerCase();
+  return [account.id, account.email, account.handle].some(field => field?.toLowerCase() === v);
+}
+
+/**
+ * Candidate links between accounts on different connectors. Values shared by two accounts
+ * on the same connector (two "Alex Kim"s) say nothing about which one is meant, so they link nothing.
+ */
+function findLinks(accounts: MemberAccount[]): Link[] {
+  const links: Link[] = [];
+  const byEmail = bucket(accounts, account => account.email ? [account.email.toLowerCase()] : []);
+  const byHandle = bucket(accounts, account => account.handle ? [account.handle.toLowerCase()] : []);
+  const byName = bucket(accounts, account => account.name ? [normalizeName(account.name)] : []);
+
+  const pairs = (group: MemberAccount[], matchedBy: IdentityMatch, confidence: number) => {
+    if (new Set(group.map(a => a.connector)).size < group.length) return;
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        links.push({ a: group[i], b: group[j], matched_by: matchedBy, confidence });
+      }
+    }
+  };
+
+  for (const group of byEmail.values()) pairs(group, 'email', MATCH_CONFIDENCE.email);
+  for (const group of byHandle.values()) pairs(group, 'handle', MATCH_CONFIDENCE.handle);
+  for (const [name, group] of byName) {
+    pairs(group, 'name', name.includes(' ') ? MATCH_CONFIDENCE.name : MATCH_CONFIDENCE.first_name);
+  }
+
+  // A handle that is someone's email username (alice ↔ alice@example.com)
+  for (const account of accounts) {
+    const local = account.email?.split('@')[0].toLowerCase();
+    const group = local ? byHandle.get(local) : undefined;
+    if (!group) continue;
+    const others = group.filter(other => other.connector !== account.connector);
+    if (others.length === 1) {
+      links.push({ a: account, b: others[0], matched_by: 'handle', confidence: MATCH_CONFIDENCE.handle });
+    }
+  }
+
+  return links;
+}
+
+function toPeople(clusters: Cluster[]): Person[] {
+  const ids = new Set(clusters.flatMap(cluster => cluster.override ? [cluster.override.person] : []));
+  const named = clusters
+    .map(cluster => ({ cluster, name: cluster.override?.name || cluster.override?.person || bestName(cluster.accounts) }))
+    .sort((x, y) => Number(!!y.cluster.self) - Number(!!x.cluster.self) || x.name.localeCompare(y.name));
+
+  return named.map(({ cluster, name }) => {
+    let id = cluster.override?.person;
+    if (!id) {
+      const base = slug(name);
+      id = base;
+      for (let n = 2; ids.has(id); n++) id = `${base}-${n}`;
+      ids.add(id);
+    }
+
+    return {
+      id,
+      name,
+      ...(cluster.self ? { self: true } : {}),
+      ...(cluster.override?.aliases ? { aliases: cluster.override.aliases } : {}),
+      accounts: cluster.accounts.sort((x, y) => x.connector.localeCompare(y.connector))
+    };
+  });
+}
+
+/**
+ * Full names beat single words, which beat handles, email usernames and IDs
+ */
+function bestName(accounts: MemberAccount[]): string {
+  const names = accounts.map(a => a.name?.trim()).filter((name): name is string => !!name);
+  return names.find(name => name.includes(' '))
+    || names[0]
+    || accounts.find(a => a.handle)?.handle
+    || accounts.find(a => a.email)?.email!.split('@')[0]
+    || accounts[0].id;
+}
+
+function bucket(accounts: MemberAccount[], keys: (account: MemberAccount) => string[]): Map<string, MemberAccount[]> {
+  const buckets = new Map<string, MemberAccount[]>();
+  for (const account of accounts) {
+    for (const key of keys(account)) {
+      if (!key) continue;
+      buckets.set(key, [...(buckets.get(key) || []), account]);
+    }
+  }
+  return buckets;
+}
+
+function hasConnector(cluster: Cluster, connector: string): boolean {
+  return cluster.accounts.some(account => account.connector === connector);
+}
+
+function keyOf(account: MemberAccount): string {
+  return `${account.connector}:${account.id}`;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function slug(name: string): string {
+  return normalizeName(name).replace(/ /g, '-') || 'person';
+}
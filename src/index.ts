@@ -0,0 +1,128 @@
+/**
+ * MCP Connector Awareness Engine
+ * Entry point: library exports plus the stdio MCP server
+ */
+
+import 'dotenv/config';
+import { MCPCalibrator } from './calibrator';
+import { MCPEnforcer } from './enforcer';
+import { HealthMonitor } from './health-monitor';
+import { StateManager } from './state-manager';
+import { ConnectorRegistry, createDefaultRegistry } from './connectors/registry';
+import { EntityResolver } from './entity-resolver';
+import { EntityCache } from './entity-cache';
+import { RuleEngine } from './rule-engine';
+import { AlertManager, createAlertSinks } from './alerts';
+import { MCPServer } from './mcp/server';
+import { createTools } from './mcp/tools';
+import {
+  createResources,
+  AWARENESS_BRIEF_JSON_URI,
+  AWARENESS_BRIEF_URI,
+  CALIBRATION_STATE_URI,
+  HEALTH_STATUS_URI
+} from './mcp/resources';
+import { createPrompts } from './mcp/prompts';
+import { HttpApiServer } from './http/server';
+import { EngineMetrics } from './metrics';
+import { loadConfig, DEFAULT_CONFIG, ConfigError } from './config';
+import { createEngine } from './engine';
+import { CredentialVault, VaultError, installLogRedaction } from './credentials';
+import { configureLogging, logger, shutdownTracing } from './logging';
+
+export { MCPCalibrator, MCPEnforcer, HealthMonitor, StateManager, MCPServer, ConnectorRegistry, createDefaultRegistry };
+export { BaseConnector } from './connectors/base';
+export { EntityResolver, EntityCache, RuleEngine };
+export { JsonStorageBackend, SqliteStorageBackend, createStorageBackend } from './storage';
+export { diffCalibration } from './drift';
+export { AwarenessBriefGenerator, renderBrief } from './brief';
+export type { BriefFormat } from './brief';
+export { AlertManager, createAlertSinks };
+export { MemoryPluginSync, NotionDashboardSync, createSyncTargets } from './sync';
+export { IdentityGraph, linkAccounts, parseIdentityOverrides } from './identity';
+export { CircuitBreaker, circuitBreaker } from './circuit-breaker';
+export { ResultCache, cacheKey } from './result-cache';
+export { HttpApiServer, EngineMetrics };
+export { loadConfig, DEFAULT_CONFIG, ConfigError, createEngine };
+export type { Engine } from './engine';
+export { CredentialVault, VaultError };
+export { createCredentialVault, credentialsFor, redact, redactPII, registerSecret } from './credentials';
+export { ConsoleAlertSink, FileAlertSink, LinearAlertSink, SlackAlertSink, WebhookAlertSink } from './alerts';
+export { Logger, logger, configureLogging, withCorrelation, withSpan } from './logging';
+export * from './types';
+
+/**
+ * Build and connect the MCP server over stdio
+ */
+export async function main(): Promise<void> {
+  // stdout carries JSON-RPC frames; route any stray console output to stderr
+  console.log = console.error;
+  console.info = console.error;
+  installLogRedaction();
+
+  const config = loadConfig();
+  configureLogging(config.logging);
+  const engine = createEngine(config);
+  const { calibrator, enforcer, healthMonitor, stateManager, alerts, brief, identities } = engine;
+
+  const server = new MCPServer({ name: 'mcp-connector-awareness-engine', version: '1.0.0' });
+  createTools(engine).forEach(tool => server.registerTool(tool));
+  createResources(stateManager, brief).forEach(resource => server.registerResource(resource));
+  createPrompts(brief).forEach(prompt => server.registerPrompt(prompt));
+
+  stateManager.on('calibration', () => server.notifyResourceUpdated(CALIBRATION_STATE_URI));
+  stateManager.on('health', () => server.notifyResourceUpdated(HEALTH_STATUS_URI));
+  brief.on('brief', () => {
+    server.notifyResourceUpdated(AWARENESS_BRIEF_URI);
+    server.notifyResourceUpdated(AWARENESS_BRIEF_JSON_URI);
+  });
+  brief.start();
+  identities?.start();
+  stateManager.on('drift', drift => {
+    alerts.notifyDrift(drift).catch(error => logger.error('Failed to send drift alerts', { error }));
+  });
+
+  const metrics = new EngineMetrics();
+  stateManager.on('health', health => metrics.observeHealth(health));
+  stateManager.on('calibration', state => metrics.observeCalibration(state));
+  enforcer.on('enforce', (result, connector) => metrics.observeEnforcement(result, connector));
+
+  const api = config.http.port
+    ? new HttpApiServer(engine, { ...config.http, port: config.http.port, metrics })
+    : null;
+  await api?.listen();
+
+  const connection = server.connect(process.stdin, process.stdout);
+
+  if (config.calibration.auto_run_on_start) {
+    calibrator.calibrateIfStale().catch(error => logger.error('Startup calibration failed', { error }));
+  }
+  healthMonitor.start();
+
+  await connection;
+
+  // Under a process manager stdin closes immediately; keep serving HTTP until asked to stop
+  if (api) {
+    await new Promise(resolve => {
+      process.once('SIGTERM', resolve);
+      process.once('SIGINT', resolve);
+    });
+    await api.close();
+  }
+  healthMonitor.stop();
+  brief.stop();
+  identities?.stop();
+  await stateManager.close();
+  await shutdownTracing();
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    if (error instanceof ConfigError || error instanceof VaultError) {
+      console.error(`❌ ${error.message}`);
+    } else {
+      logger.error('MCP server crashed', { error });
+    }
+    process.exit(1);
+  });
+}
@@ -0,0 +1,16 @@
+/**
+ * Logging
+ * Structured logger and tracing, configured from the logging section of the config
+ */
+
+import { LoggingConfig } from '../types';
+import { LogFields, Logger, LoggerOptions, configureLogger, logger } from './logger';
+import { Span, TraceContext, configureTracing, currentTrace, shutdownTracing, withCorrelation, withSpan } from './tracing';
+
+export { Logger, logger, configureLogger, Span, configureTracing, currentTrace, shutdownTracing, withCorrelation, withSpan };
+export type { LogFields, LoggerOptions, TraceContext };
+
+export function configureLogging(config: LoggingConfig): void {
+  configureLogger({ level: config.level, format: config.format });
+  configureTracing(config.trace_export_path);
+}
@@ -0,0 +1,129 @@
+/**
+ * Logger
+ * Levelled, structured logs on stderr: JSON lines for pipelines, one readable line per record on a terminal
+ */
+
+import { LogLevel } from '../types';
+import { redact } from '../credentials/redact';
+import { currentTrace } from './tracing';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  format?: 'auto' | 'json' | 'pretty';
+  /** Where formatted lines go; stderr by default so stdout stays free for MCP frames and CLI output */
+  write?: (line: string) => void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const settings: { level: LogLevel; pretty: boolean; write: (line: string) => void } = {
+  level: 'info',
+  pretty: Boolean(process.stderr.isTTY),
+  write: line => process.stderr.write(line + '\n')
+};
+
+export class Logger {
+  constructor(private bindings: LogFields = {}) {}
+
+  /**
+   * Logger whose records carry these fields as well, e.g. { component: 'enforcer' } or { connector: 'linear' }
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[settings.level];
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) return;
+
+    const trace = currentTrace();
+    const record: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...this.bindings,
+      ...(trace ? { correlation_id: trace.correlation_id, trace_id: trace.trace_id, span_id: trace.span?.spanId } : {}),
+      ...serializeFields(fields)
+    };
+
+    settings.write(redact(settings.pretty ? formatPretty(record) : JSON.stringify(record)));
+  }
+}
+
+/**
+ * Root logger; modules take a child with their component name
+ */
+export const logger = new Logger();
+
+export function configureLogger(options: LoggerOptions): void {
+  if (options.level) settings.level = options.level;
+  if (options.format) settings.pretty = options.format === 'auto' ? Boolean(process.stderr.isTTY) : options.format === 'pretty';
+  if (options.write) settings.write = options.write;
+}
+
+function serializeFields(fields: LogFields): LogFields {
+  const serialized: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    serialized[key] = value instanceof Error ? serializeError(value) : value;
+  }
+  return serialized;
+}
+
+function serializeError(error: Error): LogFields {
+  const { status, code } = error as any;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(status !== undefined ? { status } : {}),
+    ...(code !== undefined ? { code } : {}),
+    stack: error.stack
+  };
+}
+
+/**
+ * "12:00:01.123 WARN  enforcer: Denied tool call tool=linear_delete_issue correlation_id=…"
+ */
+function formatPretty(record: LogFields): string {
+  const { time, level, msg, component, connector, trace_id, span_id, ...rest } = record;
+  const source = [component, connector].filter(Boolean).join('/');
+  const extras = Object.entries(rest)
+    .map(([key, value]) => `${key}=${formatValue(value)}`)
+    .join(' ');
+  const errorStack = (rest.error as LogFields | undefined)?.stack;
+
+  return [
+    `${String(time).slice(11, 23)} ${String(level).toUpperCase().padEnd(5)} ${source ? `${source}: ` : ''}${msg}${extras ? ` ${extras}` : ''}`,
+    ...(settings.level === 'debug' && typeof errorStack === 'string' ? [errorStack] : [])
+  ].join('\n');
+}
+
+function formatValue(value: unknown): string {
+  if (value && typeof value === 'object') {
+    const error = value as LogFields;
+    if (typeof error.message === 'string' && typeof error.name === 'string') return JSON.stringify(error.message);
+    return JSON.stringify(value);
+  }
+  return typeof value === 'string' && /\s/.test(value) ? JSON.stringify(value) : String(value);
+}
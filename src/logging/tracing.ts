@@ -0,0 +1,181 @@
+/**
+ * Tracing
+ * Correlation IDs and spans carried through async calls, exported as OTLP/JSON lines
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, randomBytes } from 'crypto';
+
+type AttributeValue = string | number | boolean;
+
+export interface TraceContext {
+  /** Shared by every log line and span of one enforced call, including later pagination and chains */
+  correlation_id: string;
+  trace_id: string;
+  span?: Span;
+}
+
+/** OTLP status codes */
+const STATUS_UNSET = 0;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+/** OTLP SpanKind INTERNAL */
+const KIND_INTERNAL = 1;
+
+const SERVICE_NAME = 'mcp-connector-awareness-engine';
+
+const storage = new AsyncLocalStorage<TraceContext>();
+
+// Wall-clock origin for the monotonic clock, so span times are nanosecond Unix timestamps
+const timeOrigin = BigInt(Date.now()) * 1_000_000n - process.hrtime.bigint();
+
+let exporter: fs.WriteStream | null = null;
+
+export class Span {
+  readonly spanId = randomBytes(8).toString('hex');
+  readonly parentSpanId?: string;
+  private startTime = now();
+  private endTime?: bigint;
+  private attributes: Record<string, AttributeValue> = {};
+  private status = STATUS_UNSET;
+  private statusMessage?: string;
+
+  constructor(readonly name: string, readonly traceId: string, parent?: Span) {
+    this.parentSpanId = parent?.spanId;
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | undefined | null>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined && value !== null) this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setError(error: unknown): this {
+    this.status = STATUS_ERROR;
+    this.statusMessage = (error as Error)?.message ?? String(error);
+    return this;
+  }
+
+  end(): void {
+    if (this.endTime !== undefined) return;
+    this.endTime = now();
+    if (this.status === STATUS_UNSET) this.status = STATUS_OK;
+    exportSpan(this);
+  }
+
+  /**
+   * OTLP/JSON representation, as read by the OpenTelemetry Collector's otlpjsonfile receiver
+   */
+  toOTLP(): object {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parentSpanId ? { parentSpanId: this.parentSpanId } : {}),
+      name: this.name,
+      kind: KIND_INTERNAL,
+      startTimeUnixNano: String(this.startTime),
+      endTimeUnixNano: String(this.endTime ?? now()),
+      attributes: Object.entries(this.attributes).map(([key, value]) => ({ key, value: otlpValue(value) })),
+      status: { code: this.status, ...(this.statusMessage ? { message: this.statusMessage } : {}) }
+    };
+  }
+}
+
+/**
+ * Run fn under a correlation ID; an existing context is kept when no ID is given.
+ * The trace ID is derived from the correlation ID, so later calls passing it join the same trace.
+ */
+export function withCorrelation<T>(correlationId: string | undefined, fn: () => Promise<T>): Promise<T> {
+  const current = storage.getStore();
+  if (current && (!correlationId || correlationId === current.correlation_id)) return fn();
+
+  const traceId = correlationId ? traceIdFor(correlationId) : randomBytes(16).toString('hex');
+  return storage.run({ correlation_id: correlationId || traceId, trace_id: traceId }, fn);
+}
+
+/**
+ * Run fn inside a child span of the current one (or a new trace), ending it when fn settles
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Record<string, AttributeValue | undefined | null>,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return withCorrelation(undefined, () => {
+    const context = storage.getStore()!;
+    const span = new Span(name, context.trace_id, context.span).setAttributes(attributes);
+
+    return storage.run({ ...context, span }, async () => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        span.setError(error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  });
+}
+
+export function currentTrace(): TraceContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Start (or stop, with undefined) appending finished spans to a file
+ */
+export function configureTracing(exportPath?: string): void {
+  exporter?.end();
+  exporter = null;
+  if (!exportPath) return;
+
+  fs.mkdirSync(path.dirname(exportPath), { recursive: true });
+  exporter = fs.createWriteStream(exportPath, { flags: 'a' });
+  exporter.on('error', error => {
+    process.stderr.write(`Span export to ${exportPath} failed, disabling it: ${error.message}\n`);
+    exporter = null;
+  });
+}
+
+/**
+ * Flush and close the span file
+ */
+export function shutdownTracing(): Promise<void> {
+  const stream = exporter;
+  exporter = null;
+  return new Promise(resolve => (stream ? stream.end(resolve) : resolve()));
+}
+
+function exportSpan(span: Span): void {
+  if (!exporter) return;
+  const line = {
+    resourceSpans: [{
+      resource: { attributes: [{ key: 'service.name', value: { stringValue: SERVICE_NAME } }] },
+      scopeSpans: [{ scope: { name: SERVICE_NAME }, spans: [span.toOTLP()] }]
+    }]
+  };
+  exporter.write(JSON.stringify(line) + '\n');
+}
+
+/**
+ * Generated correlation IDs are trace IDs already; anything else is hashed into one
+ */
+function traceIdFor(correlationId: string): string {
+  return /^[0-9a-f]{32}$/.test(correlationId)
+    ? correlationId
+    : createHash('sha256').update(correlationId).digest('hex').slice(0, 32);
+}
+
+function otlpValue(value: AttributeValue): object {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  return { stringValue: value };
+}
+
+function now(): bigint {
+  return timeOrigin + process.hrtime.bigint();
+}
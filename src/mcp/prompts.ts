@@ -0,0 +1,33 @@
+/**
+ * MCP Prompts
+ * Prompt templates clients can insert into an agent's context
+ */
+
+import { AwarenessBriefGenerator, BriefFormat } from '../brief';
+import { ErrorCodes, RPCError } from './server';
+import { PromptDefinition } from './types';
+
+export function createPrompts(brief: AwarenessBriefGenerator): PromptDefinition[] {
+  return [
+    {
+      name: 'awareness_brief',
+      description: 'Connector identities, default scopes, health and usage rules to include in an agent\'s system prompt',
+      arguments: [
+        { name: 'format', description: 'markdown (default) or json' },
+        { name: 'max_tokens', description: 'Approximate size limit, overriding the configured brief budget' }
+      ],
+      get: async args => {
+        const format = (args.format || 'markdown') as BriefFormat;
+        if (format !== 'markdown' && format !== 'json') {
+          throw new RPCError(ErrorCodes.INVALID_PARAMS, 'format must be markdown or json');
+        }
+        const maxTokens = args.max_tokens !== undefined ? Number(args.max_tokens) : undefined;
+        if (maxTokens !== undefined && !(Number.isInteger(maxTokens) && maxTokens > 0)) {
+          throw new RPCError(ErrorCodes.INVALID_PARAMS, 'max_tokens must be a positive integer');
+        }
+
+        return [{ role: 'user', content: { type: 'text', text: await brief.render(format, maxTokens) } }];
+      }
+    }
+  ];
+}
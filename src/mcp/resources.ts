@@ -0,0 +1,46 @@
+/**
+ * MCP Resources
+ * Read-only views over persisted calibration and health state, and the agent awareness brief
+ */
+
+import { StateManager } from '../state-manager';
+import { AwarenessBriefGenerator } from '../brief';
+import { ResourceDefinition } from './types';
+
+export const CALIBRATION_STATE_URI = 'calibration://state';
+export const HEALTH_STATUS_URI = 'health://status';
+export const AWARENESS_BRIEF_URI = 'awareness://brief';
+export const AWARENESS_BRIEF_JSON_URI = 'awareness://brief.json';
+
+export function createResources(stateManager: StateManager, brief: AwarenessBriefGenerator): ResourceDefinition[] {
+  return [
+    {
+      uri: CALIBRATION_STATE_URI,
+      name: 'Calibration State',
+      description: 'Current calibration data for all MCP connectors',
+      mimeType: 'application/json',
+      read: async () => (await stateManager.load()) || {}
+    },
+    {
+      uri: HEALTH_STATUS_URI,
+      name: 'Health Status',
+      description: 'Real-time health monitoring data for all connectors',
+      mimeType: 'application/json',
+      read: async () => (await stateManager.loadHealth()) || {}
+    },
+    {
+      uri: AWARENESS_BRIEF_URI,
+      name: 'Awareness Brief',
+      description: 'Who the user is on each platform, default scopes, connector health and the rules agents must follow, for a system prompt',
+      mimeType: 'text/markdown',
+      read: () => brief.render('markdown')
+    },
+    {
+      uri: AWARENESS_BRIEF_JSON_URI,
+      name: 'Awareness Brief (JSON)',
+      description: 'The awareness brief as compact JSON',
+      mimeType: 'application/json',
+      read: () => brief.render('json')
+    }
+  ];
+}
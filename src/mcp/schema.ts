@@ -0,0 +1,59 @@
+/**
+ * Minimal JSON Schema validation for tool arguments
+ */
+
+import { JSONSchema } from './types';
+
+/**
+ * Validate a value against a schema, returning human-readable errors
+ */
+export function validateInput(schema: JSONSchema, value: any, path: string = 'arguments'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    errors.push(`${path} must be of type ${schema.type}`);
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (schema.type === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateInput(propertySchema, child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    (value as any[]).forEach((item, index) => {
+      errors.push(...validateInput(schema.items!, item, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
+
+function matchesType(type: NonNullable<JSONSchema['type']>, value: any): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
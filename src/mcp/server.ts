@@ -0,0 +1,296 @@
+/**
+ * MCP Server
+ * JSON-RPC 2.0 transport speaking the Model Context Protocol over stdio
+ */
+
+import * as readline from 'readline';
+import { Readable, Writable } from 'stream';
+import {
+  JSONRPCMessage,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  PromptDefinition,
+  ResourceDefinition,
+  ToolDefinition
+} from './types';
+import { validateInput } from './schema';
+import { logger } from '../logging';
+
+export const PROTOCOL_VERSION = '2024-11-05';
+
+export const ErrorCodes = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603
+};
+
+export class RPCError extends Error {
+  constructor(public code: number, message: string, public data?: any) {
+    super(message);
+  }
+}
+
+export interface ServerInfo {
+  name: string;
+  version: string;
+}
+
+export class MCPServer {
+  private tools = new Map<string, ToolDefinition>();
+  private resources = new Map<string, ResourceDefinition>();
+  private prompts = new Map<string, PromptDefinition>();
+  private subscriptions = new Set<string>();
+  private output: Writable | null = null;
+
+  constructor(private info: ServerInfo) {}
+
+  /**
+   * Register a tool exposed via tools/list and tools/call
+   */
+  registerTool(tool: ToolDefinition): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Register a resource exposed via resources/list and resources/read
+   */
+  registerResource(resource: ResourceDefinition): void {
+    this.resources.set(resource.uri, resource);
+  }
+
+  /**
+   * Register a prompt exposed via prompts/list and prompts/get
+   */
+  registerPrompt(prompt: PromptDefinition): void {
+    this.prompts.set(prompt.name, prompt);
+  }
+
+  /**
+   * Start serving newline-delimited JSON-RPC messages
+   */
+  connect(input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+    this.output = output;
+    const rl = readline.createInterface({ input, crlfDelay: Infinity });
+
+    rl.on('line', line => {
+      if (!line.trim()) return;
+      this.handleLine(line).catch(error => {
+        logger.error('Failed to handle MCP message', { component: 'mcp', error });
+      });
+    });
+
+    return new Promise(resolve => rl.on('close', () => resolve()));
+  }
+
+  /**
+   * Notify the client that a resource changed
+   */
+  notifyResourceUpdated(uri: string): void {
+    if (!this.subscriptions.has(uri)) return;
+    this.send({
+      jsonrpc: '2.0',
+      method: 'notifications/resources/updated',
+      params: { uri }
+    });
+  }
+
+  /**
+   * Parse a raw line and dispatch single or batched messages
+   */
+  private async handleLine(line: string): Promise<void> {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      this.send(this.errorResponse(null, new RPCError(ErrorCodes.PARSE_ERROR, 'Parse error')));
+      return;
+    }
+
+    if (Array.isArray(parsed)) {
+      const responses = await Promise.all(parsed.map(message => this.handleMessage(message)));
+      const replies = responses.filter((r): r is JSONRPCResponse => r !== null);
+      if (replies.length > 0) this.send(replies);
+      return;
+    }
+
+    const response = await this.handleMessage(parsed);
+    if (response) this.send(response);
+  }
+
+  /**
+   * Handle a single JSON-RPC message, returning a response for requests
+   */
+  async handleMessage(message: any): Promise<JSONRPCResponse | null> {
+    if (!message || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      // Responses from the client (we never send requests) are ignored
+      if (message && ('result' in message || 'error' in message)) return null;
+      return this.errorResponse(message?.id ?? null, new RPCError(ErrorCodes.INVALID_REQUEST, 'Invalid request'));
+    }
+
+    const isNotification = message.id === undefined;
+    try {
+      const result = await this.dispatch(message as JSONRPCRequest);
+      return isNotification ? null : { jsonrpc: '2.0', id: message.id, result };
+    } catch (error) {
+      if (isNotification) return null;
+      const rpcError = error instanceof RPCError
+        ? error
+        : new RPCError(ErrorCodes.INTERNAL_ERROR, (error as Error).message);
+      return this.errorResponse(message.id, rpcError);
+    }
+  }
+
+  /**
+   * Route a request to its method handler
+   */
+  private async dispatch(request: JSONRPCRequest): Promise<any> {
+    const params = request.params || {};
+
+    switch (request.method) {
+      case 'initialize':
+        return {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: {
+            tools: { listChanged: false },
+            resources: { subscribe: true, listChanged: false },
+            prompts: { listChanged: false }
+          },
+          serverInfo: this.info
+        };
+
+      case 'ping':
+        return {};
+
+      case 'tools/list':
+        return {
+          tools: [...this.tools.values()].map(({ name, description, inputSchema }) => ({
+            name,
+            description,
+            inputSchema
+          }))
+        };
+
+      case 'tools/call':
+        return this.callTool(params.name, params.arguments || {});
+
+      case 'resources/list':
+        return {
+          resources: [...this.resources.values()].map(({ uri, name, description, mimeType }) => ({
+            uri,
+            name,
+            description,
+            mimeType
+          }))
+        };
+
+      case 'resources/read':
+        return this.readResource(params.uri);
+
+      case 'resources/subscribe':
+        this.requireResource(params.uri);
+        this.subscriptions.add(params.uri);
+        return {};
+
+      case 'resources/unsubscribe':
+        this.subscriptions.delete(params.uri);
+        return {};
+
+      case 'prompts/list':
+        return {
+          prompts: [...this.prompts.values()].map(({ name, description, arguments: args }) => ({
+            name,
+            description,
+            ...(args ? { arguments: args } : {})
+          }))
+        };
+
+      case 'prompts/get':
+        return this.getPrompt(params.name, params.arguments || {});
+
+      default:
+        if (request.method.startsWith('notifications/')) return {};
+        throw new RPCError(ErrorCodes.METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+  }
+
+  /**
+   * Validate arguments and run a tool, reporting tool failures in-band
+   */
+  private async callTool(name: string, args: any): Promise<any> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new RPCError(ErrorCodes.INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+
+    const errors = validateInput(tool.inputSchema, args);
+    if (errors.length > 0) {
+      throw new RPCError(ErrorCodes.INVALID_PARAMS, `Invalid arguments for ${name}: ${errors.join('; ')}`);
+    }
+
+    try {
+      const result = await tool.handler(args);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `${name} failed: ${(error as Error).message}` }],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Read a resource and serialize it as JSON text
+   */
+  private async readResource(uri: string): Promise<any> {
+    const resource = this.requireResource(uri);
+    const data = await resource.read();
+    return {
+      contents: [{
+        uri,
+        mimeType: resource.mimeType,
+        text: typeof data === 'string' ? data : JSON.stringify(data, null, 2)
+      }]
+    };
+  }
+
+  /**
+   * Check required arguments and build a prompt's messages
+   */
+  private async getPrompt(name: string, args: Record<string, string>): Promise<any> {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new RPCError(ErrorCodes.INVALID_PARAMS, `Unknown prompt: ${name}`);
+    }
+
+    const missing = (prompt.arguments || []).filter(arg => arg.required && args[arg.name] === undefined);
+    if (missing.length > 0) {
+      throw new RPCError(ErrorCodes.INVALID_PARAMS, `Missing arguments for ${name}: ${missing.map(arg => arg.name).join(', ')}`);
+    }
+
+    return { description: prompt.description, messages: await prompt.get(args) };
+  }
+
+  private requireResource(uri: string): ResourceDefinition {
+    const resource = this.resources.get(uri);
+    if (!resource) {
+      throw new RPCError(ErrorCodes.INVALID_PARAMS, `Unknown resource: ${uri}`);
+    }
+    return resource;
+  }
+
+  private errorResponse(id: string | number | null, error: RPCError): JSONRPCResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: { code: error.code, message: error.message, data: error.data }
+    };
+  }
+
+  private send(message: JSONRPCMessage | JSONRPCMessage[]): void {
+    this.output?.write(JSON.stringify(message) + '\n');
+  }
+}
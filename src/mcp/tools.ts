@@ -0,0 +1,226 @@
+/**
+ * MCP Tools
+ * Maps the tools advertised in .smithery/config.json onto the engine
+ */
+
+import { MCPCalibrator } from '../calibrator';
+import { MCPEnforcer } from '../enforcer';
+import { HealthMonitor } from '../health-monitor';
+import { StateManager } from '../state-manager';
+import { AwarenessBriefGenerator } from '../brief';
+import { IdentityGraph } from '../identity';
+import { ToolDefinition } from './types';
+
+export interface EngineContext {
+  calibrator: MCPCalibrator;
+  enforcer: MCPEnforcer;
+  healthMonitor: HealthMonitor;
+  stateManager: StateManager;
+  brief: AwarenessBriefGenerator;
+  /** Null when the identity graph is disabled */
+  identities: IdentityGraph | null;
+}
+
+const noArguments = {
+  type: 'object' as const,
+  properties: {},
+  additionalProperties: false
+};
+
+export function createTools(context: EngineContext): ToolDefinition[] {
+  const { calibrator, enforcer, healthMonitor, stateManager, identities } = context;
+
+  return [
+    {
+      name: 'calibrate_connectors',
+      description: 'Auto-discover and map user identity across all MCP platforms (Asana, Linear, GitHub, Notion)',
+      inputSchema: noArguments,
+      handler: () => calibrator.calibrate()
+    },
+    {
+      name: 'verify_connectors',
+      description: 'Verify existing calibration and authentication status for all connectors',
+      inputSchema: noArguments,
+      handler: async () => ({
+        verified: await calibrator.verify(),
+        calibration_age_hours: await stateManager.getCalibrationAge()
+      })
+    },
+    {
+      name: 'enforce_tool_usage',
+      description: 'Intercept and enhance MCP tool calls with pagination enforcement, ID resolution, and operation chaining',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tool: {
+            type: 'string',
+            description: 'Name of the MCP tool about to be called (e.g. linear_create_issue)'
+          },
+          params: {
+            type: 'object',
+            description: 'Arguments the agent intends to pass to the tool'
+          },
+          correlation_id: {
+            type: 'string',
+            description: 'Correlation ID to log and trace this call under (one is generated and returned when omitted)'
+          }
+        },
+        required: ['tool']
+      },
+      handler: args => enforcer.enforce({ tool: args.tool, params: args.params || {} }, args.correlation_id)
+    },
+    {
+      name: 'health_check',
+      description: 'Run comprehensive health check across all MCP connectors and return status',
+      inputSchema: noArguments,
+      handler: () => healthMonitor.runHealthCheck()
+    },
+    {
+      name: 'get_calibration_state',
+      description: 'Retrieve current calibration state including user identities, workspace IDs, and authentication status',
+      inputSchema: noArguments,
+      handler: async () => {
+        const state = await stateManager.load();
+        if (!state) {
+          throw new Error('No calibration state found; run calibrate_connectors first');
+        }
+        return state;
+      }
+    },
+    {
+      name: 'get_calibration_drift',
+      description: 'List identity and scope changes detected between calibrations, newest first',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          limit: {
+            type: 'number',
+            description: 'Maximum number of calibration runs to inspect (default 10)'
+          }
+        }
+      },
+      handler: async args => ({
+        drift: await stateManager.driftHistory({ limit: args.limit ?? 10 })
+      })
+    },
+    {
+      name: 'get_connector_history',
+      description: 'Summarize a connector\'s health history: latency over recent days and when it last failed',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          connector: {
+            type: 'string',
+            description: 'Connector name (e.g. linear)'
+          },
+          days: {
+            type: 'number',
+            description: 'Window for the latency summary in days (default 7)'
+          }
+        },
+        required: ['connector']
+      },
+      handler: async args => ({
+        latency: await stateManager.latencySummary(args.connector, args.days ?? 7),
+        last_failure: await stateManager.lastFailure(args.connector)
+      })
+    },
+    {
+      name: 'get_enforcement_audit',
+      description: 'List recorded enforce_tool_usage results, newest first, filtered by tool, connector, outcome and time range',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tool: {
+            type: 'string',
+            description: 'Exact tool name (e.g. linear_create_issue)'
+          },
+          connector: {
+            type: 'string',
+            description: 'Connector name (e.g. linear)'
+          },
+          outcome: {
+            type: 'string',
+            enum: ['allowed', 'denied', 'confirmation_required']
+          },
+          since: {
+            type: 'string',
+            description: 'ISO 8601 start of the time range'
+          },
+          until: {
+            type: 'string',
+            description: 'ISO 8601 end of the time range'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of entries (default 20)'
+          }
+        }
+      },
+      handler: async args => ({
+        entries: await stateManager.auditLog({
+          tool: args.tool,
+          connector: args.connector,
+          outcome: args.outcome,
+          since: parseDate('since', args.since),
+          until: parseDate('until', args.until),
+          limit: args.limit ?? 20
+        })
+      })
+    },
+    {
+      name: 'replay_enforcement',
+      description: 'Enforce a recorded tool call again under the current rules and list how the result differs',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Audit entry ID from get_enforcement_audit'
+          }
+        },
+        required: ['id']
+      },
+      handler: async args => {
+        const entry = await stateManager.auditEntry(args.id);
+        if (!entry) {
+          throw new Error(`No audit entry ${args.id}`);
+        }
+        return enforcer.replay(entry);
+      }
+    },
+    {
+      name: 'find_person',
+      description: 'Look up a person across connectors by name, email, handle, any platform account ID or "me", returning their linked accounts',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Name, email, GitHub login, platform user ID or "me"'
+          },
+          connector: {
+            type: 'string',
+            description: 'Only return the account on this connector (e.g. asana)'
+          }
+        },
+        required: ['query']
+      },
+      handler: async args => {
+        if (!identities) {
+          throw new Error('Identity graph is disabled (IDENTITY_GRAPH=false)');
+        }
+        return args.connector ? identities.accountFor(args.query, args.connector) : identities.find(args.query);
+      }
+    }
+  ];
+}
+
+function parseDate(name: string, value?: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${name} must be an ISO 8601 date`);
+  }
+  return date;
+}
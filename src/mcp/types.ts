@@ -0,0 +1,67 @@
+/**
+ * Type definitions for the MCP protocol layer
+ */
+
+export interface JSONSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: any[];
+  additionalProperties?: boolean | JSONSchema;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema;
+  handler: (args: any) => Promise<any>;
+}
+
+export interface ResourceDefinition {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  read: () => Promise<any>;
+}
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  /** Prompt arguments arrive as strings */
+  arguments?: PromptArgument[];
+  get: (args: Record<string, string>) => Promise<PromptMessage[]>;
+}
+
+export interface JSONRPCRequest {
+  jsonrpc: '2.0';
+  id?: string | number;
+  method: string;
+  params?: any;
+}
+
+export interface JSONRPCResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: any;
+  error?: {
+    code: number;
+    message: string;
+    data?: any;
+  };
+}
+
+export type JSONRPCMessage = JSONRPCRequest | JSONRPCResponse;
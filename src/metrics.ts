@@ -0,0 +1,154 @@
+/**
+ * Metrics
+ * Prometheus counters, gauges and histograms for connector health and enforcement
+ */
+
+import { CalibrationState, EnforcementResult, HealthStatus } from './types';
+
+type Labels = Record<string, string>;
+
+abstract class Metric {
+  protected series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'gauge' | 'histogram') {}
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+    ];
+  }
+
+  protected entry(labels: Labels): { labels: Labels; value: number } {
+    const key = JSON.stringify(Object.entries(labels).sort());
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: 0 };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+export class Counter extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    this.entry(labels).value += value;
+  }
+}
+
+export class Gauge extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels).value = value;
+  }
+}
+
+export class Histogram extends Metric {
+  private observations = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, private buckets: number[]) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = JSON.stringify(Object.entries(labels).sort());
+    let entry = this.observations.get(key);
+    if (!entry) {
+      entry = { labels, buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.observations.set(key, entry);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry!.buckets[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.observations.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Engine metrics, fed from state and enforcement events
+ */
+export class EngineMetrics {
+  private probeLatency = new Histogram(
+    'mcp_connector_probe_latency_seconds',
+    'Health probe latency per connector',
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+  );
+  private probeFailures = new Counter('mcp_connector_probe_failures_total', 'Failed health probes per connector');
+  private connectorUp = new Gauge('mcp_connector_up', 'Whether the last probe reached the connector (1) or failed (0)');
+  private circuitOpen = new Gauge('mcp_connector_circuit_open', 'Whether calls to the connector currently fail fast');
+  private calibrations = new Counter('mcp_calibrations_total', 'Connector calibrations by resulting status');
+  private enforcements = new Counter('mcp_enforcement_calls_total', 'Enforced tool calls by outcome');
+  private modifications = new Counter('mcp_enforcement_modifications_total', 'Enforcement modifications by kind');
+
+  observeHealth(health: HealthStatus): void {
+    for (const [connector, status] of Object.entries(health.connectors)) {
+      this.probeLatency.observe({ connector }, status.latency_ms / 1000);
+      this.connectorUp.set({ connector }, status.status === 'failed' ? 0 : 1);
+      this.circuitOpen.set({ connector }, status.circuit === 'open' ? 1 : 0);
+      if (status.status === 'failed') {
+        this.probeFailures.inc({ connector, error_type: status.error_type || 'unknown' });
+      }
+    }
+  }
+
+  observeCalibration(state: CalibrationState): void {
+    for (const [connector, status] of Object.entries(state.connectors)) {
+      this.calibrations.inc({ connector, status: status.status });
+    }
+  }
+
+  observeEnforcement(result: EnforcementResult, connector: string = 'unknown'): void {
+    this.enforcements.inc({ connector, outcome: result.outcome });
+    for (const modification of result.modifications) {
+      // The leading verb ("Injected", "Resolved", "Delaying"...) identifies the kind
+      const kind = modification.split(/\s/, 1)[0].toLowerCase();
+      this.modifications.inc({ connector, kind });
+    }
+  }
+
+  /**
+   * Prometheus text exposition format
+   */
+  render(): string {
+    return [
+      this.probeLatency,
+      this.probeFailures,
+      this.connectorUp,
+      this.circuitOpen,
+      this.calibrations,
+      this.enforcements,
+      this.modifications
+    ].flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,101 @@
+/**
+ * Pagination Strategies
+ * How each platform pages its list endpoints
+ */
+
+import { PaginationStrategy } from './types';
+
+/**
+ * Linear GraphQL connections: nodes + pageInfo, cursor passed as `after`
+ */
+export const linearPagination: PaginationStrategy = {
+  name: 'linear-graphql',
+  nextParams: (params, cursor) => ({ ...params, after: cursor }),
+  extract: response => {
+    const connection = response?.nodes ? response : findConnection(response);
+    return {
+      items: connection?.nodes || [],
+      cursor: connection?.pageInfo?.hasNextPage ? connection.pageInfo.endCursor : null
+    };
+  }
+};
+
+/**
+ * Asana: data + next_page.offset token passed back as `offset`
+ */
+export const asanaPagination: PaginationStrategy = {
+  name: 'asana-offset',
+  nextParams: (params, cursor) => ({ ...params, offset: cursor }),
+  extract: response => ({
+    items: response?.data || [],
+    cursor: response?.next_page?.offset || null
+  })
+};
+
+/**
+ * GitHub REST: page numbers taken from the Link header's rel="next"
+ */
+export const githubPagination: PaginationStrategy = {
+  name: 'github-link',
+  nextParams: (params, cursor) => ({ ...params, page: cursor, per_page: params.per_page || 100 }),
+  extract: response => ({
+    items: Array.isArray(response) ? response : response?.data || [],
+    cursor: nextPageFromLink(response?.headers?.link)
+  })
+};
+
+/**
+ * Notion: results + has_more/next_cursor passed as `start_cursor`
+ */
+export const notionPagination: PaginationStrategy = {
+  name: 'notion-cursor',
+  nextParams: (params, cursor) => ({ ...params, start_cursor: cursor }),
+  extract: response => ({
+    items: response?.results || [],
+    cursor: response?.has_more ? response.next_cursor : null
+  })
+};
+
+/**
+ * Fallback for tools without a known platform: plain arrays are a single page
+ */
+export const defaultPagination: PaginationStrategy = {
+  name: 'default',
+  nextParams: (params, cursor) => ({ ...params, cursor }),
+  extract: response => {
+    if (Array.isArray(response)) return { items: response, cursor: null };
+    if (response?.nodes) return linearPagination.extract(response);
+    if (response?.results) return notionPagination.extract(response);
+    return { items: response?.data || [], cursor: response?.next_cursor || null };
+  }
+};
+
+/**
+ * Parse the next page number from an RFC 8288 Link header
+ */
+export function nextPageFromLink(link: string | undefined): number | null {
+  if (!link) return null;
+
+  for (const part of link.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+    if (match) {
+      const page = new URL(match[1]).searchParams.get('page');
+      return page ? Number(page) : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the first GraphQL connection in a nested response (e.g. { data: { issues: {...} } })
+ */
+function findConnection(value: any): any {
+  if (!value || typeof value !== 'object') return null;
+  if (Array.isArray(value.nodes) && value.pageInfo) return value;
+
+  for (const child of Object.values(value)) {
+    const found = findConnection(child);
+    if (found) return found;
+  }
+  return null;
+}
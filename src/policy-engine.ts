@@ -0,0 +1,113 @@
+/**
+ * Policy Engine
+ * Guardrails that can refuse a tool call or hold it for human confirmation
+ */
+
+import { globToRegExp } from './rule-engine';
+import {
+  CalibrationState,
+  ConfirmationRequest,
+  Connector,
+  EnforcementDenial,
+  GuardrailPolicy,
+  ToolCall
+} from './types';
+
+export interface PolicyDecision {
+  denied?: EnforcementDenial;
+  confirmation?: ConfirmationRequest;
+}
+
+export const DEFAULT_DESTRUCTIVE_TOOLS = ['*delete_*', '*archive_*', '*force_push*', '*_force_*'];
+
+const READ_ACTION = /^(get|list|search|read|query|fetch|find|retrieve|view)(_|$)/;
+
+export class PolicyEngine {
+  /**
+   * Evaluate guardrails for a call; the first denial wins
+   */
+  evaluate(
+    toolCall: ToolCall,
+    policy: GuardrailPolicy,
+    connector: Connector | undefined,
+    state: CalibrationState | null
+  ): PolicyDecision {
+    const { tool, params } = toolCall;
+
+    if (matchesAny(tool, policy.deny_tools)) {
+      return { denied: { code: 'denied_tool', policy: 'deny_tools', message: `${tool} is on the deny list` } };
+    }
+
+    const write = isWriteTool(tool, connector);
+
+    if (connector && write && policy.read_only?.includes(connector.name)) {
+      return {
+        denied: {
+          code: 'read_only',
+          policy: 'read_only',
+          message: `${connector.displayName} is in read-only mode; ${tool} would modify data`
+        }
+      };
+    }
+
+    let confirmation: ConfirmationRequest | undefined;
+
+    if (this.isDestructive(toolCall, policy)) {
+      const message = `${tool} is destructive`;
+      if (policy.destructive?.action === 'deny') {
+        return { denied: { code: 'destructive_operation', policy: 'destructive', message } };
+      }
+      confirmation = { policy: 'destructive', message: `${message} and needs human confirmation` };
+    }
+
+    const allowed = connector && policy.write_scopes?.[connector.name];
+    if (connector && write && allowed) {
+      const targets = connector.writeScope?.(params, state?.connectors?.[connector.name]) || [];
+      if (targets.length === 0) {
+        return {
+          denied: {
+            code: 'out_of_scope',
+            policy: 'write_scopes',
+            message: `Cannot determine the ${connector.displayName} target of ${tool} to check it against allowed write scopes`
+          }
+        };
+      }
+      // Every target must be allowed, or one allowed target would carry writes to the others
+      const outside = targets.find(target => !matchesAny(target, allowed));
+      if (outside !== undefined) {
+        return {
+          denied: {
+            code: 'out_of_scope',
+            policy: 'write_scopes',
+            message: `${tool} targets ${outside}, outside allowed ${connector.displayName} scopes: ${allowed.join(', ')}`
+          }
+        };
+      }
+    }
+
+    if (!confirmation && matchesAny(tool, policy.confirm_tools)) {
+      confirmation = { policy: 'confirm_tools', message: `${tool} needs human confirmation` };
+    }
+
+    return confirmation ? { confirmation } : {};
+  }
+
+  private isDestructive(toolCall: ToolCall, policy: GuardrailPolicy): boolean {
+    const globs = policy.destructive?.tools || DEFAULT_DESTRUCTIVE_TOOLS;
+    // Force-pushes and forced ref updates rewrite history regardless of the tool name
+    const forced = toolCall.tool.startsWith('github') && toolCall.params?.force === true;
+    return forced || matchesAny(toolCall.tool, globs);
+  }
+}
+
+/**
+ * Whether a tool modifies data, judged by the verb after the connector prefix
+ */
+export function isWriteTool(tool: string, connector: Connector | undefined): boolean {
+  const action = connector ? tool.slice(connector.toolPrefix.length).replace(/^[_.-]/, '') : tool;
+  return !READ_ACTION.test(action);
+}
+
+function matchesAny(value: string, globs: string[] | undefined): boolean {
+  return (globs || []).some(glob => globToRegExp(glob).test(value));
+}
@@ -0,0 +1,175 @@
+/**
+ * Quota Tracker
+ * Remembers rate-limit headroom per connector from response headers
+ */
+
+export interface QuotaSnapshot {
+  connector: string;
+  limit?: number;
+  remaining?: number;
+  reset_at?: string;
+  /** Linear complexity budget */
+  complexity_remaining?: number;
+  complexity_limit?: number;
+  /** Set from Retry-After on a 429: no calls until then */
+  blocked_until?: string;
+  updated_at: string;
+}
+
+export interface ThrottleDecision {
+  action: 'allow' | 'delay' | 'reject';
+  wait_ms: number;
+  reason?: string;
+}
+
+export type HeaderBag = Record<string, string> | { get(name: string): string | null } | undefined;
+
+const MIN_RESERVE = 5;
+const RESERVE_RATIO = 0.02;
+
+export class QuotaTracker {
+  private quotas = new Map<string, QuotaSnapshot>();
+
+  /**
+   * Update headroom from rate-limit response headers (GitHub, Linear, IETF draft)
+   */
+  record(connector: string, headers: HeaderBag): void {
+    if (!headers) return;
+    const snapshot = this.snapshot(connector);
+
+    const limit = numberHeader(headers, 'x-ratelimit-limit', 'x-ratelimit-requests-limit', 'ratelimit-limit');
+    const remaining = numberHeader(headers, 'x-ratelimit-remaining', 'x-ratelimit-requests-remaining', 'ratelimit-remaining');
+    const reset = numberHeader(headers, 'x-ratelimit-reset', 'x-ratelimit-requests-reset');
+    const complexityRemaining = numberHeader(headers, 'x-ratelimit-complexity-remaining');
+    const complexityLimit = numberHeader(headers, 'x-ratelimit-complexity-limit');
+
+    if (limit !== undefined) snapshot.limit = limit;
+    if (remaining !== undefined) snapshot.remaining = remaining;
+    if (reset !== undefined) snapshot.reset_at = epochToIso(reset);
+    if (complexityRemaining !== undefined) snapshot.complexity_remaining = complexityRemaining;
+    if (complexityLimit !== undefined) snapshot.complexity_limit = complexityLimit;
+
+    const retryAfter = retryAfterMs(headers);
+    if (retryAfter !== undefined) {
+      snapshot.blocked_until = new Date(Date.now() + retryAfter).toISOString();
+    }
+
+    snapshot.updated_at = new Date().toISOString();
+  }
+
+  /**
+   * Block calls to a connector for a period (e.g. after a 429 without headers)
+   */
+  block(connector: string, ms: number): void {
+    const snapshot = this.snapshot(connector);
+    snapshot.blocked_until = new Date(Date.now() + ms).toISOString();
+    snapshot.updated_at = new Date().toISOString();
+  }
+
+  get(connector: string): QuotaSnapshot | undefined {
+    return this.quotas.get(connector);
+  }
+
+  all(): QuotaSnapshot[] {
+    return [...this.quotas.values()];
+  }
+
+  /**
+   * Decide whether a call should go ahead, wait for a reset or be rejected
+   */
+  check(connector: string, maxDelayMs: number = 60_000): ThrottleDecision {
+    const snapshot = this.quotas.get(connector);
+    if (!snapshot) return { action: 'allow', wait_ms: 0 };
+
+    const now = Date.now();
+    const waits: Array<{ until: number; reason: string }> = [];
+
+    if (snapshot.blocked_until && Date.parse(snapshot.blocked_until) > now) {
+      waits.push({ until: Date.parse(snapshot.blocked_until), reason: 'rate limited by server' });
+    }
+
+    if (snapshot.remaining !== undefined && snapshot.reset_at && Date.parse(snapshot.reset_at) > now) {
+      const reserve = Math.max(MIN_RESERVE, Math.ceil((snapshot.limit || 0) * RESERVE_RATIO));
+      if (snapshot.remaining <= reserve) {
+        waits.push({
+          until: Date.parse(snapshot.reset_at),
+          reason: `request budget nearly exhausted (${snapshot.remaining} remaining)`
+        });
+      }
+    }
+
+    if (snapshot.complexity_remaining !== undefined && snapshot.complexity_limit && snapshot.reset_at) {
+      if (snapshot.complexity_remaining <= snapshot.complexity_limit * RESERVE_RATIO && Date.parse(snapshot.reset_at) > now) {
+        waits.push({
+          until: Date.parse(snapshot.reset_at),
+          reason: `complexity budget nearly exhausted (${snapshot.complexity_remaining} remaining)`
+        });
+      }
+    }
+
+    if (waits.length === 0) return { action: 'allow', wait_ms: 0 };
+
+    const longest = waits.reduce((a, b) => (b.until > a.until ? b : a));
+    const waitMs = longest.until - now;
+    return {
+      action: waitMs <= maxDelayMs ? 'delay' : 'reject',
+      wait_ms: waitMs,
+      reason: longest.reason
+    };
+  }
+
+  private snapshot(connector: string): QuotaSnapshot {
+    let snapshot = this.quotas.get(connector);
+    if (!snapshot) {
+      snapshot = { connector, updated_at: new Date().toISOString() };
+      this.quotas.set(connector, snapshot);
+    }
+    return snapshot;
+  }
+}
+
+/**
+ * Process-wide tracker shared by connectors and the enforcer
+ */
+export const quotaTracker = new QuotaTracker();
+
+/**
+ * Read a header from a plain object or a Headers-like instance
+ */
+export function headerValue(headers: HeaderBag, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof (headers as any).get === 'function') {
+    return (headers as any).get(name) ?? undefined;
+  }
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key ? String((headers as Record<string, string>)[key]) : undefined;
+}
+
+/**
+ * Retry-After as milliseconds (delta-seconds or HTTP date)
+ */
+export function retryAfterMs(headers: HeaderBag): number | undefined {
+  const value = headerValue(headers, 'retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function numberHeader(headers: HeaderBag, ...names: string[]): number | undefined {
+  for (const name of names) {
+    const value = headerValue(headers, name);
+    if (value !== undefined && !Number.isNaN(Number(value))) return Number(value);
+  }
+  return undefined;
+}
+
+/**
+ * GitHub resets are epoch seconds, Linear resets are epoch milliseconds
+ */
+function epochToIso(value: number): string {
+  return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+}
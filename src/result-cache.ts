@@ -0,0 +1,194 @@
+/**
+ * Result Cache
+ * Read-through cache of tool call results, invalidated by writes to the same connector and scope
+ */
+
+import { ResultCacheConfig, ResultCacheStats, ToolCall } from './types';
+import { DEFAULT_CONFIG } from './config';
+import { globToRegExp } from './rule-engine';
+import { logger } from './logging';
+
+const log = logger.child({ component: 'cache' });
+
+interface CacheEntry {
+  connector: string;
+  /** Targets the call reads from; empty when unknown, so any write to the connector drops it */
+  scopes: string[];
+  value: any;
+  bytes: number;
+  expiresAt: number;
+}
+
+interface PendingLoad {
+  connector: string;
+  load: Promise<any>;
+}
+
+export class ResultCache {
+  /** Least recently used first */
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, PendingLoad>();
+  /** Bumped per connector on invalidation, so loads started before a write are not stored */
+  private generations = new Map<string, number>();
+  private ttls: Array<[RegExp, number]>;
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private invalidations = 0;
+
+  constructor(private config: ResultCacheConfig = DEFAULT_CONFIG.result_cache) {
+    this.ttls = Object.entries(config.tool_ttls).map(([glob, seconds]) => [globToRegExp(glob), seconds * 1000]);
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Return the cached result of a read call, or run it and cache the result.
+   * Every caller gets its own copy, so changing a result never changes what later hits return.
+   * @param connector Connector owning the tool
+   * @param scopes Targets the call reads from (repos, teams, projects...), matched against later writes
+   */
+  async getOrLoad(call: ToolCall, connector: string, scopes: string[], loader: () => Promise<any>): Promise<any> {
+    const ttlMs = this.ttlFor(call.tool);
+    if (!this.config.enabled || ttlMs <= 0) return loader();
+
+    const key = cacheKey(call);
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      // Re-insert to mark it most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.hits++;
+      log.debug('Cache hit', { tool: call.tool });
+      return structuredClone(entry.value);
+    }
+    if (entry) this.remove(key);
+
+    // Share one in-flight load between concurrent callers
+    const pending = this.pending.get(key);
+    if (pending) {
+      this.hits++;
+      return pending.load.then(value => structuredClone(value));
+    }
+
+    this.misses++;
+    const generation = this.generations.get(connector) ?? 0;
+    const load = loader()
+      .then(value => {
+        if ((this.generations.get(connector) ?? 0) === generation) {
+          this.store(key, { connector, scopes, value: structuredClone(value), bytes: sizeOf(value), expiresAt: Date.now() + ttlMs });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.pending.get(key)?.load === load) this.pending.delete(key);
+      });
+    this.pending.set(key, { connector, load });
+    return load.then(value => structuredClone(value));
+  }
+
+  /**
+   * Drop a connector's cached results that a write to the given targets may have changed:
+   * those sharing a target, and those with unknown targets. Without targets, drop them all.
+   * @returns Number of entries dropped
+   */
+  invalidate(connector: string, scopes: string[] = []): number {
+    this.generations.set(connector, (this.generations.get(connector) ?? 0) + 1);
+    for (const [key, pending] of this.pending) {
+      if (pending.connector === connector) this.pending.delete(key);
+    }
+
+    const targets = new Set(scopes);
+    let dropped = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.connector !== connector) continue;
+      if (targets.size > 0 && entry.scopes.length > 0 && !entry.scopes.some(scope => targets.has(scope))) continue;
+      this.remove(key);
+      dropped++;
+    }
+
+    this.invalidations += dropped;
+    if (dropped > 0) log.debug('Invalidated cached results', { connector, scopes, entries: dropped });
+    return dropped;
+  }
+
+  /**
+   * Drop every cached result
+   */
+  clear(): void {
+    this.entries.clear();
+    this.pending.clear();
+    this.bytes = 0;
+  }
+
+  stats(): ResultCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      enabled: this.config.enabled,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      hits: this.hits,
+      misses: this.misses,
+      hit_rate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : 0,
+      evictions: this.evictions,
+      invalidations: this.invalidations
+    };
+  }
+
+  private ttlFor(tool: string): number {
+    const match = this.ttls.find(([pattern]) => pattern.test(tool));
+    return match ? match[1] : this.config.ttl_seconds * 1000;
+  }
+
+  /**
+   * Add an entry, evicting least recently used ones to stay within the size limits
+   */
+  private store(key: string, entry: CacheEntry): void {
+    if (entry.bytes > this.config.max_bytes) return;
+
+    this.remove(key);
+    this.entries.set(key, entry);
+    this.bytes += entry.bytes;
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.config.max_entries && this.bytes <= this.config.max_bytes) break;
+      this.remove(oldest);
+      this.evictions++;
+    }
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+}
+
+/**
+ * Key for a call: the tool and its params with keys sorted and empty values dropped,
+ * so calls differing only in argument order or explicit nulls share an entry
+ */
+export function cacheKey(call: ToolCall): string {
+  return `${call.tool} ${JSON.stringify(normalize(call.params ?? {}))}`;
+}
+
+function normalize(value: any): any {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter(key => value[key] !== undefined && value[key] !== null)
+        .map(key => [key, normalize(value[key])])
+    );
+  }
+  return value;
+}
+
+function sizeOf(value: any): number {
+  return Buffer.byteLength(JSON.stringify(value) ?? '');
+}
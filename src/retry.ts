@@ -0,0 +1,122 @@
+/**
+ * Retry
+ * Error classification and jittered exponential backoff for connector calls
+ */
+
+import { HeaderBag, QuotaTracker, headerValue, quotaTracker, retryAfterMs } from './quota-tracker';
+import { ErrorClass } from './types';
+import { logger } from './logging';
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  /** Give up instead of waiting longer than this for a rate-limit reset */
+  maxDelayMs?: number;
+  tracker?: QuotaTracker;
+}
+
+const DEFAULTS = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000
+};
+
+const TRANSIENT_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+/**
+ * HTTP status of an error from our clients, Octokit, the Notion SDK or the Linear SDK
+ */
+export function errorStatus(error: any): number | undefined {
+  return error?.status ?? error?.response?.status ?? error?.raw?.response?.status;
+}
+
+/**
+ * Response headers attached to an error, if any
+ */
+export function errorHeaders(error: any): HeaderBag {
+  return error?.headers ?? error?.response?.headers ?? error?.raw?.response?.headers;
+}
+
+/**
+ * Classify an error to decide whether retrying can help
+ */
+export function classifyError(error: any): ErrorClass {
+  const status = errorStatus(error);
+  const headers = errorHeaders(error);
+
+  if (status === 429 || error?.type === 'Ratelimited' || error?.code === 'rate_limited') {
+    return 'rate_limit';
+  }
+  // GitHub signals primary rate limits as 403 with an exhausted budget
+  if (status === 403 && headerValue(headers, 'x-ratelimit-remaining') === '0') {
+    return 'rate_limit';
+  }
+  if (status === 401 || status === 403 || error?.type === 'AuthenticationError' || error?.type === 'Forbidden') {
+    return 'auth';
+  }
+  if ((status !== undefined && status >= 500) || status === 408 || error?.type === 'NetworkError') {
+    return 'transient';
+  }
+  if (status === undefined && (TRANSIENT_CODES.includes(error?.code) || error?.cause?.code || error?.name === 'AbortError')) {
+    return 'transient';
+  }
+  return 'permanent';
+}
+
+/**
+ * Delay before the next attempt: server hints first, else full-jitter exponential backoff
+ */
+export function retryDelayMs(error: any, attempt: number, baseDelayMs: number = DEFAULTS.baseDelayMs): number {
+  const headers = errorHeaders(error);
+
+  const retryAfter = retryAfterMs(headers);
+  if (retryAfter !== undefined) return retryAfter;
+
+  const reset = headerValue(headers, 'x-ratelimit-reset') ?? headerValue(headers, 'x-ratelimit-requests-reset');
+  if (reset && classifyError(error) === 'rate_limit') {
+    const resetMs = Number(reset) < 1e12 ? Number(reset) * 1000 : Number(reset);
+    return Math.max(0, resetMs - Date.now());
+  }
+
+  return Math.random() * baseDelayMs * 2 ** attempt;
+}
+
+/**
+ * Run a connector call, retrying rate-limited and transient failures
+ */
+export async function withRetry<T>(connector: string, fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { maxAttempts, baseDelayMs, maxDelayMs } = { ...DEFAULTS, ...options };
+  const tracker = options.tracker || quotaTracker;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const errorClass = classifyError(error);
+      tracker.record(connector, errorHeaders(error));
+
+      if (errorClass === 'auth' || errorClass === 'permanent' || attempt + 1 >= maxAttempts) {
+        throw error;
+      }
+
+      const delay = retryDelayMs(error, attempt, baseDelayMs);
+      if (delay > maxDelayMs) {
+        if (errorClass === 'rate_limit') tracker.block(connector, delay);
+        throw error;
+      }
+
+      logger.warn('Retrying connector call', {
+        connector,
+        error_type: errorClass,
+        delay_ms: Math.round(delay),
+        attempt: attempt + 2,
+        max_attempts: maxAttempts
+      });
+      await sleep(delay);
+    }
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,374 @@
+/**
+ * Rule Engine
+ * Declarative enforcement rules and chain templates loaded from YAML, reloaded when the file changes
+ */
+
+import * as fs from 'fs/promises';
+import * as yaml from 'js-yaml';
+import { ChainTemplate, EnforcementRule, GuardrailPolicy, ParamPredicate, RuleMatch, ToolCall } from './types';
+import { logger } from './logging';
+
+const log = logger.child({ component: 'rules' });
+
+/**
+ * Built-in rules, evaluated before any rules from the YAML file
+ */
+export const DEFAULT_RULES: EnforcementRule[] = [
+  {
+    id: 'builtin-pagination',
+    description: 'Fetch every page of list and search results',
+    match: {
+      tool: [
+        '*list_tasks*', '*list_projects*', '*list_issues*', '*get_issues*',
+        '*list_pull_requests*', '*list_commits*', '*search_*',
+        '*get_comments*', '*list_cycles*'
+      ]
+    },
+    actions: { paginate: true }
+  },
+  {
+    id: 'builtin-chaining',
+    description: 'Chain dependent operations after creating issues, tasks and projects',
+    match: { tool: ['*create_issue*', '*create_task*', '*create_project*'] },
+    actions: { build_chain: true }
+  }
+];
+
+/**
+ * Built-in cross-connector templates; a template in the YAML file with the same id replaces one
+ */
+export const DEFAULT_CHAIN_TEMPLATES: ChainTemplate[] = [
+  {
+    id: 'github-pr-linear-backlinks',
+    description: 'Pass github_pr (owner/repo#123 or the pull request URL) to linear_create_issue to link the issue and the pull request both ways',
+    match: {
+      tool: 'linear_create_issue',
+      params: {
+        github_pr: { matches: '^(?:https://github\\.com/)?(?<owner>[\\w.-]+)/(?<repo>[\\w.-]+)(?:/pull/|#)(?<number>\\d+)$' }
+      }
+    },
+    consumes: ['github_pr'],
+    steps: [
+      {
+        tool: 'linear_create_attachment',
+        params: {
+          issueId: '$steps.0.id',
+          url: 'https://github.com/{{match.github_pr.owner}}/{{match.github_pr.repo}}/pull/{{match.github_pr.number}}',
+          title: 'GitHub PR {{match.github_pr.owner}}/{{match.github_pr.repo}}#{{match.github_pr.number}}'
+        }
+      },
+      {
+        tool: 'github_add_issue_comment',
+        params: {
+          owner: '$match.github_pr.owner',
+          repo: '$match.github_pr.repo',
+          issue_number: '$match.github_pr.number|number',
+          body: 'Tracked in Linear: {{steps.0.url}}'
+        }
+      }
+    ]
+  },
+  {
+    id: 'asana-task-mirror-to-linear',
+    description: 'Pass mirror_to: linear to asana_create_task to open a matching Linear issue in the default team, linked from the task',
+    match: { tool: 'asana_create_task', params: { mirror_to: 'linear' } },
+    consumes: ['mirror_to'],
+    steps: [
+      {
+        tool: 'linear_create_issue',
+        params: {
+          teamId: '$state.connectors.linear.team.id',
+          title: '$params.name',
+          description: 'Mirrored from Asana: https://app.asana.com/0/0/{{steps.0.gid}}\n\n{{params.notes}}'
+        },
+        compensate: { tool: 'linear_delete_issue', params: { id: '$self.id' } }
+      },
+      {
+        tool: 'asana_create_task_story',
+        params: { task_gid: '$steps.0.gid', text: 'Mirrored to Linear: {{steps.1.url}}' }
+      }
+    ]
+  },
+  {
+    id: 'notion-spec-page',
+    description: 'Pass spec_page (a Notion page URL or ID) to linear_create_issue to attach the spec and link the issue from the page',
+    match: {
+      tool: 'linear_create_issue',
+      params: { spec_page: { matches: '(?<id>[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12})(?:[?#].*)?$' } }
+    },
+    consumes: ['spec_page'],
+    steps: [
+      {
+        tool: 'linear_create_attachment',
+        params: { issueId: '$steps.0.id', url: 'https://www.notion.so/{{match.spec_page.id}}', title: 'Spec' }
+      },
+      {
+        tool: 'notion_append_block_children',
+        params: {
+          block_id: '$match.spec_page.id',
+          children: [{
+            object: 'block',
+            type: 'paragraph',
+            paragraph: { rich_text: [{ type: 'text', text: { content: 'Linear issue: {{steps.0.url}}', link: { url: '{{steps.0.url}}' } } }] }
+          }]
+        }
+      }
+    ]
+  }
+];
+
+export class RuleEngine {
+  private rules: EnforcementRule[] = [];
+  private chainTemplates: ChainTemplate[] = [];
+  private guardrails: GuardrailPolicy = {};
+  private loadedMtimeMs: number | null = null;
+
+  /**
+   * @param rulesPath YAML rules file; only built-in rules apply when omitted or missing
+   */
+  constructor(private rulesPath?: string) {}
+
+  /**
+   * Rules matching a tool call, built-in rules first
+   */
+  async match(toolCall: ToolCall): Promise<EnforcementRule[]> {
+    await this.refresh();
+    return [...DEFAULT_RULES, ...this.rules].filter(rule => matchesRule(rule, toolCall));
+  }
+
+  /**
+   * Every rule in evaluation order, built-in rules first
+   */
+  async all(): Promise<EnforcementRule[]> {
+    await this.refresh();
+    return [...DEFAULT_RULES, ...this.rules];
+  }
+
+  /**
+   * Enabled chain templates matching a tool call, in declaration order
+   */
+  async templatesFor(toolCall: ToolCall): Promise<ChainTemplate[]> {
+    return (await this.templates()).filter(template => matchesRule(template, toolCall));
+  }
+
+  /**
+   * Every enabled chain template: built-ins (unless replaced by id) then the YAML file's
+   */
+  async templates(): Promise<ChainTemplate[]> {
+    await this.refresh();
+    const overridden = new Set(this.chainTemplates.map(template => template.id));
+    return [...DEFAULT_CHAIN_TEMPLATES.filter(template => !overridden.has(template.id)), ...this.chainTemplates]
+      .filter(template => template.enabled !== false);
+  }
+
+  /**
+   * Guardrail policies from the rules file's `policies` section
+   */
+  async policy(): Promise<GuardrailPolicy> {
+    await this.refresh();
+    return this.guardrails;
+  }
+
+  /**
+   * Reload the rules file if it changed since the last load
+   */
+  async refresh(): Promise<void> {
+    if (!this.rulesPath) return;
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(this.rulesPath)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        if (this.loadedMtimeMs !== null) log.warn('Enforcement rules file removed, using built-in rules', { path: this.rulesPath });
+        this.rules = [];
+        this.chainTemplates = [];
+        this.guardrails = {};
+        this.loadedMtimeMs = null;
+        return;
+      }
+      throw error;
+    }
+
+    if (mtimeMs === this.loadedMtimeMs) return;
+
+    try {
+      const content = await fs.readFile(this.rulesPath, 'utf-8');
+      const rules = parseRules(content);
+      const templates = parseTemplates(content);
+      this.guardrails = parsePolicy(content);
+      this.rules = rules;
+      this.chainTemplates = templates;
+      log.info('Loaded enforcement rules', { rules: this.rules.length, templates: templates.length, path: this.rulesPath });
+    } catch (error) {
+      // Keep the previous rules so a bad edit doesn't disable enforcement
+      log.error('Failed to load enforcement rules, keeping previous set', { path: this.rulesPath, error });
+    }
+    this.loadedMtimeMs = mtimeMs;
+  }
+}
+
+/**
+ * Parse and validate a YAML rules document ({ rules: [...] })
+ */
+export function parseRules(content: string): EnforcementRule[] {
+  const document: any = yaml.load(content) || {};
+  const rules = document.rules ?? [];
+  if (!Array.isArray(rules)) {
+    throw new Error('"rules" must be a list');
+  }
+
+  const ids = new Set<string>();
+  return rules.map((rule: any, index: number) => {
+    const where = `rule ${rule?.id ?? `#${index + 1}`}`;
+
+    if (!rule || typeof rule.id !== 'string') throw new Error(`${where}: "id" must be a string`);
+    if (ids.has(rule.id)) throw new Error(`${where}: duplicate id`);
+    ids.add(rule.id);
+
+    validateMatch(rule.match, where);
+
+    const actions = rule.actions;
+    if (!actions || typeof actions !== 'object') throw new Error(`${where}: "actions" is required`);
+    if (actions.inject !== undefined && (typeof actions.inject !== 'object'
+      || !Object.values(actions.inject).every(path => typeof path === 'string'))) {
+      throw new Error(`${where}: "actions.inject" must map params to state paths`);
+    }
+    if (actions.chain !== undefined && !(Array.isArray(actions.chain)
+      && actions.chain.every((step: any) => typeof step?.tool === 'string'))) {
+      throw new Error(`${where}: "actions.chain" must be a list of { tool, params } steps`);
+    }
+    if (actions.block !== undefined && typeof actions.block !== 'string') {
+      throw new Error(`${where}: "actions.block" must be a message`);
+    }
+
+    return rule as EnforcementRule;
+  });
+}
+
+/**
+ * Parse and validate the `templates` section of a rules document
+ */
+export function parseTemplates(content: string): ChainTemplate[] {
+  const document: any = yaml.load(content) || {};
+  const templates = document.templates ?? [];
+  if (!Array.isArray(templates)) {
+    throw new Error('"templates" must be a list');
+  }
+
+  const ids = new Set<string>();
+  return templates.map((template: any, index: number) => {
+    const where = `template ${template?.id ?? `#${index + 1}`}`;
+
+    if (!template || typeof template.id !== 'string') throw new Error(`${where}: "id" must be a string`);
+    if (ids.has(template.id)) throw new Error(`${where}: duplicate id`);
+    ids.add(template.id);
+
+    // Only an id is needed to switch a built-in off
+    if (template.enabled === false && template.match === undefined && template.steps === undefined) {
+      return template as ChainTemplate;
+    }
+
+    validateMatch(template.match, where);
+    if (!(Array.isArray(template.steps) && template.steps.length > 0
+      && template.steps.every((step: any) => typeof step?.tool === 'string'))) {
+      throw new Error(`${where}: "steps" must be a non-empty list of { tool, params } steps`);
+    }
+    if (template.consumes !== undefined && !(Array.isArray(template.consumes)
+      && template.consumes.every((param: any) => typeof param === 'string'))) {
+      throw new Error(`${where}: "consumes" must be a list of param names`);
+    }
+
+    return template as ChainTemplate;
+  });
+}
+
+/**
+ * Parse and validate the `policies` section of a rules document
+ */
+export function parsePolicy(content: string): GuardrailPolicy {
+  const document: any = yaml.load(content) || {};
+  const policy = document.policies ?? {};
+  if (typeof policy !== 'object' || Array.isArray(policy)) {
+    throw new Error('"policies" must be a mapping');
+  }
+
+  const isGlobList = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+  for (const key of ['deny_tools', 'confirm_tools', 'read_only'] as const) {
+    if (policy[key] !== undefined && !isGlobList(policy[key])) {
+      throw new Error(`policies.${key} must be a list of strings`);
+    }
+  }
+  if (policy.destructive !== undefined) {
+    if (policy.destructive.tools !== undefined && !isGlobList(policy.destructive.tools)) {
+      throw new Error('policies.destructive.tools must be a list of strings');
+    }
+    if (policy.destructive.action !== undefined && !['deny', 'confirm'].includes(policy.destructive.action)) {
+      throw new Error('policies.destructive.action must be "deny" or "confirm"');
+    }
+  }
+  if (policy.write_scopes !== undefined
+    && !Object.values(policy.write_scopes).every(isGlobList)) {
+    throw new Error('policies.write_scopes must map connectors to lists of allowed scopes');
+  }
+
+  return policy as GuardrailPolicy;
+}
+
+/**
+ * Read a dotted path (e.g. connectors.linear.team.id) from an object
+ */
+export function readPath(source: any, path: string): any {
+  return path.split('.').reduce((node, key) => node?.[key], source);
+}
+
+function validateMatch(match: any, where: string): void {
+  const tools = match?.tool;
+  if (typeof tools !== 'string' && !(Array.isArray(tools) && tools.every((t: any) => typeof t === 'string'))) {
+    throw new Error(`${where}: "match.tool" must be a glob or list of globs`);
+  }
+  if (match.params !== undefined && (typeof match.params !== 'object' || match.params === null)) {
+    throw new Error(`${where}: "match.params" must be a mapping`);
+  }
+
+  // Compile patterns now, so a bad one rejects the file instead of failing every matching call
+  for (const [param, predicate] of Object.entries<any>(match.params || {})) {
+    if (predicate?.matches === undefined) continue;
+    try {
+      if (typeof predicate.matches !== 'string') throw new Error('expected a string');
+      new RegExp(predicate.matches);
+    } catch (error) {
+      throw new Error(`${where}: match.params.${param}.matches is not a valid pattern: ${(error as Error).message}`);
+    }
+  }
+}
+
+function matchesRule(rule: { match: RuleMatch }, toolCall: ToolCall): boolean {
+  const globs = Array.isArray(rule.match.tool) ? rule.match.tool : [rule.match.tool];
+  if (!globs.some(glob => globToRegExp(glob).test(toolCall.tool))) return false;
+
+  return Object.entries(rule.match.params || {}).every(
+    ([param, predicate]) => matchesPredicate(toolCall.params?.[param], predicate)
+  );
+}
+
+function matchesPredicate(value: any, predicate: ParamPredicate): boolean {
+  if (predicate === null || typeof predicate !== 'object') {
+    return value === predicate;
+  }
+
+  const exists = value !== undefined && value !== null;
+  if (predicate.exists !== undefined && predicate.exists !== exists) return false;
+  if ('equals' in predicate && value !== predicate.equals) return false;
+  if (predicate.in && !predicate.in.includes(value)) return false;
+  if (predicate.matches && !(typeof value === 'string' && new RegExp(predicate.matches).test(value))) return false;
+  return true;
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${pattern}$`);
+}
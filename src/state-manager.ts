@@ -1,22 +1,61 @@
 /**
  * State Manager
- * Persists and retrieves calibration and health data
+ * Persists and retrieves calibration and health data and the enforcement audit log,
+ * and publishes snapshots to the configured sync targets
  */
 
+import { EventEmitter } from 'events';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
-import { CalibrationState, HealthStatus } from './types';
+import {
+  AuditEntry,
+  AuditQuery,
+  CalibrationDrift,
+  CalibrationState,
+  ConnectorHealthRecord,
+  HealthStatus,
+  HistoryQuery,
+  LatencySummary,
+  StorageBackend,
+  StorageConfig,
+  SyncTarget
+} from './types';
+import { createStorageBackend } from './storage';
+import { createSyncTargets } from './sync';
+import { redactPII, redactSecrets } from './credentials/redact';
+import { logger } from './logging';
+import { DEFAULT_CONFIG } from './config';
 
-export class StateManager {
-  private calibrationPath: string;
-  private healthPath: string;
+const log = logger.child({ component: 'state' });
+
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Emits 'calibration' and 'health' whenever the corresponding state is rewritten,
+ * and 'drift' when a saved calibration differs from the one before it
+ */
+export class StateManager extends EventEmitter {
   private yamlExportPath: string;
+  private redactExport: boolean;
+  private retentionDays: number;
+  private lastPruned = 0;
+  private syncing: Promise<void> = Promise.resolve();
 
-  constructor() {
-    this.calibrationPath = path.join(process.cwd(), 'data', 'calibration.json');
-    this.healthPath = path.join(process.cwd(), 'data', 'health.json');
-    this.yamlExportPath = path.join(process.cwd(), 'calibration-state.yaml');
+  /**
+   * @param config Paths and retention; history older than history_retention_days is pruned at most once a day
+   * @param backend Where snapshots are stored; SQLite if a database is configured, JSON files otherwise
+   * @param syncTargets Published to after every save; the memory plugin and Notion dashboard when enabled
+   */
+  constructor(
+    config: StorageConfig = DEFAULT_CONFIG.storage,
+    private backend: StorageBackend = createStorageBackend(config),
+    private syncTargets: SyncTarget[] = createSyncTargets(config)
+  ) {
+    super();
+    this.yamlExportPath = path.resolve(config.yaml_export);
+    this.redactExport = config.redact_pii;
+    this.retentionDays = config.history_retention_days;
   }
 
   /**
@@ -24,22 +63,19 @@ export class StateManager {
    */
   async save(state: CalibrationState): Promise<void> {
     try {
-      // Ensure data directory exists
-      await fs.mkdir(path.dirname(this.calibrationPath), { recursive: true });
-
-      // Save JSON
-      await fs.writeFile(
-        this.calibrationPath,
-        JSON.stringify(state, null, 2),
-        'utf-8'
-      );
+      await this.backend.saveCalibration(state);
 
       // Export YAML
       await this.exportYAML(state);
 
-      console.log('✅ Calibration state saved');
+      log.info('Calibration state saved', { timestamp: state.timestamp });
+      this.publish();
+      this.emit('calibration', state);
+      if (state.drift && state.drift.changes.length > 0) {
+        this.emit('drift', state.drift, state);
+      }
     } catch (error) {
-      console.error('❌ Failed to save calibration state:', error);
+      log.error('Failed to save calibration state', { error });
       throw error;
     }
   }
@@ -49,33 +85,32 @@ export class StateManager {
    */
   async load(): Promise<CalibrationState | null> {
     try {
-      const data = await fs.readFile(this.calibrationPath, 'utf-8');
-      return JSON.parse(data);
-    } catch (error) {
-      if (error.code === 'ENOENT') {
-        console.log('⚠️  No calibration state found');
-        return null;
+      const state = await this.backend.loadCalibration();
+      if (!state) {
+        log.debug('No calibration state found');
       }
-      console.error('❌ Failed to load calibration state:', error);
+      return state;
+    } catch (error) {
+      log.error('Failed to load calibration state', { error });
       throw error;
     }
   }
 
   /**
-   * Export calibration state as YAML
+   * Export calibration state as YAML, for people and other tools to read
    */
   private async exportYAML(state: CalibrationState): Promise<void> {
     try {
-      const yamlContent = yaml.dump(state, {
+      const yamlContent = yaml.dump(this.redactExport ? redactPII(state) : state, {
         indent: 2,
         lineWidth: 120,
         noRefs: true
       });
 
-      await fs.writeFile(this.yamlExportPath, yamlContent, 'utf-8');
-      console.log('✅ YAML export created');
+      await fs.writeFile(this.yamlExportPath, redactSecrets(yamlContent), 'utf-8');
+      log.debug('YAML export written', { path: this.yamlExportPath });
     } catch (error) {
-      console.error('❌ Failed to export YAML:', error);
+      log.error('Failed to export YAML', { path: this.yamlExportPath, error });
     }
   }
 
@@ -84,19 +119,43 @@ export class StateManager {
    */
   async saveHealth(health: HealthStatus): Promise<void> {
     try {
-      await fs.mkdir(path.dirname(this.healthPath), { recursive: true });
-
-      await fs.writeFile(
-        this.healthPath,
-        JSON.stringify(health, null, 2),
-        'utf-8'
-      );
+      await this.backend.saveHealth(health);
 
-      console.log('✅ Health status saved');
+      log.debug('Health status saved', { timestamp: health.timestamp });
+      this.publish();
+      this.emit('health', health);
     } catch (error) {
-      console.error('❌ Failed to save health status:', error);
+      log.error('Failed to save health status', { error });
       throw error;
     }
+
+    await this.pruneIfDue();
+  }
+
+  /**
+   * Send the latest calibration and health to every sync target in the background.
+   * Syncs run one at a time so a slow target never sees snapshots out of order; a failing target is logged and skipped.
+   */
+  private publish(): void {
+    if (this.syncTargets.length === 0) return;
+
+    this.syncing = this.syncing.then(async () => {
+      const [calibration, health] = await Promise.all([this.backend.loadCalibration(), this.backend.loadHealth()]);
+      const snapshot = this.redactExport
+        ? { calibration: redactPII(calibration), health }
+        : { calibration, health };
+
+      for (const target of this.syncTargets) {
+        try {
+          await target.sync(snapshot);
+          log.debug('Synced state', { target: target.name });
+        } catch (error) {
+          log.error('Failed to sync state', { target: target.name, error });
+        }
+      }
+    }).catch(error => {
+      log.error('Failed to load state for sync', { error });
+    });
   }
 
   /**
@@ -104,17 +163,108 @@ export class StateManager {
    */
   async loadHealth(): Promise<HealthStatus | null> {
     try {
-      const data = await fs.readFile(this.healthPath, 'utf-8');
-      return JSON.parse(data);
+      return await this.backend.loadHealth();
     } catch (error) {
-      if (error.code === 'ENOENT') {
-        return null;
-      }
-      console.error('❌ Failed to load health status:', error);
+      log.error('Failed to load health status', { error });
       throw error;
     }
   }
 
+  /**
+   * Calibration snapshots, newest first
+   */
+  async calibrationHistory(query?: HistoryQuery): Promise<CalibrationState[]> {
+    return this.backend.calibrationHistory(query);
+  }
+
+  /**
+   * Drift reports with at least one change, newest first
+   */
+  async driftHistory(query?: HistoryQuery): Promise<CalibrationDrift[]> {
+    const history = await this.backend.calibrationHistory(query);
+    return history
+      .map(state => state.drift)
+      .filter((drift): drift is CalibrationDrift => !!drift && drift.changes.length > 0);
+  }
+
+  /**
+   * Health checks for one connector, newest first
+   */
+  async healthHistory(connector: string, query?: HistoryQuery): Promise<ConnectorHealthRecord[]> {
+    return this.backend.healthHistory(connector, query);
+  }
+
+  /**
+   * When a connector last failed a health check or calibration
+   */
+  async lastFailure(connector: string): Promise<ConnectorHealthRecord | null> {
+    return this.backend.lastFailure(connector);
+  }
+
+  /**
+   * Latency statistics for a connector over the last N days
+   */
+  async latencySummary(connector: string, days: number = 7): Promise<LatencySummary> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const records = await this.backend.healthHistory(connector, { since });
+    const latencies = records
+      .filter(record => record.status !== 'failed')
+      .map(record => record.latency_ms)
+      .sort((a, b) => a - b);
+
+    return {
+      connector,
+      since: since.toISOString(),
+      samples: records.length,
+      avg_ms: latencies.length > 0 ? Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length) : null,
+      p95_ms: latencies.length > 0 ? latencies[Math.ceil(latencies.length * 0.95) - 1] : null,
+      max_ms: latencies.length > 0 ? latencies[latencies.length - 1] : null,
+      failures: records.length - latencies.length
+    };
+  }
+
+  /**
+   * Append an enforced call to the audit log; a failed write is logged rather than failing the call
+   */
+  async recordEnforcement(entry: AuditEntry): Promise<void> {
+    try {
+      await this.backend.appendAudit(JSON.parse(redactSecrets(JSON.stringify(entry))));
+    } catch (error) {
+      log.error('Failed to record enforcement audit entry', { id: entry.id, tool: entry.tool, error });
+    }
+  }
+
+  /**
+   * Audit entries filtered by tool, connector, outcome and time range, newest first
+   */
+  async auditLog(query?: AuditQuery): Promise<AuditEntry[]> {
+    return this.backend.auditLog(query);
+  }
+
+  async auditEntry(id: string): Promise<AuditEntry | null> {
+    return this.backend.auditEntry(id);
+  }
+
+  /**
+   * Delete history beyond the retention window
+   */
+  async prune(retentionDays: number = this.retentionDays): Promise<number> {
+    this.lastPruned = Date.now();
+    const removed = await this.backend.prune(retentionDays);
+    if (removed > 0) {
+      log.info('Pruned history', { removed, retention_days: retentionDays });
+    }
+    return removed;
+  }
+
+  /**
+   * Finish pending syncs and release the storage backend
+   */
+  async close(): Promise<void> {
+    await this.syncing;
+    await this.backend.close();
+  }
+
   /**
    * Get calibration age in hours
    */
@@ -136,4 +286,13 @@ export class StateManager {
     if (age === null) return true;
     return age > maxAgeHours;
   }
+
+  private async pruneIfDue(): Promise<void> {
+    if (Date.now() - this.lastPruned < PRUNE_INTERVAL_MS) return;
+    try {
+      await this.prune();
+    } catch (error) {
+      log.error('Failed to prune history', { error });
+    }
+  }
 }
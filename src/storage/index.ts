@@ -0,0 +1,25 @@
+/**
+ * Storage Backends
+ * Selects where calibration and health state and the enforcement audit log are persisted
+ */
+
+import * as path from 'path';
+import { StorageBackend, StorageConfig } from '../types';
+import { JsonStorageBackend } from './json-backend';
+import { SqliteStorageBackend } from './sqlite-backend';
+
+export { JsonStorageBackend, SqliteStorageBackend };
+
+/**
+ * SQLite when a database path is configured, otherwise the latest-snapshot JSON files
+ */
+export function createStorageBackend(config: StorageConfig): StorageBackend {
+  if (config.database) {
+    return new SqliteStorageBackend(config.database, config.data_dir);
+  }
+  return new JsonStorageBackend(
+    path.resolve(config.data_dir, 'calibration.json'),
+    path.resolve(config.data_dir, 'health.json'),
+    path.resolve(config.data_dir, 'audit.jsonl')
+  );
+}
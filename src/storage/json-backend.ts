@@ -0,0 +1,155 @@
+/**
+ * JSON Storage Backend
+ * Keeps only the latest calibration and health snapshot on disk, plus the enforcement audit log as JSON lines
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  AuditEntry,
+  AuditQuery,
+  CalibrationState,
+  ConnectorHealthRecord,
+  HealthStatus,
+  HistoryQuery,
+  StorageBackend
+} from '../types';
+
+export class JsonStorageBackend implements StorageBackend {
+  constructor(
+    private calibrationPath: string = path.join(process.cwd(), 'data', 'calibration.json'),
+    private healthPath: string = path.join(process.cwd(), 'data', 'health.json'),
+    private auditPath: string = path.join(process.cwd(), 'data', 'audit.jsonl')
+  ) {}
+
+  async saveCalibration(state: CalibrationState): Promise<void> {
+    await this.writeJSON(this.calibrationPath, state);
+  }
+
+  async loadCalibration(): Promise<CalibrationState | null> {
+    return this.readJSON(this.calibrationPath);
+  }
+
+  async saveHealth(health: HealthStatus): Promise<void> {
+    await this.writeJSON(this.healthPath, health);
+  }
+
+  async loadHealth(): Promise<HealthStatus | null> {
+    return this.readJSON(this.healthPath);
+  }
+
+  async calibrationHistory(query: HistoryQuery = {}): Promise<CalibrationState[]> {
+    const state = await this.loadCalibration();
+    return state && inRange(state.timestamp, query) ? [state] : [];
+  }
+
+  async healthHistory(connector: string, query: HistoryQuery = {}): Promise<ConnectorHealthRecord[]> {
+    const health = await this.loadHealth();
+    const record = health?.connectors[connector];
+    return record && inRange(record.last_check, query) ? [{ connector, ...record }] : [];
+  }
+
+  async lastFailure(connector: string): Promise<ConnectorHealthRecord | null> {
+    const health = await this.loadHealth();
+    const record = health?.connectors[connector];
+    if (record?.status === 'failed') return { connector, ...record };
+
+    const calibration = (await this.loadCalibration())?.connectors[connector];
+    if (calibration?.status === 'failed') {
+      return {
+        connector,
+        status: 'failed',
+        latency_ms: 0,
+        last_check: calibration.last_verified,
+        error: calibration.error,
+        error_type: calibration.error_type
+      };
+    }
+    return null;
+  }
+
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.auditPath), { recursive: true });
+    await fs.appendFile(this.auditPath, JSON.stringify(entry) + '\n', 'utf-8');
+  }
+
+  async auditLog(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const entries = (await this.readAudit())
+      .filter(entry => matchesAudit(entry, query))
+      .reverse();
+    return query.limit ? entries.slice(0, Math.max(0, Math.floor(query.limit))) : entries;
+  }
+
+  async auditEntry(id: string): Promise<AuditEntry | null> {
+    return (await this.readAudit()).find(entry => entry.id === id) ?? null;
+  }
+
+  async prune(retentionDays: number): Promise<number> {
+    // Only the latest snapshots are kept, so just the audit log grows
+    const entries = await this.readAudit();
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const kept = entries.filter(entry => Date.parse(entry.timestamp) >= cutoff);
+    if (kept.length === entries.length) return 0;
+
+    const tmp = `${this.auditPath}.tmp`;
+    await fs.writeFile(tmp, kept.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf-8');
+    await fs.rename(tmp, this.auditPath);
+    return entries.length - kept.length;
+  }
+
+  async close(): Promise<void> {}
+
+  private async writeJSON(file: string, data: any): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(data, null, 2), 'utf-8');
+  }
+
+  /**
+   * Audit entries oldest first, skipping a line cut short by a crash mid-append
+   */
+  private async readAudit(): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.auditPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Partial trailing line
+      }
+    }
+    return entries;
+  }
+
+  private async readJSON(file: string): Promise<any> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+export function inRange(timestamp: string, query: HistoryQuery): boolean {
+  const time = Date.parse(timestamp);
+  return (!query.since || time >= query.since.getTime()) && (!query.until || time <= query.until.getTime());
+}
+
+function matchesAudit(entry: AuditEntry, query: AuditQuery): boolean {
+  return inRange(entry.timestamp, query)
+    && (!query.tool || entry.tool === query.tool)
+    && (!query.connector || entry.connector === query.connector)
+    && (!query.outcome || entry.outcome === query.outcome);
+}
@@ -0,0 +1,381 @@
+/**
+ * SQLite Storage Backend
+ * Keeps every calibration snapshot, health check and enforced call for history queries
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { logger } from '../logging';
+import {
+  AuditEntry,
+  AuditQuery,
+  CalibrationState,
+  ConnectorHealthRecord,
+  HealthStatus,
+  HistoryQuery,
+  StorageBackend
+} from '../types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS calibration_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp TEXT NOT NULL,
+    state TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_calibration_timestamp ON calibration_snapshots (timestamp);
+
+  CREATE TABLE IF NOT EXISTS connector_calibrations (
+    snapshot_id INTEGER NOT NULL REFERENCES calibration_snapshots (id) ON DELETE CASCADE,
+    connector TEXT NOT NULL,
+    status TEXT NOT NULL,
+    error TEXT,
+    error_type TEXT,
+    verified_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_connector_calibrations ON connector_calibrations (connector, verified_at);
+
+  CREATE TABLE IF NOT EXISTS health_checks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp TEXT NOT NULL,
+    overall TEXT NOT NULL,
+    status TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_health_timestamp ON health_checks (timestamp);
+
+  CREATE TABLE IF NOT EXISTS connector_health (
+    check_id INTEGER NOT NULL REFERENCES health_checks (id) ON DELETE CASCADE,
+    connector TEXT NOT NULL,
+    status TEXT NOT NULL,
+    latency_ms INTEGER NOT NULL,
+    error TEXT,
+    error_type TEXT,
+    checked_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_connector_health ON connector_health (connector, checked_at);
+
+  CREATE TABLE IF NOT EXISTS enforcement_audit (
+    id TEXT PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    correlation_id TEXT NOT NULL,
+    tool TEXT NOT NULL,
+    connector TEXT,
+    outcome TEXT NOT NULL,
+    duration_ms REAL NOT NULL,
+    result TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON enforcement_audit (timestamp);
+  CREATE INDEX IF NOT EXISTS idx_audit_tool ON enforcement_audit (tool, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_audit_connector ON enforcement_audit (connector, timestamp);
+`;
+
+export class SqliteStorageBackend implements StorageBackend {
+  private db: Database.Database;
+
+  /**
+   * @param dbPath SQLite file, created along with its directory if missing
+   * @param legacyDir Directory holding calibration.json/health.json to import into an empty database
+   */
+  constructor(dbPath: string, legacyDir: string = path.join(process.cwd(), 'data')) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+    this.migrateLegacyJSON(legacyDir);
+  }
+
+  async saveCalibration(state: CalibrationState): Promise<void> {
+    this.insertCalibration(state);
+  }
+
+  async loadCalibration(): Promise<CalibrationState | null> {
+    const row = this.db
+      .prepare('SELECT state FROM calibration_snapshots ORDER BY timestamp DESC, id DESC LIMIT 1')
+      .get() as { state: string } | undefined;
+    return row ? JSON.parse(row.state) : null;
+  }
+
+  async saveHealth(health: HealthStatus): Promise<void> {
+    this.insertHealth(health);
+  }
+
+  async loadHealth(): Promise<HealthStatus | null> {
+    const row = this.db
+      .prepare('SELECT status FROM health_checks ORDER BY timestamp DESC, id DESC LIMIT 1')
+      .get() as { status: string } | undefined;
+    return row ? JSON.parse(row.status) : null;
+  }
+
+  async calibrationHistory(query: HistoryQuery = {}): Promise<CalibrationState[]> {
+    const { where, params } = rangeClause('timestamp', query);
+    const { limit, limitParams } = limitClause(query);
+    const rows = this.db
+      .prepare(`SELECT state FROM calibration_snapshots ${where} ORDER BY timestamp DESC, id DESC ${limit}`)
+      .all(...params, ...limitParams) as { state: string }[];
+    return rows.map(row => JSON.parse(row.state));
+  }
+
+  async healthHistory(connector: string, query: HistoryQuery = {}): Promise<ConnectorHealthRecord[]> {
+    const { where, params } = rangeClause('checked_at', query, ['connector = ?']);
+    const { limit, limitParams } = limitClause(query);
+    const rows = this.db
+      .prepare(`SELECT * FROM connector_health ${where} ORDER BY checked_at DESC ${limit}`)
+      .all(connector, ...params, ...limitParams) as HealthRow[];
+    return rows.map(toRecord);
+  }
+
+  async lastFailure(connector: string): Promise<ConnectorHealthRecord | null> {
+    const health = this.db
+      .prepare(`SELECT * FROM connector_health WHERE connector = ? AND status = 'failed' ORDER BY checked_at DESC LIMIT 1`)
+      .get(connector) as HealthRow | undefined;
+    const calibration = this.db
+      .prepare(`SELECT * FROM connector_calibrations WHERE connector = ? AND status = 'failed' ORDER BY verified_at DESC LIMIT 1`)
+      .get(connector) as CalibrationRow | undefined;
+
+    if (calibration && (!health || calibration.verified_at > health.checked_at)) {
+      return {
+        connector,
+        status: 'failed',
+        latency_ms: 0,
+        last_check: calibration.verified_at,
+        error: calibration.error ?? undefined,
+        error_type: (calibration.error_type ?? undefined) as ConnectorHealthRecord['error_type']
+      };
+    }
+    return health ? toRecord(health) : null;
+  }
+
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    this.db
+      .prepare(
+        'INSERT INTO enforcement_audit (id, timestamp, correlation_id, tool, connector, outcome, duration_ms, result) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+      )
+      .run(
+        entry.id,
+        entry.timestamp,
+        entry.correlation_id,
+        entry.tool,
+        entry.connector ?? null,
+        entry.outcome,
+        entry.duration_ms,
+        JSON.stringify(entry.result)
+      );
+  }
+
+  async auditLog(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const conditions: string[] = [];
+    const filters: string[] = [];
+    for (const column of ['tool', 'connector', 'outcome'] as const) {
+      if (query[column]) {
+        conditions.push(`${column} = ?`);
+        filters.push(query[column]!);
+      }
+    }
+    const { where, params } = rangeClause('timestamp', query, conditions);
+    const { limit, limitParams } = limitClause(query);
+    const rows = this.db
+      .prepare(`SELECT * FROM enforcement_audit ${where} ORDER BY timestamp DESC, rowid DESC ${limit}`)
+      .all(...filters, ...params, ...limitParams) as AuditRow[];
+    return rows.map(toAuditEntry);
+  }
+
+  async auditEntry(id: string): Promise<AuditEntry | null> {
+    const row = this.db.prepare('SELECT * FROM enforcement_audit WHERE id = ?').get(id) as AuditRow | undefined;
+    return row ? toAuditEntry(row) : null;
+  }
+
+  async prune(retentionDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    // Connector rows go with their parent via ON DELETE CASCADE
+    const prune = this.db.transaction(() => {
+      const calibrations = this.db.prepare('SELECT id FROM calibration_snapshots ORDER BY timestamp DESC, id DESC LIMIT 1').get() as { id: number } | undefined;
+      const health = this.db.prepare('SELECT id FROM health_checks ORDER BY timestamp DESC, id DESC LIMIT 1').get() as { id: number } | undefined;
+
+      // Never prune the latest snapshot, however old it is
+      return this.db
+        .prepare('DELETE FROM calibration_snapshots WHERE timestamp < ? AND id != ?')
+        .run(cutoff, calibrations?.id ?? -1).changes
+        + this.db
+          .prepare('DELETE FROM health_checks WHERE timestamp < ? AND id != ?')
+          .run(cutoff, health?.id ?? -1).changes
+        + this.db
+          .prepare('DELETE FROM enforcement_audit WHERE timestamp < ?')
+          .run(cutoff).changes;
+    });
+    return prune();
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private insertCalibration(state: CalibrationState): void {
+    const insert = this.db.transaction(() => {
+      const { lastInsertRowid } = this.db
+        .prepare('INSERT INTO calibration_snapshots (timestamp, state) VALUES (?, ?)')
+        .run(state.timestamp, JSON.stringify(state));
+
+      const row = this.db.prepare(
+        'INSERT INTO connector_calibrations (snapshot_id, connector, status, error, error_type, verified_at) VALUES (?, ?, ?, ?, ?, ?)'
+      );
+      const latest = this.db.prepare('SELECT MAX(verified_at) AS at FROM connector_calibrations WHERE connector = ?');
+      for (const [connector, status] of Object.entries(state.connectors)) {
+        // Partial calibrations carry other connectors over unchanged; record each result once
+        const verifiedAt = status.last_verified || state.timestamp;
+        if (verifiedAt <= ((latest.get(connector) as { at: string | null }).at ?? '')) continue;
+
+        row.run(
+          lastInsertRowid,
+          connector,
+          status.status,
+          status.error ?? null,
+          status.error_type ?? null,
+          verifiedAt
+        );
+      }
+    });
+    insert();
+  }
+
+  private insertHealth(health: HealthStatus): void {
+    const insert = this.db.transaction(() => {
+      const { lastInsertRowid } = this.db
+        .prepare('INSERT INTO health_checks (timestamp, overall, status) VALUES (?, ?, ?)')
+        .run(health.timestamp, health.overall, JSON.stringify(health));
+
+      const row = this.db.prepare(
+        'INSERT INTO connector_health (check_id, connector, status, latency_ms, error, error_type, checked_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+      );
+      const latest = this.db.prepare('SELECT MAX(checked_at) AS at FROM connector_health WHERE connector = ?');
+      for (const [connector, status] of Object.entries(health.connectors)) {
+        // Partial health checks carry other connectors over unchanged; record each probe once
+        const checkedAt = status.last_check || health.timestamp;
+        if (checkedAt <= ((latest.get(connector) as { at: string | null }).at ?? '')) continue;
+
+        row.run(
+          lastInsertRowid,
+          connector,
+          status.status,
+          Math.round(status.latency_ms),
+          status.error ?? null,
+          status.error_type ?? null,
+          checkedAt
+        );
+      }
+    });
+    insert();
+  }
+
+  /**
+   * Seed an empty database from the JSON files written by the JSON backend
+   */
+  private migrateLegacyJSON(dir: string): void {
+    const calibrationCount = this.db.prepare('SELECT COUNT(*) AS n FROM calibration_snapshots').get() as { n: number };
+    if (calibrationCount.n === 0) {
+      const state = readLegacy(path.join(dir, 'calibration.json'));
+      if (state) {
+        this.insertCalibration(state);
+        logger.info('Imported calibration.json into SQLite history', { component: 'state' });
+      }
+    }
+
+    const healthCount = this.db.prepare('SELECT COUNT(*) AS n FROM health_checks').get() as { n: number };
+    if (healthCount.n === 0) {
+      const health = readLegacy(path.join(dir, 'health.json'));
+      if (health) {
+        this.insertHealth(health);
+        logger.info('Imported health.json into SQLite history', { component: 'state' });
+      }
+    }
+  }
+}
+
+interface HealthRow {
+  connector: string;
+  status: ConnectorHealthRecord['status'];
+  latency_ms: number;
+  error: string | null;
+  error_type: string | null;
+  checked_at: string;
+}
+
+interface CalibrationRow {
+  connector: string;
+  status: string;
+  error: string | null;
+  error_type: string | null;
+  verified_at: string;
+}
+
+interface AuditRow {
+  id: string;
+  timestamp: string;
+  correlation_id: string;
+  tool: string;
+  connector: string | null;
+  outcome: AuditEntry['outcome'];
+  duration_ms: number;
+  result: string;
+}
+
+function toAuditEntry(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    correlation_id: row.correlation_id,
+    tool: row.tool,
+    connector: row.connector ?? undefined,
+    outcome: row.outcome,
+    duration_ms: row.duration_ms,
+    result: JSON.parse(row.result)
+  };
+}
+
+function toRecord(row: HealthRow): ConnectorHealthRecord {
+  return {
+    connector: row.connector,
+    status: row.status,
+    latency_ms: row.latency_ms,
+    last_check: row.checked_at,
+    error: row.error ?? undefined,
+    error_type: (row.error_type ?? undefined) as ConnectorHealthRecord['error_type']
+  };
+}
+
+function rangeClause(column: string, query: HistoryQuery, conditions: string[] = []): { where: string; params: string[] } {
+  const params: string[] = [];
+  if (query.since) {
+    conditions.push(`${column} >= ?`);
+    params.push(query.since.toISOString());
+  }
+  if (query.until) {
+    conditions.push(`${column} <= ?`);
+    params.push(query.until.toISOString());
+  }
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+/**
+ * A bound LIMIT for the query; a missing or zero limit returns every row
+ */
+function limitClause(query: HistoryQuery): { limit: string; limitParams: number[] } {
+  if (query.limit === undefined || query.limit === 0) return { limit: '', limitParams: [] };
+  if (!Number.isInteger(query.limit) || query.limit < 0) {
+    throw new RangeError(`History limit must be a non-negative integer, got ${query.limit}`);
+  }
+  return { limit: 'LIMIT ?', limitParams: [query.limit] };
+}
+
+function readLegacy(file: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn('Skipping unreadable legacy state', { component: 'state', file, error });
+    }
+    return null;
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Sync Targets
+ * Builds the configured destinations for calibration and health snapshots
+ */
+
+import { StorageConfig, SyncTarget } from '../types';
+import { logger } from '../logging';
+import { MemoryPluginSync, memoryGraph } from './memory-plugin';
+import { NotionDashboardSync } from './notion-dashboard';
+
+export { MemoryPluginSync, NotionDashboardSync, memoryGraph };
+export type { MemoryEntity, MemoryGraph, MemoryRelation } from './memory-plugin';
+export type { NotionDashboardClient } from './notion-dashboard';
+
+/**
+ * Targets enabled by the storage config
+ */
+export function createSyncTargets(config: StorageConfig): SyncTarget[] {
+  const targets: SyncTarget[] = [];
+
+  if (config.memory_plugin_sync) {
+    targets.push(new MemoryPluginSync(config.memory_plugin_path));
+  }
+  if (config.notion_dashboard_sync) {
+    if (config.notion_dashboard_database_id) {
+      targets.push(new NotionDashboardSync(config.notion_dashboard_database_id));
+    } else {
+      logger.warn('NOTION_DASHBOARD_SYNC is set but NOTION_DASHBOARD_DATABASE_ID is not; skipping the Notion dashboard');
+    }
+  }
+
+  return targets;
+}
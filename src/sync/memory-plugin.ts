@@ -0,0 +1,170 @@
+/**
+ * Memory Plugin Sync
+ * Mirrors connectors, accounts and scopes into the JSONL knowledge graph read by MCP memory servers
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { redactSecrets } from '../credentials/redact';
+import { ConnectorHealth, ConnectorStatus, SyncSnapshot, SyncTarget } from '../types';
+
+export interface MemoryEntity {
+  name: string;
+  entityType: string;
+  observations: string[];
+}
+
+export interface MemoryRelation {
+  from: string;
+  to: string;
+  relationType: string;
+}
+
+export interface MemoryGraph {
+  entities: MemoryEntity[];
+  relations: MemoryRelation[];
+}
+
+/** Entity types this engine owns; everything else in the file belongs to the agent and is kept */
+const ENTITY_TYPES = ['mcp_connector', 'mcp_account', 'mcp_scope'];
+const RELATION_TYPES = ['authenticates_as', 'has_access_to', 'defaults_to'];
+
+/** Scope collections and what each entry is called */
+const SCOPE_KINDS: Record<string, string> = { teams: 'team', workspaces: 'workspace', orgs: 'owner' };
+
+export class MemoryPluginSync implements SyncTarget {
+  name = 'memory';
+
+  /**
+   * @param filePath The memory server's MEMORY_FILE_PATH; other entities and relations in it are left alone
+   */
+  constructor(private filePath: string) {}
+
+  async sync(snapshot: SyncSnapshot): Promise<void> {
+    const existing = await this.read();
+    const graph = memoryGraph(snapshot);
+
+    // Replace what we wrote last time; the agent's own relations survive unless their entity is gone
+    const current = new Set(graph.entities.map(entity => entity.name));
+    const previous = new Set(existing
+      .filter(line => line.type === 'entity' && ENTITY_TYPES.includes(line.entityType))
+      .map(line => line.name));
+    const removed = new Set([...previous].filter(name => !current.has(name)));
+    const kept = existing.filter(line => {
+      if (line.type === 'entity') return !previous.has(line.name) && !current.has(line.name);
+      if (line.type !== 'relation') return true;
+      if (removed.has(line.from) || removed.has(line.to)) return false;
+      return !(RELATION_TYPES.includes(line.relationType) && (previous.has(line.from) || current.has(line.from)));
+    });
+
+    const lines = [
+      ...kept,
+      ...graph.entities.map(entity => ({ type: 'entity', ...entity })),
+      ...graph.relations.map(relation => ({ type: 'relation', ...relation }))
+    ];
+
+    // Write then rename, so a memory server reading the file never sees half of it
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    await fs.writeFile(tmp, lines.map(line => JSON.stringify(line)).join('\n') + '\n', 'utf-8');
+    await fs.rename(tmp, this.filePath);
+  }
+
+  private async read(): Promise<any[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    return content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+  }
+}
+
+/**
+ * Entities and relations describing each connector, the account it acts as and the scopes it reaches
+ */
+export function memoryGraph({ calibration, health }: SyncSnapshot): MemoryGraph {
+  const graph: MemoryGraph = { entities: [], relations: [] };
+  const connectors = new Set([...Object.keys(calibration?.connectors || {}), ...Object.keys(health?.connectors || {})]);
+
+  for (const connector of connectors) {
+    const status = calibration?.connectors[connector];
+    const name = `MCP connector: ${connector}`;
+    graph.entities.push({ name, entityType: 'mcp_connector', observations: connectorObservations(status, health?.connectors[connector]) });
+    if (status?.status !== 'authenticated') continue;
+
+    const account = accountEntity(connector, status);
+    if (account) {
+      graph.entities.push(account);
+      graph.relations.push({ from: name, to: account.name, relationType: 'authenticates_as' });
+    }
+
+    for (const [collection, kind] of Object.entries(SCOPE_KINDS)) {
+      for (const scope of (status as any)[collection] || []) {
+        const label = scope.key || scope.name || scope.login || scope.gid || scope.id;
+        const entity: MemoryEntity = {
+          name: `${connector} ${kind}: ${label}`,
+          entityType: 'mcp_scope',
+          observations: [
+            ...(scope.name && scope.name !== label ? [`Name: ${scope.name}`] : []),
+            ...(scope.id || scope.gid ? [`ID: ${scope.id ?? scope.gid}`] : [])
+          ]
+        };
+        graph.entities.push(entity);
+        graph.relations.push({ from: name, to: entity.name, relationType: isDefault(status, scope) ? 'defaults_to' : 'has_access_to' });
+      }
+    }
+  }
+
+  return graph;
+}
+
+function connectorObservations(status?: ConnectorStatus, health?: ConnectorHealth): string[] {
+  const observations: string[] = [];
+  if (status) {
+    observations.push(`Calibration: ${status.status} as of ${status.last_verified}`);
+    if (status.credential) observations.push(`Credential in use: ${status.credential}`);
+    if (status.status === 'failed' && status.error) observations.push(`Calibration error: ${redactSecrets(status.error)}`);
+  }
+  if (health) {
+    observations.push(`Health: ${health.status}, ${Math.round(health.latency_ms)}ms as of ${health.last_check}`);
+    if (health.error) observations.push(`Health error: ${redactSecrets(health.error)}`);
+  }
+  return observations;
+}
+
+function accountEntity(connector: string, status: ConnectorStatus): MemoryEntity | null {
+  const user = status.user;
+  if (user) {
+    const label = user.login || user.email || user.name || user.id || user.gid;
+    return {
+      name: `${connector} account: ${label}`,
+      entityType: 'mcp_account',
+      observations: [
+        ...(user.name ? [`Name: ${user.name}`] : []),
+        ...(user.email ? [`Email: ${user.email}`] : []),
+        ...(user.login ? [`Login: ${user.login}`] : []),
+        ...(user.id || user.gid ? [`ID: ${user.id ?? user.gid}`] : [])
+      ]
+    };
+  }
+  if (status.bot) {
+    return {
+      name: `${connector} account: ${status.bot.name || status.bot.id}`,
+      entityType: 'mcp_account',
+      observations: ['Integration bot', `ID: ${status.bot.id}`]
+    };
+  }
+  return null;
+}
+
+function isDefault(status: ConnectorStatus, scope: any): boolean {
+  if (scope.default) return true;
+  const selected = status.team || status.workspace;
+  return !!selected && (scope.id ?? scope.gid) !== undefined && (scope.id ?? scope.gid) === (selected.id ?? selected.gid);
+}
@@ -0,0 +1,109 @@
+/**
+ * Notion Dashboard Sync
+ * Keeps one page per connector in a Notion database, updated in place on every calibration and health check
+ */
+
+import { NotionClient } from '../connectors/notion';
+import { redactSecrets } from '../credentials/redact';
+import { logger } from '../logging';
+import { ConnectorHealth, ConnectorStatus, SyncSnapshot, SyncTarget } from '../types';
+
+const log = logger.child({ component: 'sync' });
+
+/**
+ * The Notion calls the dashboard needs; NotionClient implements it
+ */
+export interface NotionDashboardClient {
+  getDatabaseProperties(databaseId: string): Promise<Record<string, string>>;
+  addDatabaseProperties(databaseId: string, properties: Record<string, any>): Promise<void>;
+  findDatabasePage(databaseId: string, titleProperty: string, title: string): Promise<string | null>;
+  createDatabasePage(databaseId: string, properties: Record<string, any>): Promise<string>;
+  updatePageProperties(pageId: string, properties: Record<string, any>): Promise<void>;
+}
+
+/** Columns added to the database when missing; the connector name goes in its title column */
+const COLUMNS: Record<string, any> = {
+  Status: { select: {} },
+  Health: { select: {} },
+  'Latency (ms)': { number: { format: 'number' } },
+  'Last Verified': { date: {} },
+  'Last Checked': { date: {} },
+  Identity: { rich_text: {} },
+  Error: { rich_text: {} }
+};
+
+/** Notion rejects rich text longer than this */
+const MAX_TEXT = 2000;
+
+export class NotionDashboardSync implements SyncTarget {
+  name = 'notion';
+  private titleProperty: string | null = null;
+  private pages = new Map<string, string>();
+
+  /**
+   * @param databaseId Database shared with the integration; missing columns are added on first sync
+   */
+  constructor(private databaseId: string, private client: NotionDashboardClient = new NotionClient()) {}
+
+  async sync({ calibration, health }: SyncSnapshot): Promise<void> {
+    const titleProperty = await this.prepareDatabase();
+    const connectors = new Set([...Object.keys(calibration?.connectors || {}), ...Object.keys(health?.connectors || {})]);
+
+    for (const connector of connectors) {
+      const properties = {
+        [titleProperty]: { title: [{ type: 'text', text: { content: connector } }] },
+        ...columns(calibration?.connectors[connector], health?.connectors[connector])
+      };
+
+      // Pages are found by title, so a dashboard outlives restarts and manual re-ordering
+      const pageId = this.pages.get(connector) ?? await this.client.findDatabasePage(this.databaseId, titleProperty, connector);
+      if (pageId) {
+        await this.client.updatePageProperties(pageId, properties);
+        this.pages.set(connector, pageId);
+      } else {
+        this.pages.set(connector, await this.client.createDatabasePage(this.databaseId, properties));
+        log.info('Created Notion dashboard page', { connector });
+      }
+    }
+  }
+
+  /**
+   * Find the title column and add any missing dashboard columns, once per process
+   */
+  private async prepareDatabase(): Promise<string> {
+    if (this.titleProperty) return this.titleProperty;
+
+    const existing = await this.client.getDatabaseProperties(this.databaseId);
+    const title = Object.keys(existing).find(name => existing[name] === 'title');
+    if (!title) {
+      throw new Error(`Notion database ${this.databaseId} has no title property`);
+    }
+
+    const missing = Object.entries(COLUMNS).filter(([name]) => !(name in existing));
+    if (missing.length > 0) {
+      await this.client.addDatabaseProperties(this.databaseId, Object.fromEntries(missing));
+    }
+    this.titleProperty = title;
+    return title;
+  }
+}
+
+function columns(status?: ConnectorStatus, health?: ConnectorHealth): Record<string, any> {
+  const user = status?.user;
+  const identity = user ? user.email || user.login || user.name : status?.bot?.name;
+  const error = health?.status === 'failed' ? health.error : status?.status === 'failed' ? status.error : undefined;
+
+  return {
+    Status: { select: status ? { name: status.status } : null },
+    Health: { select: health ? { name: health.status } : null },
+    'Latency (ms)': { number: health ? Math.round(health.latency_ms) : null },
+    'Last Verified': { date: status?.last_verified ? { start: status.last_verified } : null },
+    'Last Checked': { date: health?.last_check ? { start: health.last_check } : null },
+    Identity: { rich_text: text(identity) },
+    Error: { rich_text: text(error && redactSecrets(error)) }
+  };
+}
+
+function text(content?: string | null): any[] {
+  return content ? [{ type: 'text', text: { content: content.slice(0, MAX_TEXT) } }] : [];
+}
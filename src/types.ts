@@ -4,22 +4,51 @@
 
 export interface CalibrationState {
   timestamp: string;
-  connectors: {
-    asana?: ConnectorStatus;
-    linear?: ConnectorStatus;
-    github?: ConnectorStatus;
-    notion?: ConnectorStatus;
-  };
+  connectors: Record<string, ConnectorStatus>;
+  /** Changes since the previous calibration, absent on the first run */
+  drift?: CalibrationDrift;
 }
 
+export type DriftSeverity = 'info' | 'warning' | 'critical';
+
+export interface CalibrationDrift {
+  /** Timestamp of the snapshot compared against */
+  from: string;
+  to: string;
+  /** Highest severity among the changes, absent when nothing changed */
+  severity?: DriftSeverity;
+  changes: DriftChange[];
+}
+
+export interface DriftChange {
+  connector: string;
+  /** Where the change is, e.g. user.email or teams[ENG].name */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+  severity: DriftSeverity;
+  message: string;
+}
+
+export type ErrorClass = 'auth' | 'rate_limit' | 'transient' | 'permanent';
+
 export interface ConnectorStatus {
   status: 'authenticated' | 'failed' | 'pending';
   user?: any;
+  /** Default scope used for identifier injection */
   workspace?: any;
   team?: any;
+  /** Every scope discovered during calibration */
+  workspaces?: any[];
+  teams?: any[];
+  orgs?: any[];
   stats?: any;
   bot?: any;
   error?: string;
+  error_type?: ErrorClass;
+  /** Label of the credential the platform accepted, when several are configured */
+  credential?: string;
   last_verified: string;
 }
 
@@ -33,18 +62,238 @@ export interface EnforcementResult {
   enhanced: ToolCall;
   modifications: string[];
   enforce_pagination?: boolean;
-  chain_operations?: ToolCall[];
+  chain_operations?: ChainStep[];
+  /** Wait this long before calling, to let the connector's rate limit reset */
+  delay_ms?: number;
+  /** Set when the call must not be made */
+  denied?: EnforcementDenial;
+  /** Set when a human must approve the call before it is made */
+  confirmation?: ConfirmationRequest;
+  outcome: 'allowed' | 'denied' | 'confirmation_required';
+  /** Pass to executeWithPagination/executeChain so their logs and spans join this call's trace */
+  correlation_id?: string;
+}
+
+/**
+ * One enforced call as recorded in the audit log
+ */
+export interface AuditEntry {
+  /** Handle for looking the entry up and replaying it */
+  id: string;
+  /** When enforcement started */
+  timestamp: string;
+  correlation_id: string;
+  tool: string;
+  /** Connector owning the tool, unset for unknown tools */
+  connector?: string;
+  outcome: EnforcementResult['outcome'];
+  duration_ms: number;
+  result: EnforcementResult;
+}
+
+export interface AuditQuery extends HistoryQuery {
+  tool?: string;
+  connector?: string;
+  outcome?: EnforcementResult['outcome'];
+}
+
+/**
+ * How re-enforcing a recorded call differs from what was recorded
+ */
+export interface EnforcementChange {
+  /** e.g. outcome, enhanced.params.team_id, modifications, chain_operations */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+  message: string;
+}
+
+export interface ReplayResult {
+  entry: AuditEntry;
+  /** The recorded call enforced again under the current rules, policies and calibration */
+  current: EnforcementResult;
+  changes: EnforcementChange[];
+}
+
+export interface EnforcementDenial {
+  code:
+    | 'denied_tool'
+    | 'destructive_operation'
+    | 'read_only'
+    | 'out_of_scope'
+    | 'blocked_by_rule'
+    | 'rate_limited'
+    | 'connector_unavailable';
+  message: string;
+  /** Policy or rule that produced the denial */
+  policy?: string;
+  retry_at?: string;
+}
+
+export interface ConfirmationRequest {
+  policy: string;
+  message: string;
+}
+
+export interface GuardrailPolicy {
+  /** Tool globs that are always refused */
+  deny_tools?: string[];
+  /** Tool globs that need human confirmation */
+  confirm_tools?: string[];
+  destructive?: {
+    /** Tool globs treated as destructive (defaults cover delete/archive/force operations) */
+    tools?: string[];
+    /** Refuse destructive calls outright, or require confirmation (default) */
+    action?: 'deny' | 'confirm';
+  };
+  /** Connectors that may only be read from */
+  read_only?: string[];
+  /**
+   * Per connector, the repos (owner/name globs), Linear team keys or Asana projects agents may write to;
+   * a write is allowed only when every target it names is
+   */
+  write_scopes?: Record<string, string[]>;
+}
+
+/**
+ * A step in an operation chain. String params of the form '$steps.N.path'
+ * reference the output of an earlier step; '$self.path' in a compensation
+ * references the output of the step being undone.
+ */
+export interface ChainStep extends ToolCall {
+  /** Call that undoes this step if a later step fails */
+  compensate?: ToolCall;
+}
+
+export interface ChainRule {
+  /** Tool name without connector prefix that triggers the rule, e.g. create_issue */
+  trigger: string;
+  /** Only apply when this param is present on the call */
+  param?: string;
+  /** Follow-up steps, given the connector's tool prefix */
+  build(call: ToolCall, prefix: string): ChainStep[];
+}
+
+export interface ChainStepResult {
+  index: number;
+  tool: string;
+  status: 'succeeded' | 'failed' | 'skipped' | 'compensated' | 'compensation_failed';
+  output?: any;
+  error?: string;
+}
+
+export interface ChainExecutionResult {
+  success: boolean;
+  steps: ChainStepResult[];
+  failed_step?: number;
+  error?: string;
+}
+
+export type ToolExecutor = (toolCall: ToolCall) => Promise<any>;
+
+export interface PaginationStrategy {
+  name: string;
+  /** Params for the page following the given cursor */
+  nextParams(params: any, cursor: any): any;
+  /** Items on a page and the cursor for the next one (null when done) */
+  extract(response: any): PageExtract;
+}
+
+export interface PageExtract {
+  items: any[];
+  cursor: any;
+}
+
+export interface PaginatedResult {
+  items: any[];
+  pages: number;
+  complete: boolean;
+  /** Which limit stopped pagination before the last page */
+  truncated_by?: 'max_pages' | 'max_items' | 'max_bytes';
+  /** Cursor of the next page to fetch; absent when that is the first page */
+  next_cursor?: any;
+  /** Items of the next_cursor page already returned, to skip when resuming */
+  next_offset?: number;
+}
+
+export interface EnforcementRule {
+  id: string;
+  description?: string;
+  match: RuleMatch;
+  actions: RuleActions;
+}
+
+export interface RuleMatch {
+  /** Tool name glob(s), e.g. "linear_*" or ["*list_*", "*search_*"] */
+  tool: string | string[];
+  /** Predicates on call params, all of which must hold */
+  params?: Record<string, ParamPredicate>;
+}
+
+export type ParamPredicate =
+  | string
+  | number
+  | boolean
+  | {
+      exists?: boolean;
+      equals?: any;
+      in?: any[];
+      matches?: string;
+    };
+
+export interface RuleActions {
+  /** Param name → dotted path into calibration state (e.g. connectors.linear.team.id) */
+  inject?: Record<string, string>;
+  /** Force pagination enforcement on or off */
+  paginate?: boolean;
+  /** Build the connector's dependent operation chain */
+  build_chain?: boolean;
+  /** Extra steps appended to the operation chain */
+  chain?: ChainStep[];
+  /** Refuse the call with this message */
+  block?: string;
+}
+
+/**
+ * Steps appended to the chain of any call matching a pattern, usually on other connectors.
+ * Step params may reference the call ($params.path), named groups captured by match.params
+ * patterns ($match.param.group) and calibration state ($state.path), as whole values
+ * (append |number to convert) or inside text as {{params.path}}. $steps.N refers to the
+ * matched call (0) and the template's own steps (1, 2...), and is resolved while the chain runs.
+ */
+export interface ChainTemplate {
+  id: string;
+  /** Told to agents in the awareness brief: which params trigger the template */
+  description?: string;
+  match: RuleMatch;
+  steps: ChainStep[];
+  /** Trigger params removed from the call once matched, since the tool itself doesn't take them */
+  consumes?: string[];
+  /** Set false in the rules file to switch a built-in template off */
+  enabled?: boolean;
 }
 
 export interface HealthStatus {
   timestamp: string;
   overall: 'healthy' | 'degraded' | 'warning';
-  connectors: {
-    asana?: ConnectorHealth;
-    linear?: ConnectorHealth;
-    github?: ConnectorHealth;
-    notion?: ConnectorHealth;
-  };
+  connectors: Record<string, ConnectorHealth>;
+  /** Tool result cache counters since the process started */
+  cache?: ResultCacheStats;
+}
+
+export interface ResultCacheStats {
+  enabled: boolean;
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), 0 before any lookup */
+  hit_rate: number;
+  /** Entries dropped to stay within max_entries / max_bytes */
+  evictions: number;
+  /** Entries dropped because a write went to their connector and scope */
+  invalidations: number;
 }
 
 export interface ConnectorHealth {
@@ -52,20 +301,295 @@ export interface ConnectorHealth {
   latency_ms: number;
   last_check: string;
   error?: string;
+  error_type?: ErrorClass;
+  /** Individual probe checks; any warn makes the connector 'warning' */
+  checks?: ProbeCheck[];
+  consecutive_failures?: number;
+  circuit?: CircuitState;
+}
+
+export interface ProbeCheck {
+  name: 'latency' | 'token_expiry' | 'scopes' | 'rate_limit';
+  status: 'pass' | 'warn' | 'fail';
+  detail?: string;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface HealthThresholds {
+  /** Probe latency above this is a warning */
+  latency_warning_ms: number;
+  /** Warn when the credential expires within this many days */
+  token_expiry_warning_days: number;
+  /** Warn when less than this fraction of the rate limit remains */
+  rate_limit_warning_ratio: number;
+}
+
+/** What a health ping learned about the credential, where the platform reports it */
+export interface CredentialInfo {
+  expires_at?: string;
+  scopes?: string[];
+}
+
+/** A token for a connector, tried newest first during rotation */
+export interface Credential {
+  label: string;
+  secret: string;
+  added_at?: string;
+}
+
+export interface Connector {
+  /** Registry key, also used as the key in calibration and health state */
+  name: string;
+  displayName: string;
+  /** Tool calls whose name starts with this prefix are routed to the connector */
+  toolPrefix: string;
+  identifierRules: IdentifierRule[];
+  resolutionRules?: ResolutionRule[];
+  pagination?: PaginationStrategy;
+  chainRules?: ChainRule[];
+  /** Builds the call undoing a tool (keyed by tool name without prefix, e.g. create_issue) */
+  compensations?: Record<string, (call: ToolCall, prefix: string) => ToolCall>;
+  calibrate(): Promise<ConnectorStatus>;
+  verify(): Promise<boolean>;
+  probe(thresholds?: HealthThresholds): Promise<ConnectorHealth>;
+  /** Credentials to try in order; the first one the platform accepts becomes active */
+  useCredentials?(credentials: Credential[]): void;
+  /** List entities of a kind within a scope (workspace gid etc.), optionally filtered by a search query */
+  listEntities?(kind: string, scope?: string, query?: string): Promise<Entity[]>;
+  /** Whether a param value is already a platform ID rather than a name */
+  isEntityId?(value: string): boolean;
+  /** One identifier per target (repo, team, project) a write call lands in, for write-scope policies */
+  writeScope?(params: any, status?: ConnectorStatus): string[];
+  /** People with accounts in the calibrated workspaces, teams and organizations, for the identity graph */
+  listMembers?(status: ConnectorStatus): Promise<MemberAccount[]>;
+}
+
+/**
+ * A user account on one platform
+ */
+export interface MemberAccount {
+  connector: string;
+  /** What the platform's tools take: Asana gid, Linear user ID, GitHub login, Notion person ID */
+  id: string;
+  name?: string;
+  email?: string;
+  /** Username: GitHub login, Linear display name */
+  handle?: string;
+}
+
+export type IdentityMatch = 'override' | 'self' | 'email' | 'handle' | 'name';
+
+export interface LinkedAccount extends MemberAccount {
+  /** Why the account belongs to the person; absent for the account the person was first found by */
+  matched_by?: IdentityMatch;
+  /** 0-1; 1 for overrides, the calibrated user and the first account */
+  confidence: number;
+}
+
+/**
+ * One person and their accounts across connectors
+ */
+export interface Person {
+  /** Override key, or a slug of the name */
+  id: string;
+  name: string;
+  /** The calibrated user, i.e. "me" */
+  self?: boolean;
+  /** Other names from the overrides file */
+  aliases?: string[];
+  /** At most one per connector */
+  accounts: LinkedAccount[];
+}
+
+export interface IdentityGraphState {
+  built_at: string;
+  /** Every discovered account, so overrides can be re-applied without calling the connectors again */
+  accounts: MemberAccount[];
+  people: Person[];
+}
+
+/**
+ * A manual link from the identity overrides file
+ */
+export interface IdentityOverride {
+  /** Key the person is looked up by, e.g. alice */
+  person: string;
+  name?: string;
+  /** Connector → account ID, email or handle */
+  accounts: Record<string, string>;
+  /** Other names the person goes by */
+  aliases?: string[];
+}
+
+export interface Entity {
+  id: string;
+  name: string;
+  /** Alternative names to match against (email, key, login, full name) */
+  aliases?: string[];
+}
+
+export interface ResolutionRule {
+  /** Param that may hold a human-readable name */
+  param: string;
+  /** Entity kind passed to Connector.listEntities */
+  kind: string;
+  /** Param that receives the resolved ID (may equal param) */
+  target: string;
+  /** Param holds an array of names */
+  multiple?: boolean;
+  /** Only apply to tools matching this pattern */
+  tools?: RegExp;
+  /** Param whose value scopes the entity listing */
+  scopeParam?: string;
+  /** Entities are found by search query rather than a full listing */
+  search?: boolean;
+}
+
+export interface IdentifierRule {
+  /** Tool param to fill when the agent omitted it */
+  param: string;
+  /** Human-readable name used in enforcement modifications */
+  description: string;
+  /** Pick a value from calibration state, using hints in the call params */
+  resolve(status: ConnectorStatus, params: any): ScopedValue | undefined;
+}
+
+export interface ScopedValue {
+  value: any;
+  /** What in the call selected this scope, if not the default */
+  hint?: string;
+}
+
+export interface StorageBackend {
+  saveCalibration(state: CalibrationState): Promise<void>;
+  loadCalibration(): Promise<CalibrationState | null>;
+  saveHealth(health: HealthStatus): Promise<void>;
+  loadHealth(): Promise<HealthStatus | null>;
+  /** Calibration snapshots, newest first */
+  calibrationHistory(query?: HistoryQuery): Promise<CalibrationState[]>;
+  /** Per-connector health checks, newest first */
+  healthHistory(connector: string, query?: HistoryQuery): Promise<ConnectorHealthRecord[]>;
+  /** Most recent failed health check or calibration for a connector */
+  lastFailure(connector: string): Promise<ConnectorHealthRecord | null>;
+  appendAudit(entry: AuditEntry): Promise<void>;
+  /** Audit entries matching the query, newest first */
+  auditLog(query?: AuditQuery): Promise<AuditEntry[]>;
+  auditEntry(id: string): Promise<AuditEntry | null>;
+  /** Delete history older than the retention window, returning rows removed */
+  prune(retentionDays: number): Promise<number>;
+  close(): Promise<void>;
+}
+
+/**
+ * Where StateManager publishes calibration and health after each save
+ */
+export interface SyncTarget {
+  name: string;
+  sync(snapshot: SyncSnapshot): Promise<void>;
+}
+
+/**
+ * The latest stored state of both kinds, whichever one triggered the sync
+ */
+export interface SyncSnapshot {
+  calibration: CalibrationState | null;
+  health: HealthStatus | null;
+}
+
+export interface HistoryQuery {
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface ConnectorHealthRecord extends ConnectorHealth {
+  connector: string;
+}
+
+export interface LatencySummary {
+  connector: string;
+  since: string;
+  samples: number;
+  avg_ms: number | null;
+  p95_ms: number | null;
+  max_ms: number | null;
+  failures: number;
+}
+
+export interface Alert {
+  /** Stable identity used for deduplication and resolution, e.g. linear:health */
+  key: string;
+  connector: string;
+  source: 'health' | 'drift';
+  status: 'firing' | 'resolved';
+  severity: 'warning' | 'critical';
+  title: string;
+  message: string;
+  error_type?: ErrorClass;
+  /** When the condition was first seen */
+  started_at: string;
+  timestamp: string;
+}
+
+export interface AlertSink {
+  name: string;
+  /** Minimum minutes between repeat notifications for the same firing alert */
+  cooldownMinutes?: number;
+  send(alert: Alert): Promise<void>;
+}
+
+/**
+ * What an agent needs to know before calling connector tools, rendered as a system-prompt brief
+ */
+export interface AwarenessBrief {
+  generated_at: string;
+  calibrated_at: string | null;
+  health_checked_at: string | null;
+  connectors: BriefConnector[];
+  /** Instructions for the agent, most important first */
+  rules: string[];
+  /** Set when scopes or rules were dropped to fit the token budget */
+  truncated?: boolean;
+}
+
+export interface BriefConnector {
+  name: string;
+  display_name: string;
+  status: 'ready' | 'degraded' | 'down' | 'not_calibrated';
+  /** Who the calls act as, e.g. "Jane Doe <jane@example.com>" */
+  identity?: string;
+  /** Param → value injected when a call omits it */
+  defaults: Record<string, string>;
+  /** Other workspaces, teams or owners the user can reach */
+  scopes?: string[];
+  /** Scopes left out of the brief to fit the token budget */
+  more_scopes?: number;
+  /** Why the connector is down or degraded */
+  issue?: string;
 }
 
 export interface AwarenessConfig {
+  /** Active connectors; empty means every registered connector */
   connectors: string[];
   calibration: CalibrationConfig;
   enforcement: EnforcementConfig;
   health: HealthConfig;
   storage: StorageConfig;
+  credentials: CredentialsConfig;
+  logging: LoggingConfig;
+  brief: BriefConfig;
+  identity: IdentityConfig;
+  result_cache: ResultCacheConfig;
+  http: HttpConfig;
 }
 
 export interface CalibrationConfig {
   auto_run_on_start: boolean;
   verify_interval_hours: number;
   cache_ttl_hours: number;
+  /** Per connector, the workspace/team/owner injected when a call gives no hint */
+  default_scopes: Record<string, string>;
 }
 
 export interface EnforcementConfig {
@@ -73,17 +597,98 @@ export interface EnforcementConfig {
   auto_resolve_ids: boolean;
   max_chain_depth: number;
   retry_failed_calls: boolean;
+  max_pagination_pages: number;
+  max_pagination_items: number;
+  max_pagination_bytes: number;
+  /** Calls that would wait longer than this for a rate limit reset are rejected */
+  max_rate_limit_delay_ms: number;
+  rules_path: string;
+  /** Record every enforcement result for later inspection and replay */
+  audit_log: boolean;
 }
 
 export interface HealthConfig {
   check_interval_minutes: number;
   alert_on_failure: boolean;
   create_linear_issues: boolean;
+  latency_warning_ms: number;
+  /** Per-connector latency SLOs in ms, overriding latency_warning_ms */
+  latency_slos: Record<string, number>;
+  token_expiry_warning_days: number;
+  rate_limit_warning_ratio: number;
+  circuit_failure_threshold: number;
+  circuit_cooldown_minutes: number;
+  alert_cooldown_minutes: number;
+  linear_alert_team_id?: string;
+  alert_log_path?: string;
+  alert_webhook_url?: string;
+  alert_slack_webhook_url?: string;
 }
 
 export interface StorageConfig {
-  database: string;
+  /** SQLite file; when unset only the latest snapshots are kept as JSON in data_dir */
+  database?: string;
+  data_dir: string;
   yaml_export: string;
+  /** Mask emails and user IDs in the YAML export and sync targets; secrets are always masked */
+  redact_pii: boolean;
+  history_retention_days: number;
+  /** Mirror connectors, accounts and scopes into an MCP memory server's JSONL knowledge graph */
   memory_plugin_sync: boolean;
+  memory_plugin_path: string;
+  /** Keep one page per connector up to date in a Notion database */
   notion_dashboard_sync: boolean;
+  notion_dashboard_database_id?: string;
+}
+
+export interface CredentialsConfig {
+  /** Encrypted credential store; unused unless a key or key file is configured */
+  vault_path: string;
+  /** Passphrase the vault key is derived from */
+  key?: string;
+  /** File holding the passphrase, used when key is unset */
+  key_file?: string;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LoggingConfig {
+  level: LogLevel;
+  /** auto: human-readable on a terminal, JSON lines otherwise */
+  format: 'auto' | 'json' | 'pretty';
+  /** Append finished spans as OTLP/JSON lines to this file */
+  trace_export_path?: string;
+}
+
+export interface BriefConfig {
+  /** Approximate size limit for the awareness brief (1 token ≈ 4 characters) */
+  max_tokens: number;
+}
+
+export interface ResultCacheConfig {
+  /** Cache read tool results (list, get, search) in memory for executeWithPagination */
+  enabled: boolean;
+  /** Lifetime of a cached result unless tool_ttls gives one */
+  ttl_seconds: number;
+  /** Tool glob → lifetime in seconds, first match wins; 0 disables caching for those tools */
+  tool_ttls: Record<string, number>;
+  max_entries: number;
+  /** Approximate limit on the JSON size of all cached results */
+  max_bytes: number;
+}
+
+export interface IdentityConfig {
+  /** Discover workspace members after each calibration and resolve people across connectors */
+  enabled: boolean;
+  /** YAML file of manual links; reloaded when it changes */
+  overrides_path: string;
+  /** Automatic links scoring below this are not made */
+  min_confidence: number;
+}
+
+export interface HttpConfig {
+  /** HTTP API is disabled when unset */
+  port?: number;
+  host?: string;
+  token?: string;
 }
@@ -0,0 +1,79 @@
+import { AlertManager } from '../src/alerts/alert-manager';
+import { Alert, AlertSink, CalibrationDrift, HealthStatus } from '../src/types';
+
+const MINUTE = 60 * 1000;
+
+function recordingSink(): AlertSink & { sent: Alert[] } {
+  const sent: Alert[] = [];
+  return { name: 'recording', cooldownMinutes: 10, sent, send: async alert => { sent.push(alert); } };
+}
+
+function health(status: 'healthy' | 'failed'): HealthStatus {
+  const timestamp = new Date(Date.now()).toISOString();
+  return {
+    timestamp,
+    overall: status === 'healthy' ? 'healthy' : 'degraded',
+    connectors: { linear: { status, latency_ms: 10, last_check: timestamp } }
+  };
+}
+
+function drift(to: string): CalibrationDrift {
+  return {
+    from: '2026-01-01T00:00:00.000Z',
+    to,
+    severity: 'warning',
+    changes: [{ connector: 'github', path: 'user.email', kind: 'changed', severity: 'warning', message: 'github email changed' }]
+  };
+}
+
+describe('alert manager', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.parse('2026-01-01T00:00:00.000Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const tracked = (manager: AlertManager): number => (manager as any).delivered.size;
+
+  it('forgets deliveries once their cooldown has passed', async () => {
+    const manager = new AlertManager([recordingSink()]);
+
+    for (let i = 0; i < 5; i++) {
+      await manager.notifyDrift(drift(`2026-01-01T00:0${i}:00.000Z`));
+      now += MINUTE;
+    }
+    expect(tracked(manager)).toBe(5);
+
+    now += 10 * MINUTE;
+    await manager.notifyDrift(drift('2026-01-01T01:00:00.000Z'));
+    expect(tracked(manager)).toBe(1);
+  });
+
+  it('forgets a resolved alert', async () => {
+    const sink = recordingSink();
+    const manager = new AlertManager([sink]);
+
+    await manager.evaluateHealth(health('failed'));
+    await manager.evaluateHealth(health('healthy'));
+
+    expect(sink.sent.map(alert => alert.status)).toEqual(['firing', 'resolved']);
+    expect(tracked(manager)).toBe(0);
+  });
+
+  it('still resolves an alert that kept firing past its cooldown', async () => {
+    const sink = recordingSink();
+    const manager = new AlertManager([sink]);
+
+    await manager.evaluateHealth(health('failed'));
+    now += 5 * MINUTE;
+    await manager.evaluateHealth(health('failed'));
+    now += 30 * MINUTE;
+    await manager.notifyDrift(drift('2026-01-01T00:35:00.000Z'));
+    await manager.evaluateHealth(health('healthy'));
+
+    expect(sink.sent.filter(alert => alert.source === 'health').map(alert => alert.status)).toEqual(['firing', 'resolved']);
+  });
+});
@@ -0,0 +1,95 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { MCPCalibrator } from '../src/calibrator';
+import { StateManager } from '../src/state-manager';
+import { createDefaultRegistry } from '../src/connectors/registry';
+import { DEFAULT_CONFIG } from '../src/config';
+import { StorageConfig } from '../src/types';
+import { FakePlatforms, FIXTURES, startFakePlatforms } from './fakes/platforms';
+
+describe('calibration against fake platforms', () => {
+  let platforms: FakePlatforms;
+  let dir: string;
+  let stateManager: StateManager;
+
+  beforeEach(async () => {
+    platforms = await startFakePlatforms();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'awareness-'));
+    const storage: StorageConfig = {
+      ...DEFAULT_CONFIG.storage,
+      data_dir: dir,
+      yaml_export: path.join(dir, 'calibration-state.yaml')
+    };
+    stateManager = new StateManager(storage, undefined, []);
+  });
+
+  afterEach(async () => {
+    await platforms.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const calibrator = () => new MCPCalibrator(DEFAULT_CONFIG.calibration, stateManager, createDefaultRegistry());
+
+  it('discovers every connector and persists the state', async () => {
+    const state = await calibrator().calibrate();
+
+    expect(state.connectors.asana).toMatchObject({
+      status: 'authenticated',
+      user: FIXTURES.asana.user,
+      workspace: { gid: '2001', name: 'Engineering' },
+      workspaces: [
+        { gid: '2001', projects: ['Roadmap', 'Platform'] },
+        { gid: '2002', projects: ['Errands'] }
+      ]
+    });
+    expect(state.connectors.linear).toMatchObject({
+      status: 'authenticated',
+      user: { id: 'lin-user-1', email: 'ada@example.com', admin: true },
+      team: { key: 'ENG' },
+      teams: FIXTURES.linear.teams
+    });
+    expect(state.connectors.github).toMatchObject({
+      status: 'authenticated',
+      user: { login: 'ada', id: 42, repos: 2 },
+      orgs: [{ login: 'ada', repos: ['engine', 'notes'], default: true }]
+    });
+    expect(state.connectors.notion).toMatchObject({
+      status: 'authenticated',
+      workspace: { name: 'Ada HQ', id: 'notion-ws-1' },
+      bot: { id: 'notion-bot-1' }
+    });
+
+    expect(await stateManager.load()).toEqual(state);
+    expect(await fs.readFile(path.join(dir, 'calibration-state.yaml'), 'utf8')).toContain('Engineering');
+  });
+
+  it('records a rejected token as an auth failure without affecting other connectors', async () => {
+    process.env.GITHUB_TOKEN = 'ghp_revoked';
+
+    const state = await calibrator().calibrate();
+
+    expect(state.connectors.github).toMatchObject({ status: 'failed', error_type: 'auth' });
+    expect(platforms.github.requests).toHaveLength(1);
+    expect(state.connectors.asana.status).toBe('authenticated');
+    expect(state.connectors.linear.status).toBe('authenticated');
+    expect(state.connectors.notion.status).toBe('authenticated');
+  });
+
+  it('records what changed on recalibration', async () => {
+    await calibrator().calibrate();
+    FIXTURES.linear.teams.push({ id: 'lin-team-3', name: 'Ops', key: 'OPS' });
+
+    try {
+      const state = await calibrator().calibrate(['linear']);
+
+      expect(state.connectors.linear.teams).toHaveLength(3);
+      expect(state.connectors.asana.status).toBe('authenticated');
+      expect(state.drift?.changes).toEqual(expect.arrayContaining([
+        expect.objectContaining({ connector: 'linear' })
+      ]));
+    } finally {
+      FIXTURES.linear.teams.pop();
+    }
+  });
+});
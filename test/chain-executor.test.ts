@@ -0,0 +1,85 @@
+import { ChainExecutor } from '../src/chain-executor';
+import { ChainStep, ToolCall } from '../src/types';
+
+/** Tool executor answering from canned outputs; a tool listed in `failing` throws instead */
+function fakeTools(failing: Record<string, string> = {}) {
+  const calls: ToolCall[] = [];
+  const outputs: Record<string, any> = {
+    linear_create_issue: { id: 'iss-1', url: 'https://linear.app/acme/issue/ENG-1' },
+    linear_create_attachment: { data: { id: 'att-1' } },
+    github_add_issue_comment: { id: 99 }
+  };
+  const execute = async (call: ToolCall) => {
+    calls.push(call);
+    if (failing[call.tool]) throw new Error(failing[call.tool]);
+    return outputs[call.tool] ?? { ok: true };
+  };
+  return { calls, execute };
+}
+
+const chain: ChainStep[] = [
+  {
+    tool: 'linear_create_issue',
+    params: { teamId: 'team-eng', title: 'Launch' },
+    compensate: { tool: 'linear_delete_issue', params: { id: '$self.id' } }
+  },
+  {
+    tool: 'linear_create_attachment',
+    params: { issueId: '$steps.0.id', url: 'https://github.com/acme/engine/pull/42' },
+    compensate: { tool: 'linear_delete_attachment', params: { id: '$self.id' } }
+  },
+  { tool: 'linear_create_comment', params: { issueId: '$steps.0.id', body: 'Linked {{steps.1.id}}' } },
+  { tool: 'github_add_issue_comment', params: { body: 'Tracked in Linear: {{steps.0.url}}' } },
+  { tool: 'notion_append_block_children', params: { block_id: 'page-1' } }
+];
+
+const statuses = (result: { steps: { status: string }[] }) => result.steps.map(step => step.status);
+
+describe('chain executor', () => {
+  it('threads step outputs into later steps', async () => {
+    const tools = fakeTools();
+    const result = await new ChainExecutor(tools.execute).run(chain);
+
+    expect(result.success).toBe(true);
+    expect(tools.calls[1].params).toEqual({ issueId: 'iss-1', url: 'https://github.com/acme/engine/pull/42' });
+    expect(tools.calls[2].params).toEqual({ issueId: 'iss-1', body: 'Linked att-1' });
+    expect(tools.calls[3].params).toEqual({ body: 'Tracked in Linear: https://linear.app/acme/issue/ENG-1' });
+  });
+
+  it('rolls back completed steps newest first when a middle step fails', async () => {
+    const tools = fakeTools({ github_add_issue_comment: 'GitHub unavailable' });
+    const result = await new ChainExecutor(tools.execute).run(chain);
+
+    expect(result).toMatchObject({ success: false, failed_step: 3, error: 'GitHub unavailable' });
+    expect(statuses(result)).toEqual(['compensated', 'compensated', 'succeeded', 'failed', 'skipped']);
+    expect(tools.calls.map(call => call.tool)).toEqual([
+      'linear_create_issue',
+      'linear_create_attachment',
+      'linear_create_comment',
+      'github_add_issue_comment',
+      'linear_delete_attachment',
+      'linear_delete_issue'
+    ]);
+    expect(tools.calls[4].params).toEqual({ id: 'att-1' });
+    expect(tools.calls[5].params).toEqual({ id: 'iss-1' });
+  });
+
+  it('keeps rolling back when a compensation itself fails', async () => {
+    const tools = fakeTools({ github_add_issue_comment: 'GitHub unavailable', linear_delete_attachment: 'Attachment is locked' });
+    const result = await new ChainExecutor(tools.execute).run(chain);
+
+    expect(result).toMatchObject({ success: false, failed_step: 3, error: 'GitHub unavailable' });
+    expect(statuses(result)).toEqual(['compensated', 'compensation_failed', 'succeeded', 'failed', 'skipped']);
+    expect(result.steps[1].error).toBe('Attachment is locked');
+    expect(tools.calls.at(-1)).toEqual({ tool: 'linear_delete_issue', params: { id: 'iss-1' } });
+  });
+
+  it('refuses a chain deeper than the limit without running it', async () => {
+    const tools = fakeTools();
+    const result = await new ChainExecutor(tools.execute, 3).run(chain);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('exceeding max depth 3');
+    expect(tools.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,84 @@
+import { TemplateError, instantiateTemplate, rebaseSteps, templateCaptures } from '../src/chain-templates';
+import { DEFAULT_CHAIN_TEMPLATES } from '../src/rule-engine';
+import { CalibrationState, ChainTemplate } from '../src/types';
+
+const builtin = (id: string): ChainTemplate => DEFAULT_CHAIN_TEMPLATES.find(template => template.id === id)!;
+
+const state: CalibrationState = {
+  timestamp: '2026-01-01T00:00:00.000Z',
+  connectors: { linear: { status: 'authenticated', team: { id: 'team-eng', key: 'ENG' }, last_verified: '2026-01-01T00:00:00.000Z' } }
+};
+
+const prCall = { tool: 'linear_create_issue', params: { teamId: 'team-eng', title: 'Review', github_pr: 'https://github.com/acme/engine/pull/42' } };
+
+describe('chain templates', () => {
+  it('captures named groups from matches predicates', () => {
+    expect(templateCaptures(builtin('github-pr-linear-backlinks'), prCall)).toEqual({
+      github_pr: { owner: 'acme', repo: 'engine', number: '42' }
+    });
+    expect(templateCaptures(builtin('github-pr-linear-backlinks'), { tool: 'linear_create_issue', params: {} })).toEqual({});
+  });
+
+  it('fills $match references and leaves $steps for the executor', () => {
+    const [attach, comment] = instantiateTemplate(builtin('github-pr-linear-backlinks'), prCall, state);
+
+    expect(attach).toEqual({
+      tool: 'linear_create_attachment',
+      params: { issueId: '$steps.0.id', url: 'https://github.com/acme/engine/pull/42', title: 'GitHub PR acme/engine#42' }
+    });
+    expect(comment.params).toEqual({ owner: 'acme', repo: 'engine', issue_number: 42, body: 'Tracked in Linear: {{steps.0.url}}' });
+  });
+
+  it('fills $params and $state references, in compensations too', () => {
+    const call = { tool: 'asana_create_task', params: { name: 'Launch', notes: 'Ship it', mirror_to: 'linear' } };
+    const [mirror, story] = instantiateTemplate(builtin('asana-task-mirror-to-linear'), call, state);
+
+    expect(mirror).toEqual({
+      tool: 'linear_create_issue',
+      params: { teamId: 'team-eng', title: 'Launch', description: 'Mirrored from Asana: https://app.asana.com/0/0/{{steps.0.gid}}\n\nShip it' },
+      compensate: { tool: 'linear_delete_issue', params: { id: '$self.id' } }
+    });
+    expect(story.params).toEqual({ task_gid: '$steps.0.gid', text: 'Mirrored to Linear: {{steps.1.url}}' });
+  });
+
+  it('renders missing text references as empty', () => {
+    const call = { tool: 'asana_create_task', params: { name: 'Launch', mirror_to: 'linear' } };
+    const [mirror] = instantiateTemplate(builtin('asana-task-mirror-to-linear'), call, state);
+
+    expect(mirror.params.description).toBe('Mirrored from Asana: https://app.asana.com/0/0/{{steps.0.gid}}\n\n');
+  });
+
+  it('throws a TemplateError for a missing whole-value reference', () => {
+    const template = builtin('asana-task-mirror-to-linear');
+
+    expect(() => instantiateTemplate(template, { tool: 'asana_create_task', params: { name: 'Launch' } }, null)).toThrow(TemplateError);
+    expect(() => instantiateTemplate(template, { tool: 'asana_create_task', params: { name: 'Launch' } }, null))
+      .toThrow(new TemplateError('$state.connectors.linear.team.id is not available'));
+    expect(() => instantiateTemplate(template, { tool: 'asana_create_task', params: {} }, state))
+      .toThrow(new TemplateError('$params.name is not available'));
+  });
+
+  it('throws a TemplateError when a |number reference is not numeric', () => {
+    const template: ChainTemplate = {
+      id: 'numbered',
+      match: { tool: 'linear_create_issue', params: { ref: { matches: '^(?<number>\\w+)$' } } },
+      steps: [{ tool: 'github_get_issue', params: { issue_number: '$match.ref.number|number' } }]
+    };
+
+    expect(instantiateTemplate(template, { tool: 'linear_create_issue', params: { ref: '7' } }, state)[0].params).toEqual({ issue_number: 7 });
+    expect(() => instantiateTemplate(template, { tool: 'linear_create_issue', params: { ref: 'seven' } }, state))
+      .toThrow(new TemplateError('match.ref.number is not a number'));
+  });
+
+  it('rebases step references onto the chain, keeping step 0 as the matched call', () => {
+    const steps = [
+      { tool: 'linear_create_attachment', params: { issueId: '$steps.0.id' } },
+      { tool: 'github_add_issue_comment', params: { body: 'See {{steps.1.url}} and {{ steps.2.url }}', ids: ['$steps.2.id'] } }
+    ];
+
+    expect(rebaseSteps(steps, 3)).toEqual([
+      { tool: 'linear_create_attachment', params: { issueId: '$steps.0.id' } },
+      { tool: 'github_add_issue_comment', params: { body: 'See {{steps.3.url}} and {{ steps.4.url }}', ids: ['$steps.4.id'] } }
+    ]);
+  });
+});
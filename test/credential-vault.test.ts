@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CredentialVault, VaultError, credentialsFor } from '../src/credentials';
+
+const KEY = 'correct horse battery staple';
+const TOKEN = 'lin_api_0123456789abcdefghij';
+
+const dirs: string[] = [];
+
+function vaultPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-'));
+  dirs.push(dir);
+  return path.join(dir, 'credentials.vault');
+}
+
+/** Flip one bit of a base64 field in the vault file */
+function tamper(file: string, field: 'data' | 'tag' | 'iv'): void {
+  const vault = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  const bytes = Buffer.from(vault[field], 'base64');
+  bytes[0] ^= 1;
+  vault[field] = bytes.toString('base64');
+  fs.writeFileSync(file, JSON.stringify(vault));
+}
+
+describe('credential vault', () => {
+  afterAll(() => dirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+  it('round-trips credentials through the encrypted file', () => {
+    const file = vaultPath();
+    const vault = new CredentialVault(file, KEY);
+    vault.add('linear', 'primary', TOKEN);
+    vault.add('linear', 'backup', 'lin_api_backup0123456789abcd');
+    vault.add('github', 'ci', 'ghp_abcdefghijklmnopqrstuvwxyz');
+
+    const reopened = new CredentialVault(file, KEY);
+    expect(reopened.list('linear').map(credential => [credential.label, credential.secret])).toEqual([
+      ['backup', 'lin_api_backup0123456789abcd'],
+      ['primary', TOKEN]
+    ]);
+    expect(reopened.connectors().sort()).toEqual(['github', 'linear']);
+
+    const raw = fs.readFileSync(file, 'utf-8');
+    expect(raw).not.toContain(TOKEN);
+    expect(JSON.parse(raw)).toMatchObject({ version: 1, algorithm: 'aes-256-gcm' });
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('encrypts every write under a fresh IV', () => {
+    const file = vaultPath();
+    const vault = new CredentialVault(file, KEY);
+    vault.add('linear', 'primary', TOKEN);
+    const first = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    vault.add('linear', 'primary', TOKEN);
+    const second = JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+    expect(second.iv).not.toBe(first.iv);
+    expect(second.data).not.toBe(first.data);
+  });
+
+  it('refuses to open with the wrong key', () => {
+    const file = vaultPath();
+    new CredentialVault(file, KEY).add('linear', 'primary', TOKEN);
+
+    const wrong = new CredentialVault(file, 'wrong passphrase');
+    expect(() => wrong.list('linear')).toThrow(VaultError);
+    expect(() => wrong.list('linear')).toThrow('wrong key or corrupted file');
+  });
+
+  it.each(['data', 'tag', 'iv'] as const)('rejects a vault whose %s was tampered with', field => {
+    const file = vaultPath();
+    new CredentialVault(file, KEY).add('linear', 'primary', TOKEN);
+    tamper(file, field);
+
+    expect(() => new CredentialVault(file, KEY).list('linear')).toThrow(VaultError);
+  });
+
+  it('rejects an empty key and an empty secret', () => {
+    expect(() => new CredentialVault(vaultPath(), '')).toThrow(VaultError);
+    expect(() => new CredentialVault(vaultPath(), KEY).add('linear', 'primary', '  ')).toThrow(VaultError);
+  });
+
+  it('puts stored credentials ahead of the environment token', () => {
+    const vault = new CredentialVault(vaultPath(), KEY);
+    vault.add('linear', 'primary', TOKEN);
+
+    expect(credentialsFor('linear', vault, { LINEAR_API_KEY: 'lin_api_fromtheenvironment0001' }).map(credential => credential.label))
+      .toEqual(['primary', 'env']);
+    expect(credentialsFor('linear', vault, { LINEAR_API_KEY: TOKEN }).map(credential => credential.label)).toEqual(['primary']);
+  });
+});
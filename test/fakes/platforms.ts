@@ -0,0 +1,155 @@
+/**
+ * Fake Platform APIs
+ * Just enough of Asana, Linear, GitHub and Notion to calibrate and probe against,
+ * accepting a single token and answering with the fixtures below
+ */
+
+import { FakeBackend, FakeRequest, FakeResponse, startFakeServer } from './server';
+
+export const TOKENS = {
+  asana: 'asana-test-token',
+  linear: 'lin_api_test',
+  github: 'ghp_test',
+  notion: 'secret_test'
+};
+
+export const FIXTURES = {
+  asana: {
+    user: { gid: '1001', name: 'Ada Lovelace', email: 'ada@example.com' },
+    workspaces: [
+      { gid: '2001', name: 'Engineering', is_organization: true },
+      { gid: '2002', name: 'Personal', is_organization: false }
+    ],
+    projects: {
+      '2001': [{ gid: '3001', name: 'Roadmap' }, { gid: '3002', name: 'Platform' }],
+      '2002': [{ gid: '3003', name: 'Errands' }]
+    } as Record<string, { gid: string; name: string }[]>
+  },
+  linear: {
+    viewer: { id: 'lin-user-1', name: 'Ada Lovelace', email: 'ada@example.com', admin: true },
+    teams: [{ id: 'lin-team-1', name: 'Engineering', key: 'ENG' }, { id: 'lin-team-2', name: 'Design', key: 'DES' }]
+  },
+  github: {
+    user: { id: 42, login: 'ada', email: 'ada@example.com', public_repos: 1, total_private_repos: 1 },
+    repos: [
+      { id: 501, name: 'engine', full_name: 'ada/engine', owner: { login: 'ada' }, private: false },
+      { id: 502, name: 'notes', full_name: 'ada/notes', owner: { login: 'ada' }, private: true }
+    ],
+    scopes: 'repo, read:org'
+  },
+  notion: {
+    bot: {
+      object: 'user',
+      id: 'notion-bot-1',
+      type: 'bot',
+      name: 'Awareness Engine',
+      bot: { owner: { type: 'workspace', workspace: true }, workspace_name: 'Ada HQ', workspace_id: 'notion-ws-1' }
+    }
+  }
+};
+
+/** Rate-limit headers each fake attaches to successful responses */
+export const QUOTA_HEADERS = {
+  asana: { 'x-ratelimit-limit': '150', 'x-ratelimit-remaining': '149' },
+  linear: { 'x-ratelimit-requests-limit': '1500', 'x-ratelimit-requests-remaining': '1499' },
+  github: { 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '4999' },
+  notion: { 'x-ratelimit-limit': '3', 'x-ratelimit-remaining': '2' }
+};
+
+function bearer(request: FakeRequest): string | undefined {
+  return String(request.headers.authorization || '').replace(/^(Bearer|token)\s+/i, '') || undefined;
+}
+
+export function fakeAsana(): Promise<FakeBackend> {
+  const { user, workspaces, projects } = FIXTURES.asana;
+  const ok = (data: any): FakeResponse => ({ headers: QUOTA_HEADERS.asana, body: { data, next_page: null } });
+
+  return startFakeServer(request => {
+    if (bearer(request) !== TOKENS.asana) {
+      return { status: 401, body: { errors: [{ message: 'Not Authorized' }] } };
+    }
+    if (request.path === '/users/me') return ok(user);
+    if (request.path === '/workspaces') return ok(workspaces);
+    if (request.path === '/projects') return ok(projects[request.query.get('workspace') || ''] || []);
+    return undefined;
+  });
+}
+
+export function fakeLinear(): Promise<FakeBackend> {
+  const { viewer, teams } = FIXTURES.linear;
+  const pageInfo = { hasNextPage: false, hasPreviousPage: false };
+
+  return startFakeServer(request => {
+    if (request.headers.authorization !== TOKENS.linear) {
+      return {
+        status: 400,
+        body: { errors: [{ message: 'Authentication required, not authenticated', extensions: { type: 'authentication error', code: 'AUTHENTICATION_ERROR' } }] }
+      };
+    }
+    const operation = /^\s*(?:query|mutation)\s+(\w+)/.exec(request.body?.query || '')?.[1];
+    if (operation === 'viewer') return { headers: QUOTA_HEADERS.linear, body: { data: { viewer } } };
+    if (operation === 'teams') return { headers: QUOTA_HEADERS.linear, body: { data: { teams: { nodes: teams, pageInfo } } } };
+    return undefined;
+  });
+}
+
+export function fakeGitHub(): Promise<FakeBackend> {
+  const { user, repos, scopes } = FIXTURES.github;
+
+  return startFakeServer(request => {
+    if (bearer(request) !== TOKENS.github) {
+      return { status: 401, body: { message: 'Bad credentials' } };
+    }
+    if (request.path === '/user') return { headers: { ...QUOTA_HEADERS.github, 'x-oauth-scopes': scopes }, body: user };
+    if (request.path === '/user/repos') return { headers: QUOTA_HEADERS.github, body: repos };
+    return undefined;
+  });
+}
+
+export function fakeNotion(): Promise<FakeBackend> {
+  const { bot } = FIXTURES.notion;
+
+  return startFakeServer(request => {
+    if (bearer(request) !== TOKENS.notion) {
+      return { status: 401, body: { object: 'error', status: 401, code: 'unauthorized', message: 'API token is invalid.' } };
+    }
+    if (request.path === '/v1/users/me') return { headers: QUOTA_HEADERS.notion, body: bot };
+    return undefined;
+  });
+}
+
+export interface FakePlatforms {
+  asana: FakeBackend;
+  linear: FakeBackend;
+  github: FakeBackend;
+  notion: FakeBackend;
+  close(): Promise<void>;
+}
+
+/**
+ * Start all four fakes and point the clients' URL and token environment variables at them
+ */
+export async function startFakePlatforms(): Promise<FakePlatforms> {
+  const [asana, linear, github, notion] = await Promise.all([fakeAsana(), fakeLinear(), fakeGitHub(), fakeNotion()]);
+
+  Object.assign(process.env, {
+    ASANA_API_URL: asana.url,
+    ASANA_PAT: TOKENS.asana,
+    LINEAR_API_URL: `${linear.url}/graphql`,
+    LINEAR_API_KEY: TOKENS.linear,
+    GITHUB_API_URL: github.url,
+    GITHUB_TOKEN: TOKENS.github,
+    NOTION_API_URL: notion.url,
+    NOTION_API_KEY: TOKENS.notion
+  });
+
+  return {
+    asana,
+    linear,
+    github,
+    notion,
+    close: async () => {
+      await Promise.all([asana.close(), linear.close(), github.close(), notion.close()]);
+    }
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Fake Backend Server
+ * Local HTTP stand-in for a platform API, answering from a route function
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface FakeRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export interface FakeResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: any;
+}
+
+export type FakeRoute = (request: FakeRequest) => FakeResponse | undefined;
+
+export interface FakeBackend {
+  /** Base URL to point the client at, without a trailing slash */
+  url: string;
+  /** Every request received, oldest first */
+  requests: FakeRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Listen on a random local port; requests the route does not answer get a 404
+ */
+export async function startFakeServer(route: FakeRoute): Promise<FakeBackend> {
+  const requests: FakeRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const text = Buffer.concat(chunks).toString('utf8');
+      const request: FakeRequest = {
+        method: req.method || 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body: text ? JSON.parse(text) : undefined
+      };
+      requests.push(request);
+
+      const response = route(request) ?? { status: 404, body: { message: `No fake route for ${request.method} ${request.path}` } };
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(JSON.stringify(response.body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+}
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HealthMonitor } from '../src/health-monitor';
+import { StateManager } from '../src/state-manager';
+import { ConnectorRegistry } from '../src/connectors/registry';
+import { AlertManager } from '../src/alerts/alert-manager';
+import { CircuitBreaker } from '../src/circuit-breaker';
+import { configureLogger } from '../src/logging';
+import { DEFAULT_CONFIG } from '../src/config';
+import { Alert, AlertSink, Connector, ConnectorHealth } from '../src/types';
+
+/** Connector whose probe reports whatever status is currently set */
+function fakeConnector(name: string, status: ConnectorHealth['status'] = 'healthy'): Connector & { status: ConnectorHealth['status'] } {
+  const connector = {
+    name,
+    displayName: name,
+    toolPrefix: `${name}_`,
+    identifierRules: [],
+    status,
+    calibrate: async () => ({ status: 'authenticated' as const, last_verified: new Date().toISOString() }),
+    verify: async () => true,
+    probe: async (): Promise<ConnectorHealth> => ({
+      status: connector.status,
+      latency_ms: 10,
+      last_check: new Date().toISOString(),
+      ...(connector.status === 'failed' ? { error: `${name} is down`, error_type: 'transient' as const } : {})
+    })
+  };
+  return connector;
+}
+
+const dirs: string[] = [];
+
+function stateManager(): StateManager {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-'));
+  dirs.push(dir);
+  return new StateManager({ ...DEFAULT_CONFIG.storage, data_dir: dir, yaml_export: path.join(dir, 'state.yaml') }, undefined, []);
+}
+
+describe('health monitor', () => {
+  afterEach(() => configureLogger({ write: () => {} }));
+  afterAll(() => dirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+  it('logs a failed scheduled check instead of leaving the rejection unhandled', async () => {
+    const lines: string[] = [];
+    configureLogger({ write: line => lines.push(line), format: 'json' });
+    const state = stateManager();
+    jest.spyOn(state, 'saveHealth').mockRejectedValue(new Error('disk full'));
+    const monitor = new HealthMonitor(DEFAULT_CONFIG.health, state, new ConnectorRegistry().register(fakeConnector('linear')), new AlertManager(), new CircuitBreaker());
+
+    monitor.start();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    monitor.stop();
+
+    const failure = lines.map(line => JSON.parse(line)).find(record => record.msg === 'Health check failed');
+    expect(failure).toMatchObject({ level: 'error', component: 'health', error: { message: 'disk full' } });
+  });
+
+  it('judges a partial check by the connectors it probed, carrying the rest over untouched', async () => {
+    const sent: Alert[] = [];
+    const sink: AlertSink = { name: 'test', cooldownMinutes: 0, send: async alert => { sent.push(alert); } };
+    const linear = fakeConnector('linear');
+    const github = fakeConnector('github', 'failed');
+    const registry = new ConnectorRegistry().register(linear).register(github);
+    const monitor = new HealthMonitor(DEFAULT_CONFIG.health, stateManager(), registry, new AlertManager([sink]), new CircuitBreaker());
+
+    const full = await monitor.runHealthCheck();
+    expect(full.overall).toBe('degraded');
+    expect(sent.map(alert => `${alert.connector} ${alert.status}`)).toEqual(['github firing']);
+
+    const partial = await monitor.runHealthCheck(['linear']);
+
+    expect(partial.overall).toBe('healthy');
+    expect(partial.connectors.github).toEqual(full.connectors.github);
+    expect(sent).toHaveLength(1);
+    expect(await monitor.getStatus()).toEqual(partial);
+  });
+});
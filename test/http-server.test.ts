@@ -0,0 +1,87 @@
+import * as http from 'http';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { HttpApiServer } from '../src/http/server';
+import { EngineContext } from '../src/mcp/tools';
+
+const TOKEN = 'http-test-token';
+
+async function freePort(): Promise<number> {
+  const probe = http.createServer();
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+function post(port: number, path: string, body: Buffer): Promise<{ status: number; headers: http.IncomingHttpHeaders; body: any }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      path,
+      method: 'POST',
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json', 'Content-Length': body.length }
+    }, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body: JSON.parse(Buffer.concat(chunks).toString()) }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+describe('HTTP API', () => {
+  let server: HttpApiServer;
+  let port: number;
+  const healthMonitor = { runHealthCheck: jest.fn(async () => ({ overall: 'healthy', connectors: {} })) };
+
+  beforeAll(async () => {
+    port = await freePort();
+    server = new HttpApiServer({ healthMonitor } as unknown as EngineContext, { port, host: '127.0.0.1', token: TOKEN });
+    await server.listen();
+  });
+
+  afterAll(() => server.close());
+
+  it('answers an oversized body with a 413 and closes the connection', async () => {
+    const response = await post(port, '/health/check', Buffer.alloc(2 * 1024 * 1024, 'a'));
+
+    expect(response.status).toBe(413);
+    expect(response.headers.connection).toBe('close');
+    expect(response.body).toEqual({ error: 'Request body too large' });
+    expect(healthMonitor.runHealthCheck).not.toHaveBeenCalled();
+  });
+
+  it('sends the 413 and then stops reading a body that keeps coming', async () => {
+    // Half-open, so only the server giving up on the body can close this socket
+    const socket = net.connect({ port, host: '127.0.0.1', allowHalfOpen: true });
+    const received: Buffer[] = [];
+    socket.on('data', chunk => received.push(chunk));
+    socket.on('error', () => {});
+    const closed = new Promise(resolve => socket.on('close', resolve));
+
+    socket.write([
+      'POST /health/check HTTP/1.1',
+      'Host: 127.0.0.1',
+      `Authorization: Bearer ${TOKEN}`,
+      'Content-Type: application/json',
+      `Content-Length: ${64 * 1024 * 1024}`,
+      '',
+      ''
+    ].join('\r\n'));
+    socket.write(Buffer.alloc(4 * 1024 * 1024, 'a'));
+
+    await closed;
+    expect(Buffer.concat(received).toString()).toMatch(/^HTTP\/1\.1 413 /);
+    expect(healthMonitor.runHealthCheck).not.toHaveBeenCalled();
+  });
+
+  it('still serves requests within the limit', async () => {
+    const response = await post(port, '/health/check', Buffer.from('{}'));
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ overall: 'healthy', connectors: {} });
+  });
+});
@@ -0,0 +1,113 @@
+import { MATCH_CONFIDENCE, linkAccounts, parseIdentityOverrides } from '../src/identity';
+import { MemberAccount, Person } from '../src/types';
+
+const MIN_CONFIDENCE = 0.7;
+
+/** Each person's accounts as "connector:id matched_by confidence" */
+function summary(people: Person[]): string[][] {
+  return people.map(person => person.accounts.map(account =>
+    [`${account.connector}:${account.id}`, account.matched_by, account.confidence].filter(part => part !== undefined).join(' ')));
+}
+
+describe('identity linking', () => {
+  it('links by email, handle and full name at their confidence tiers', () => {
+    const accounts: MemberAccount[] = [
+      { connector: 'asana', id: 'a-1', name: 'Ada Lovelace', email: 'ada@example.com' },
+      { connector: 'linear', id: 'l-1', name: 'Ada L', email: 'ADA@example.com', handle: 'ada' },
+      { connector: 'github', id: 'ada-gh', handle: 'ada' },
+      { connector: 'github', id: 'grace', name: 'Grace Hopper' },
+      { connector: 'notion', id: 'n-1', name: 'Grace Hopper' }
+    ];
+
+    const people = linkAccounts(accounts, [], [], MIN_CONFIDENCE);
+
+    expect(MATCH_CONFIDENCE).toMatchObject({ email: 0.95, handle: 0.8, name: 0.7 });
+    expect(people.map(person => person.id)).toEqual(['ada-lovelace', 'grace-hopper']);
+    expect(summary(people)).toEqual([
+      ['asana:a-1 1', 'github:ada-gh handle 0.8', 'linear:l-1 email 0.95'],
+      ['github:grace 1', 'notion:n-1 name 0.7']
+    ]);
+  });
+
+  it('links a single-word name only when weak links are allowed', () => {
+    const accounts: MemberAccount[] = [
+      { connector: 'asana', id: 'a-1', name: 'Alice' },
+      { connector: 'github', id: 'alice-gh', name: 'alice' }
+    ];
+
+    expect(linkAccounts(accounts, [], [], MIN_CONFIDENCE)).toHaveLength(2);
+    expect(summary(linkAccounts(accounts, [], [], 0.5))).toEqual([['asana:a-1 1', 'github:alice-gh name 0.5']]);
+  });
+
+  it('lets an email link win over a name link claiming the same connector', () => {
+    const accounts: MemberAccount[] = [
+      { connector: 'github', id: 'akim', name: 'Alex Kim', email: 'alex@acme.io' },
+      { connector: 'linear', id: 'l-1', name: 'A. Kim', email: 'alex@acme.io' },
+      { connector: 'linear', id: 'l-2', name: 'Alex Kim' }
+    ];
+
+    expect(summary(linkAccounts(accounts, [], [], MIN_CONFIDENCE))).toEqual([
+      ['github:akim 1', 'linear:l-1 email 0.95'],
+      ['linear:l-2 1']
+    ]);
+  });
+
+  it('caps the accounts of a merged person at the link that merged them', () => {
+    const accounts: MemberAccount[] = [
+      { connector: 'asana', id: 'a-1', name: 'Lin Wu', handle: 'linwu' },
+      { connector: 'notion', id: 'n-1', handle: 'linwu' },
+      { connector: 'github', id: 'linwu-gh', name: 'Lin Wu', email: 'lin@acme.io' },
+      { connector: 'linear', id: 'l-1', email: 'lin@acme.io' }
+    ];
+
+    // github and linear are linked by email, then joined to asana and notion by a name match
+    expect(summary(linkAccounts(accounts, [], [], MIN_CONFIDENCE))).toEqual([
+      ['asana:a-1 1', 'github:linwu-gh name 0.7', 'linear:l-1 email 0.7', 'notion:n-1 handle 0.8']
+    ]);
+  });
+
+  it('links nothing on a value two accounts of one connector share', () => {
+    const accounts: MemberAccount[] = [
+      { connector: 'linear', id: 'l-1', name: 'Sam Lee' },
+      { connector: 'linear', id: 'l-2', name: 'Sam Lee' },
+      { connector: 'github', id: 'samlee', name: 'Sam Lee' }
+    ];
+
+    const people = linkAccounts(accounts, [], [], MIN_CONFIDENCE);
+    expect(people.map(person => person.id)).toEqual(['sam-lee', 'sam-lee-2', 'sam-lee-3']);
+    expect(people.every(person => person.accounts.length === 1)).toBe(true);
+  });
+
+  it('never merges two overridden people, but grows one from automatic links', () => {
+    const accounts: MemberAccount[] = [
+      { connector: 'github', id: 'bobby', email: 'bob@acme.io' },
+      { connector: 'linear', id: 'l-bob', email: 'bob@acme.io' },
+      { connector: 'asana', id: 'a-bob', email: 'bob@acme.io' },
+      { connector: 'notion', id: 'n-bob', email: 'bob@acme.io' }
+    ];
+    const overrides = parseIdentityOverrides(`
+people:
+  bob:
+    name: Bob Stone
+    accounts: { github: bobby, linear: BOB@acme.io }
+  robert:
+    accounts: { notion: n-bob }
+`);
+
+    const people = linkAccounts(accounts, [], overrides, MIN_CONFIDENCE);
+
+    expect(people.map(person => person.id)).toEqual(['bob', 'robert']);
+    expect(summary(people)).toEqual([
+      ['asana:a-bob email 0.95', 'github:bobby override 1', 'linear:l-bob override 1'],
+      ['notion:n-bob override 1']
+    ]);
+  });
+
+  it('rejects overrides that link one account to two people', () => {
+    expect(() => parseIdentityOverrides(`
+people:
+  bob: { accounts: { github: bobby } }
+  robert: { accounts: { github: Bobby } }
+`)).toThrow('person robert: github account "Bobby" is already linked to bob');
+  });
+});
@@ -0,0 +1,86 @@
+import * as os from 'os';
+import * as path from 'path';
+import { MCPEnforcer } from '../src/enforcer';
+import { StateManager } from '../src/state-manager';
+import { ResultCache } from '../src/result-cache';
+import { createDefaultRegistry } from '../src/connectors/registry';
+import { DEFAULT_CONFIG } from '../src/config';
+import { EnforcementConfig, ToolCall } from '../src/types';
+
+/** Pages of `size` numbered items, e.g. page 1 of size 3 is [3, 4, 5] */
+function pagedTool(pages: number, size: number, pad = '') {
+  const calls: any[] = [];
+  const execute = async (call: ToolCall) => {
+    calls.push(call.params);
+    const page = call.params.cursor ?? 0;
+    return {
+      data: Array.from({ length: size }, (_, i) => ({ n: page * size + i, pad })),
+      next_cursor: page + 1 < pages ? page + 1 : null
+    };
+  };
+  return { calls, execute };
+}
+
+function enforcer(limits: Partial<EnforcementConfig>): MCPEnforcer {
+  const storage = { ...DEFAULT_CONFIG.storage, data_dir: os.tmpdir(), yaml_export: path.join(os.tmpdir(), 'unused.yaml') };
+  return new MCPEnforcer(
+    { ...DEFAULT_CONFIG.enforcement, ...limits },
+    new StateManager(storage, undefined, []),
+    createDefaultRegistry(),
+    undefined,
+    undefined,
+    undefined,
+    undefined,
+    new ResultCache({ ...DEFAULT_CONFIG.result_cache, enabled: false })
+  );
+}
+
+const call: ToolCall = { tool: 'custom_list_items', params: {} };
+
+describe('paginated execution', () => {
+  it('reads every page when within limits', async () => {
+    const tool = pagedTool(3, 2);
+    const result = await enforcer({}).executeWithPagination(call, tool.execute);
+
+    expect(result).toMatchObject({ complete: true, pages: 3 });
+    expect(result.items.map(item => item.n)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('returns the offset into a page cut short by max_items, so resuming does not repeat items', async () => {
+    const tool = pagedTool(3, 4);
+    const result = await enforcer({ max_pagination_items: 6 }).executeWithPagination(call, tool.execute);
+
+    expect(result).toMatchObject({ complete: false, truncated_by: 'max_items', next_cursor: 1, next_offset: 2 });
+    expect(result.items.map(item => item.n)).toEqual([0, 1, 2, 3, 4, 5]);
+
+    const resumed = await enforcer({}).executeWithPagination({ ...call, params: { cursor: result.next_cursor } }, tool.execute);
+    const rest = resumed.items.slice(result.next_offset).map(item => item.n);
+    expect(rest).toEqual([6, 7, 8, 9, 10, 11]);
+  });
+
+  it('omits next_offset when the page that did not fit is skipped whole', async () => {
+    const tool = pagedTool(3, 3);
+    const result = await enforcer({ max_pagination_items: 3 }).executeWithPagination(call, tool.execute);
+
+    expect(result).toMatchObject({ truncated_by: 'max_items', next_cursor: 1 });
+    expect(result.next_offset).toBeUndefined();
+    expect(result.items).toHaveLength(3);
+  });
+
+  it('returns a first page larger than max_bytes whole, with the cursor of the next', async () => {
+    const tool = pagedTool(3, 2, 'x'.repeat(2048));
+    const result = await enforcer({ max_pagination_bytes: 1024 }).executeWithPagination(call, tool.execute);
+
+    expect(result).toMatchObject({ complete: false, truncated_by: 'max_bytes', pages: 1, next_cursor: 1 });
+    expect(result.items.map(item => item.n)).toEqual([0, 1]);
+    expect(tool.calls).toHaveLength(1);
+  });
+
+  it('stops before a later page that would exceed max_bytes', async () => {
+    const tool = pagedTool(3, 1, 'x'.repeat(600));
+    const result = await enforcer({ max_pagination_bytes: 1024 }).executeWithPagination(call, tool.execute);
+
+    expect(result).toMatchObject({ complete: false, truncated_by: 'max_bytes', pages: 2, next_cursor: 1 });
+    expect(result.items.map(item => item.n)).toEqual([0]);
+  });
+});
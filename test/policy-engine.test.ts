@@ -0,0 +1,107 @@
+import { PolicyEngine } from '../src/policy-engine';
+import { AsanaConnector } from '../src/connectors/asana-connector';
+import { GitHubConnector } from '../src/connectors/github-connector';
+import { LinearConnector } from '../src/connectors/linear-connector';
+import { CalibrationState, Connector, GuardrailPolicy, ToolCall } from '../src/types';
+
+const ENG = '0b9d6a3e-1111-4c1a-9f00-000000000001';
+const OPS = '0b9d6a3e-2222-4c1a-9f00-000000000002';
+
+const state: CalibrationState = {
+  timestamp: '2026-01-01T00:00:00.000Z',
+  connectors: {
+    linear: {
+      status: 'authenticated',
+      team: { id: ENG, key: 'ENG', name: 'Engineering' },
+      teams: [{ id: ENG, key: 'ENG', name: 'Engineering' }, { id: OPS, key: 'OPS', name: 'Operations' }],
+      last_verified: '2026-01-01T00:00:00.000Z'
+    }
+  }
+};
+
+const policy: GuardrailPolicy = {
+  write_scopes: { linear: ['ENG'], asana: ['1001', '1002'], github: ['acme/*'] }
+};
+
+const engine = new PolicyEngine();
+const linear = new LinearConnector();
+const asana = new AsanaConnector();
+const github = new GitHubConnector();
+
+function denial(call: ToolCall, connector: Connector = linear) {
+  return engine.evaluate(call, policy, connector, state).denied;
+}
+
+describe('write scope policy', () => {
+  describe('linear', () => {
+    it('allows writes to an allowed team, by id or key', () => {
+      expect(denial({ tool: 'linear_create_issue', params: { teamId: ENG, title: 'Fix login' } })).toBeUndefined();
+      expect(denial({ tool: 'linear_create_issue', params: { teamKey: 'ENG', title: 'Fix login' } })).toBeUndefined();
+      expect(denial({ tool: 'linear_create_issue', params: { teamId: ENG, teamKey: 'eng', title: 'Fix login' } })).toBeUndefined();
+    });
+
+    it('denies writes to another team', () => {
+      expect(denial({ tool: 'linear_create_issue', params: { teamId: OPS, title: 'Rotate keys' } })).toMatchObject({
+        code: 'out_of_scope',
+        policy: 'write_scopes',
+        message: expect.stringContaining('targets OPS')
+      });
+    });
+
+    it('ignores issue keys mentioned in free text', () => {
+      const call = { tool: 'linear_create_issue', params: { teamId: OPS, title: 'Follow-up to ENG-12', description: 'See ENG-12 and ENG-13' } };
+      expect(denial(call)).toMatchObject({ code: 'out_of_scope' });
+    });
+
+    it('does not let a teamKey vouch for a different teamId', () => {
+      expect(denial({ tool: 'linear_create_issue', params: { teamId: OPS, teamKey: 'ENG', title: 'Rotate keys' } })).toMatchObject({
+        code: 'out_of_scope',
+        message: expect.stringContaining('targets OPS')
+      });
+    });
+
+    it('scopes updates by the issue key they name', () => {
+      expect(denial({ tool: 'linear_update_issue', params: { id: 'ENG-12', title: 'Renamed' } })).toBeUndefined();
+      expect(denial({ tool: 'linear_update_issue', params: { id: 'OPS-3', title: 'Mentions ENG-12' } })).toMatchObject({ code: 'out_of_scope' });
+      expect(denial({ tool: 'linear_update_issue', params: { issueId: 'OPS-3', teamId: ENG } })).toMatchObject({ code: 'out_of_scope' });
+    });
+
+    it('denies a write whose target is unknown until a chain runs', () => {
+      expect(denial({ tool: 'linear_create_attachment', params: { issueId: '$steps.0.id', url: 'https://example.com' } })).toMatchObject({
+        message: expect.stringContaining('Cannot determine')
+      });
+    });
+
+    it('leaves reads alone', () => {
+      expect(denial({ tool: 'linear_list_issues', params: { teamId: OPS } })).toBeUndefined();
+    });
+  });
+
+  describe('asana', () => {
+    it('requires every project of a multi-project write to be allowed', () => {
+      expect(denial({ tool: 'asana_create_task', params: { name: 'Plan', projects: ['1001', '1002'] } }, asana)).toBeUndefined();
+      expect(denial({ tool: 'asana_create_task', params: { name: 'Plan', projects: ['1001', '9999'] } }, asana)).toMatchObject({
+        code: 'out_of_scope',
+        message: expect.stringContaining('targets 9999')
+      });
+      expect(denial({ tool: 'asana_create_task', params: { name: 'Plan', project: '1001', projects: ['9999'] } }, asana)).toMatchObject({
+        code: 'out_of_scope'
+      });
+    });
+
+    it('checks the project gid, not a projectName given next to it', () => {
+      expect(denial({ tool: 'asana_create_task', params: { name: 'Plan', project: '9999', projectName: '1001' } }, asana)).toMatchObject({
+        code: 'out_of_scope'
+      });
+    });
+  });
+
+  describe('github', () => {
+    it('matches repos against owner globs', () => {
+      expect(denial({ tool: 'github_create_issue', params: { owner: 'acme', repo: 'engine', title: 'Bug' } }, github)).toBeUndefined();
+      expect(denial({ tool: 'github_create_issue', params: { repo: 'other/engine', title: 'Bug in acme/engine' } }, github)).toMatchObject({
+        code: 'out_of_scope'
+      });
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { AsanaClient } from '../src/connectors/asana';
+import { GitHubClient } from '../src/connectors/github';
+import { LinearClient } from '../src/connectors/linear';
+import { NotionClient } from '../src/connectors/notion';
+import { quotaTracker } from '../src/quota-tracker';
+import { FakePlatforms, TOKENS, startFakePlatforms } from './fakes/platforms';
+
+describe('quota recorded from successful responses', () => {
+  let platforms: FakePlatforms;
+
+  beforeAll(async () => {
+    platforms = await startFakePlatforms();
+  });
+
+  afterAll(() => platforms.close());
+
+  it('asana', async () => {
+    await new AsanaClient({ baseUrl: platforms.asana.url, token: TOKENS.asana }).getCurrentUser();
+    expect(quotaTracker.get('asana')).toMatchObject({ limit: 150, remaining: 149 });
+  });
+
+  it('linear', async () => {
+    const user = await new LinearClient({ apiUrl: `${platforms.linear.url}/graphql`, apiKey: TOKENS.linear }).getCurrentUser();
+    expect(user.email).toBe('ada@example.com');
+    expect(quotaTracker.get('linear')).toMatchObject({ limit: 1500, remaining: 1499 });
+  });
+
+  it('github', async () => {
+    await new GitHubClient({ baseUrl: platforms.github.url, token: TOKENS.github }).getAuthenticatedUser();
+    expect(quotaTracker.get('github')).toMatchObject({ limit: 5000, remaining: 4999 });
+  });
+
+  it('notion', async () => {
+    const bot = await new NotionClient({ baseUrl: platforms.notion.url, token: TOKENS.notion }).getBotUser();
+    expect(bot.id).toBe('notion-bot-1');
+    expect(quotaTracker.get('notion')).toMatchObject({ limit: 3, remaining: 2 });
+  });
+});
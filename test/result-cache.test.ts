@@ -0,0 +1,55 @@
+import { ResultCache } from '../src/result-cache';
+import { DEFAULT_CONFIG } from '../src/config';
+import { ToolCall } from '../src/types';
+
+const call: ToolCall = { tool: 'linear_list_issues', params: { teamId: 'ENG' } };
+
+function cache(): ResultCache {
+  return new ResultCache({ ...DEFAULT_CONFIG.result_cache, enabled: true, ttl_seconds: 60, tool_ttls: {} });
+}
+
+describe('result cache', () => {
+  it('serves hits without calling the loader again', async () => {
+    const results = cache();
+    const loader = jest.fn(async () => ({ nodes: [{ id: 'ENG-1' }] }));
+
+    await results.getOrLoad(call, 'linear', ['ENG'], loader);
+    const hit = await results.getOrLoad(call, 'linear', ['ENG'], loader);
+
+    expect(hit).toEqual({ nodes: [{ id: 'ENG-1' }] });
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(results.stats()).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+  });
+
+  it('gives every caller its own copy', async () => {
+    const results = cache();
+    const loaded = { nodes: [{ id: 'ENG-1', title: 'Original' }] };
+    const loader = async () => loaded;
+
+    const [first, shared] = await Promise.all([
+      results.getOrLoad(call, 'linear', ['ENG'], loader),
+      results.getOrLoad(call, 'linear', ['ENG'], loader)
+    ]);
+    first.nodes[0].title = 'Changed by the first caller';
+    shared.nodes.push({ id: 'ENG-2' });
+    loaded.nodes[0].title = 'Changed by the loader';
+
+    const hit = await results.getOrLoad(call, 'linear', ['ENG'], loader);
+    expect(hit).toEqual({ nodes: [{ id: 'ENG-1', title: 'Original' }] });
+    hit.nodes.length = 0;
+
+    expect(await results.getOrLoad(call, 'linear', ['ENG'], loader)).toEqual({ nodes: [{ id: 'ENG-1', title: 'Original' }] });
+  });
+
+  it('drops results a write to the same scope may have changed', async () => {
+    const results = cache();
+    const loader = jest.fn(async () => ({ nodes: [] }));
+    await results.getOrLoad(call, 'linear', ['ENG'], loader);
+
+    expect(results.invalidate('linear', ['DES'])).toBe(0);
+    expect(results.invalidate('linear', ['ENG'])).toBe(1);
+
+    await results.getOrLoad(call, 'linear', ['ENG'], loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_RULES, RuleEngine, globToRegExp, parseRules } from '../src/rule-engine';
+
+const dirs: string[] = [];
+
+function rulesFile(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-'));
+  dirs.push(dir);
+  return path.join(dir, 'rules.yaml');
+}
+
+let edits = 0;
+
+/** Write the rules file with a new mtime, so a reload never depends on timestamp resolution */
+function write(file: string, content: string): void {
+  fs.writeFileSync(file, content);
+  const mtime = new Date(Date.parse('2026-01-01T00:00:00.000Z') + ++edits * 1000);
+  fs.utimesSync(file, mtime, mtime);
+}
+
+const ENG_RULES = `
+rules:
+  - id: linear-team
+    match:
+      tool: linear_create_*
+    actions:
+      inject:
+        teamId: connectors.linear.team.id
+templates:
+  - id: notion-spec-page
+    enabled: false
+policies:
+  deny_tools: ['*_delete_*']
+`;
+
+const ids = (rules: { id: string }[]): string[] => rules.map(rule => rule.id);
+
+describe('rule engine', () => {
+  afterAll(() => dirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+  it('uses only the built-in rules without a rules file', async () => {
+    const engine = new RuleEngine(rulesFile());
+
+    expect(ids(await engine.all())).toEqual(ids(DEFAULT_RULES));
+    expect(await engine.policy()).toEqual({});
+  });
+
+  it('loads rules, templates and policies after the built-ins', async () => {
+    const file = rulesFile();
+    write(file, ENG_RULES);
+    const engine = new RuleEngine(file);
+
+    expect(ids(await engine.match({ tool: 'linear_create_issue', params: {} }))).toEqual(['builtin-chaining', 'linear-team']);
+    expect(ids(await engine.templates())).not.toContain('notion-spec-page');
+    expect(await engine.policy()).toEqual({ deny_tools: ['*_delete_*'] });
+  });
+
+  it('reloads the file when it changes', async () => {
+    const file = rulesFile();
+    write(file, ENG_RULES);
+    const engine = new RuleEngine(file);
+    expect(ids(await engine.match({ tool: 'linear_create_issue', params: {} }))).toContain('linear-team');
+
+    write(file, ENG_RULES.replace('linear_create_*', 'asana_create_*'));
+    expect(ids(await engine.match({ tool: 'linear_create_issue', params: {} }))).not.toContain('linear-team');
+    expect(ids(await engine.match({ tool: 'asana_create_task', params: {} }))).toContain('linear-team');
+
+    fs.rmSync(file);
+    expect(ids(await engine.all())).toEqual(ids(DEFAULT_RULES));
+  });
+
+  it('keeps the previous rules when a reload finds an invalid file', async () => {
+    const file = rulesFile();
+    write(file, ENG_RULES);
+    const engine = new RuleEngine(file);
+    await engine.refresh();
+
+    write(file, 'rules:\n  - id: broken\n    match:\n      tool: 42\n    actions: {}\n');
+    expect(ids(await engine.all())).toContain('linear-team');
+    expect(await engine.policy()).toEqual({ deny_tools: ['*_delete_*'] });
+
+    write(file, 'rules: [unclosed');
+    expect(ids(await engine.all())).toContain('linear-team');
+  });
+
+  it('matches tool globs and param predicates', async () => {
+    const file = rulesFile();
+    write(file, `
+rules:
+  - id: urgent-bugs
+    match:
+      tool: ['github_create_issue', 'linear_create_?ssue']
+      params:
+        priority: { in: [1, 2] }
+        title: { matches: '^Bug' }
+        assignee: { exists: false }
+    actions:
+      block: Triage first
+`);
+    const engine = new RuleEngine(file);
+    const matched = async (tool: string, params: Record<string, any>) => ids(await engine.match({ tool, params })).includes('urgent-bugs');
+
+    expect(await matched('linear_create_issue', { priority: 1, title: 'Bug: crash' })).toBe(true);
+    expect(await matched('github_create_issue', { priority: 2, title: 'Bug: leak' })).toBe(true);
+    expect(await matched('linear_create_issue', { priority: 3, title: 'Bug: crash' })).toBe(false);
+    expect(await matched('linear_create_issue', { priority: 1, title: 'Feature' })).toBe(false);
+    expect(await matched('linear_create_issue', { priority: 1, title: 'Bug: crash', assignee: 'ana' })).toBe(false);
+    expect(await matched('linear_create_comment', { priority: 1, title: 'Bug: crash' })).toBe(false);
+  });
+
+  it('treats glob characters other than * and ? literally', () => {
+    expect(globToRegExp('*list_issues*').test('linear_list_issues')).toBe(true);
+    expect(globToRegExp('linear_?').test('linear_ab')).toBe(false);
+    expect(globToRegExp('github.*').test('github_list')).toBe(false);
+    expect(globToRegExp('(a|b)+').test('(a|b)+')).toBe(true);
+  });
+
+  it('rejects invalid rule documents', () => {
+    expect(() => parseRules('rules: {}')).toThrow('"rules" must be a list');
+    expect(() => parseRules('rules:\n  - id: a\n    match: { tool: x }\n    actions: {}\n  - id: a\n    match: { tool: y }\n    actions: {}\n'))
+      .toThrow('rule a: duplicate id');
+    expect(() => parseRules("rules:\n  - id: a\n    match: { tool: x, params: { p: { matches: '(' } } }\n    actions: {}\n"))
+      .toThrow('match.params.p.matches is not a valid pattern');
+  });
+});
@@ -0,0 +1,4 @@
+import { configureLogger } from '../src/logging';
+
+// Keep test output readable; assertions inspect state, not log lines
+configureLogger({ write: () => {} });
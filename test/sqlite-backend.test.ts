@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SqliteStorageBackend } from '../src/storage/sqlite-backend';
+import { AuditEntry, CalibrationState, HealthStatus } from '../src/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const dirs: string[] = [];
+const backends: SqliteStorageBackend[] = [];
+
+function legacyDir(files: Record<string, string> = {}): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-'));
+  dirs.push(dir);
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+  return dir;
+}
+
+function backend(dir: string = legacyDir()): SqliteStorageBackend {
+  const opened = new SqliteStorageBackend(':memory:', dir);
+  backends.push(opened);
+  return opened;
+}
+
+function calibration(timestamp: string): CalibrationState {
+  return { timestamp, connectors: { linear: { status: 'authenticated', last_verified: timestamp } } };
+}
+
+function health(timestamp: string, status: 'healthy' | 'failed' = 'healthy'): HealthStatus {
+  return {
+    timestamp,
+    overall: status === 'healthy' ? 'healthy' : 'degraded',
+    connectors: { linear: { status, latency_ms: 12, last_check: timestamp, ...(status === 'failed' ? { error: 'down' } : {}) } }
+  };
+}
+
+function audit(id: string, timestamp: string): AuditEntry {
+  const call = { tool: 'linear_create_issue', params: { title: id } };
+  return {
+    id,
+    timestamp,
+    correlation_id: `corr-${id}`,
+    tool: call.tool,
+    connector: 'linear',
+    outcome: 'allowed',
+    duration_ms: 1.5,
+    result: { original: call, enhanced: call, modifications: [], outcome: 'allowed' }
+  };
+}
+
+const ago = (ms: number): string => new Date(Date.now() - ms).toISOString();
+
+describe('SQLite storage backend', () => {
+  afterEach(async () => {
+    await Promise.all(backends.splice(0).map(opened => opened.close()));
+  });
+  afterAll(() => dirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+  it('keeps history newest first and loads the latest snapshot', async () => {
+    const store = backend();
+    for (const day of ['01', '02', '03']) {
+      await store.saveCalibration(calibration(`2026-01-${day}T00:00:00.000Z`));
+      await store.saveHealth(health(`2026-01-${day}T00:00:00.000Z`, day === '02' ? 'failed' : 'healthy'));
+    }
+
+    expect(await store.loadCalibration()).toEqual(calibration('2026-01-03T00:00:00.000Z'));
+    expect(await store.loadHealth()).toEqual(health('2026-01-03T00:00:00.000Z'));
+    expect((await store.calibrationHistory({ limit: 2 })).map(state => state.timestamp)).toEqual([
+      '2026-01-03T00:00:00.000Z',
+      '2026-01-02T00:00:00.000Z'
+    ]);
+    expect((await store.healthHistory('linear', { since: new Date('2026-01-02T00:00:00.000Z') })).map(record => record.status)).toEqual([
+      'healthy',
+      'failed'
+    ]);
+    expect(await store.lastFailure('linear')).toMatchObject({ status: 'failed', error: 'down', last_check: '2026-01-02T00:00:00.000Z' });
+  });
+
+  it('filters and limits the audit log', async () => {
+    const store = backend();
+    await store.appendAudit(audit('a', '2026-01-01T00:00:00.000Z'));
+    await store.appendAudit({ ...audit('b', '2026-01-02T00:00:00.000Z'), tool: 'github_create_issue', connector: 'github' });
+    await store.appendAudit(audit('c', '2026-01-03T00:00:00.000Z'));
+
+    expect((await store.auditLog({ connector: 'linear' })).map(entry => entry.id)).toEqual(['c', 'a']);
+    expect((await store.auditLog({ limit: 1 })).map(entry => entry.id)).toEqual(['c']);
+    expect(await store.auditEntry('b')).toEqual({ ...audit('b', '2026-01-02T00:00:00.000Z'), tool: 'github_create_issue', connector: 'github' });
+  });
+
+  it('rejects a limit that is not a non-negative integer', async () => {
+    const store = backend();
+    await store.saveCalibration(calibration('2026-01-01T00:00:00.000Z'));
+
+    for (const limit of [NaN, Infinity, -1, 2.5]) {
+      await expect(store.calibrationHistory({ limit })).rejects.toThrow(RangeError);
+      await expect(store.auditLog({ limit })).rejects.toThrow(RangeError);
+    }
+    expect(await store.calibrationHistory({ limit: 0 })).toHaveLength(1);
+  });
+
+  it('prunes entries past retention but never the latest snapshot', async () => {
+    const store = backend();
+    const latest = ago(40 * DAY);
+    await store.saveCalibration(calibration(ago(50 * DAY)));
+    await store.saveCalibration(calibration(latest));
+    await store.saveHealth(health(ago(40 * DAY), 'failed'));
+    await store.saveHealth(health(ago(DAY)));
+    await store.appendAudit(audit('old', ago(40 * DAY)));
+    await store.appendAudit(audit('recent', ago(DAY)));
+
+    expect(await store.prune(30)).toBe(3);
+
+    expect((await store.calibrationHistory()).map(state => state.timestamp)).toEqual([latest]);
+    expect(await store.healthHistory('linear')).toHaveLength(1);
+    expect(await store.lastFailure('linear')).toBeNull();
+    expect((await store.auditLog()).map(entry => entry.id)).toEqual(['recent']);
+  });
+
+  it('imports legacy JSON state into an empty database', async () => {
+    const dir = legacyDir({
+      'calibration.json': JSON.stringify(calibration('2026-01-01T00:00:00.000Z')),
+      'health.json': JSON.stringify(health('2026-01-01T00:00:00.000Z', 'failed'))
+    });
+    const store = backend(dir);
+
+    expect(await store.loadCalibration()).toEqual(calibration('2026-01-01T00:00:00.000Z'));
+    expect(await store.loadHealth()).toEqual(health('2026-01-01T00:00:00.000Z', 'failed'));
+    expect(await store.healthHistory('linear')).toEqual([
+      { connector: 'linear', status: 'failed', latency_ms: 12, last_check: '2026-01-01T00:00:00.000Z', error: 'down', error_type: undefined }
+    ]);
+  });
+
+  it('skips unreadable legacy files', async () => {
+    const store = backend(legacyDir({ 'calibration.json': '{ not json' }));
+
+    expect(await store.loadCalibration()).toBeNull();
+    expect(await store.loadHealth()).toBeNull();
+  });
+});
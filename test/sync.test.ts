@@ -0,0 +1,195 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryPluginSync, NotionDashboardClient, NotionDashboardSync, memoryGraph } from '../src/sync';
+import { SyncSnapshot } from '../src/types';
+
+/**
+ * In-memory Notion database recording the calls the dashboard makes
+ */
+class FakeNotionDatabase implements NotionDashboardClient {
+  pages = new Map<string, Record<string, any>>();
+  calls: string[] = [];
+  addedColumns: Record<string, any>[] = [];
+
+  constructor(public properties: Record<string, string>) {}
+
+  async getDatabaseProperties(): Promise<Record<string, string>> {
+    this.calls.push('getDatabaseProperties');
+    return { ...this.properties };
+  }
+
+  async addDatabaseProperties(_databaseId: string, properties: Record<string, any>): Promise<void> {
+    this.calls.push('addDatabaseProperties');
+    this.addedColumns.push(properties);
+    for (const [name, definition] of Object.entries(properties)) {
+      this.properties[name] = Object.keys(definition)[0];
+    }
+  }
+
+  async findDatabasePage(_databaseId: string, titleProperty: string, title: string): Promise<string | null> {
+    this.calls.push('findDatabasePage');
+    const found = [...this.pages].find(([, properties]) => properties[titleProperty]?.title[0]?.text.content === title);
+    return found?.[0] ?? null;
+  }
+
+  async createDatabasePage(_databaseId: string, properties: Record<string, any>): Promise<string> {
+    this.calls.push('createDatabasePage');
+    const id = `page-${this.pages.size + 1}`;
+    this.pages.set(id, properties);
+    return id;
+  }
+
+  async updatePageProperties(pageId: string, properties: Record<string, any>): Promise<void> {
+    this.calls.push('updatePageProperties');
+    if (!this.pages.has(pageId)) throw new Error(`No page ${pageId}`);
+    this.pages.set(pageId, { ...this.pages.get(pageId), ...properties });
+  }
+}
+
+function snapshot(linearHealth: 'healthy' | 'failed' = 'healthy'): SyncSnapshot {
+  return {
+    calibration: {
+      timestamp: '2026-01-01T00:00:00.000Z',
+      connectors: {
+        linear: {
+          status: 'authenticated',
+          user: { id: 'u1', name: 'Ada Lovelace', email: 'ada@example.com' },
+          team: { id: 't1', key: 'ENG', name: 'Engineering' },
+          teams: [{ id: 't1', key: 'ENG', name: 'Engineering' }, { id: 't2', key: 'DES', name: 'Design' }],
+          last_verified: '2026-01-01T00:00:00.000Z'
+        },
+        notion: {
+          status: 'authenticated',
+          bot: { id: 'b1', name: 'Awareness Engine' },
+          last_verified: '2026-01-01T00:00:00.000Z'
+        },
+        github: {
+          status: 'failed',
+          error: 'github: Bad credentials',
+          error_type: 'auth',
+          last_verified: '2026-01-01T00:00:00.000Z'
+        }
+      }
+    },
+    health: {
+      timestamp: '2026-01-01T00:05:00.000Z',
+      overall: 'degraded',
+      connectors: {
+        linear: { status: linearHealth, latency_ms: 120.4, last_check: '2026-01-01T00:05:00.000Z' }
+      }
+    }
+  };
+}
+
+describe('Notion dashboard sync', () => {
+  it('creates one page per connector, then updates the same pages in place', async () => {
+    const database = new FakeNotionDatabase({ Name: 'title' });
+    const dashboard = new NotionDashboardSync('db1', database);
+
+    await dashboard.sync(snapshot());
+    expect(database.pages.size).toBe(3);
+
+    database.calls = [];
+    await dashboard.sync(snapshot('failed'));
+
+    expect(database.pages.size).toBe(3);
+    expect(database.calls.filter(call => call === 'updatePageProperties')).toHaveLength(3);
+    expect(database.calls).not.toContain('createDatabasePage');
+    const linear = [...database.pages.values()].find(page => page.Name.title[0].text.content === 'linear')!;
+    expect(linear.Health).toEqual({ select: { name: 'failed' } });
+    expect(linear.Identity.rich_text[0].text.content).toBe('ada@example.com');
+  });
+
+  it('finds existing pages by title after a restart instead of duplicating them', async () => {
+    const database = new FakeNotionDatabase({ Name: 'title' });
+    await new NotionDashboardSync('db1', database).sync(snapshot());
+
+    await new NotionDashboardSync('db1', database).sync(snapshot());
+
+    expect(database.pages.size).toBe(3);
+  });
+
+  it('adds only the missing columns, once', async () => {
+    const database = new FakeNotionDatabase({ Connector: 'title', Status: 'select', Error: 'rich_text' });
+    const dashboard = new NotionDashboardSync('db1', database);
+
+    await dashboard.sync(snapshot());
+    await dashboard.sync(snapshot());
+
+    expect(database.addedColumns).toHaveLength(1);
+    expect(Object.keys(database.addedColumns[0]).sort()).toEqual(['Health', 'Identity', 'Last Checked', 'Last Verified', 'Latency (ms)']);
+    expect(database.calls.filter(call => call === 'getDatabaseProperties')).toHaveLength(1);
+    expect([...database.pages.values()].map(page => page.Connector.title[0].text.content).sort()).toEqual(['github', 'linear', 'notion']);
+  });
+
+  it('rejects a database without a title column', async () => {
+    const dashboard = new NotionDashboardSync('db1', new FakeNotionDatabase({ Status: 'select' }));
+
+    await expect(dashboard.sync(snapshot())).rejects.toThrow('has no title property');
+  });
+});
+
+describe('memory graph export', () => {
+  it('describes connectors, accounts and scopes', () => {
+    const graph = memoryGraph(snapshot());
+
+    expect(graph.entities).toEqual([
+      {
+        name: 'MCP connector: linear',
+        entityType: 'mcp_connector',
+        observations: ['Calibration: authenticated as of 2026-01-01T00:00:00.000Z', 'Health: healthy, 120ms as of 2026-01-01T00:05:00.000Z']
+      },
+      {
+        name: 'linear account: ada@example.com',
+        entityType: 'mcp_account',
+        observations: ['Name: Ada Lovelace', 'Email: ada@example.com', 'ID: u1']
+      },
+      { name: 'linear team: ENG', entityType: 'mcp_scope', observations: ['Name: Engineering', 'ID: t1'] },
+      { name: 'linear team: DES', entityType: 'mcp_scope', observations: ['Name: Design', 'ID: t2'] },
+      {
+        name: 'MCP connector: notion',
+        entityType: 'mcp_connector',
+        observations: ['Calibration: authenticated as of 2026-01-01T00:00:00.000Z']
+      },
+      { name: 'notion account: Awareness Engine', entityType: 'mcp_account', observations: ['Integration bot', 'ID: b1'] },
+      {
+        name: 'MCP connector: github',
+        entityType: 'mcp_connector',
+        observations: ['Calibration: failed as of 2026-01-01T00:00:00.000Z', 'Calibration error: github: Bad credentials']
+      }
+    ]);
+    expect(graph.relations).toEqual([
+      { from: 'MCP connector: linear', to: 'linear account: ada@example.com', relationType: 'authenticates_as' },
+      { from: 'MCP connector: linear', to: 'linear team: ENG', relationType: 'defaults_to' },
+      { from: 'MCP connector: linear', to: 'linear team: DES', relationType: 'has_access_to' },
+      { from: 'MCP connector: notion', to: 'notion account: Awareness Engine', relationType: 'authenticates_as' }
+    ]);
+  });
+
+  it('rewrites its own lines in the JSONL file and keeps the agent\'s', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-'));
+    const file = path.join(dir, 'memory.jsonl');
+    const agentLines = [
+      { type: 'entity', name: 'Ada', entityType: 'person', observations: ['Prefers Linear'] },
+      { type: 'relation', from: 'Ada', to: 'MCP connector: linear', relationType: 'uses' }
+    ];
+    await fs.writeFile(file, agentLines.map(line => JSON.stringify(line)).join('\n') + '\n');
+
+    try {
+      const sync = new MemoryPluginSync(file);
+      await sync.sync(snapshot());
+      await sync.sync(snapshot('failed'));
+
+      const lines = (await fs.readFile(file, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.slice(0, 2)).toEqual(agentLines);
+      expect(lines.filter(line => line.type === 'entity')).toHaveLength(1 + 7);
+      expect(lines.filter(line => line.type === 'relation')).toHaveLength(1 + 4);
+      expect(lines.find(line => line.name === 'MCP connector: linear').observations).toContain(
+        'Health: failed, 120ms as of 2026-01-01T00:05:00.000Z'
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});